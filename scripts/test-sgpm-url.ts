@@ -6,14 +6,14 @@
 
 import { logger } from '../src/utils/logger';
 import { getHttpClient } from '../src/utils/OptimizedHttpClient';
-import { sgpmConfig } from '../src/config-sgpm';
+import { getWatchlistSgpmConfig } from '../src/services/WatchlistManager';
 
 async function testSgpmUrls(): Promise<void> {
   logger.info('🔍 开始测试SGPM URL访问性...');
   
   const httpClient = getHttpClient(logger);
   
-  for (const url of sgpmConfig.productUrls) {
+  for (const url of getWatchlistSgpmConfig(logger).productUrls) {
     logger.info(`\n🌐 测试: ${url}`);
     
     try {
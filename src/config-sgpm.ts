@@ -14,6 +14,8 @@ export const sgpmConfig: SgpmConfig = {
     'https://www.popmart.com/sg/products/5625/THE%20MONSTERS%20FALL%20IN%20WILD%20SERIES-Vinyl%20Plush%20Doll'
   ],
   statusFile: './sgpm-products-status.json',
+  watchlistFile: './sgpm-watchlist.json',
+  eventLogFile: './sgpm-events.jsonl',
   maxRetries: 3,
   retryDelay: 2000,
   timeout: 30000,
@@ -28,9 +30,88 @@ export const sgpmConfig: SgpmConfig = {
     'Sec-Fetch-Mode': 'navigate',
     'Sec-Fetch-Site': 'none',
     'Cache-Control': 'max-age=0'
+  },
+  alerts: {
+    cooldownMinutes: parseInt(process.env.SGPM_ALERT_COOLDOWN_MINUTES || '30'),
+    reminderIntervalMinutes: parseInt(process.env.SGPM_REMINDER_INTERVAL_MINUTES || '120'),
+    notifySoldOut: process.env.SGPM_NOTIFY_SOLD_OUT !== 'false',
+    priceDropPercent: parseFloat(process.env.SGPM_PRICE_DROP_PERCENT || '5')
+  },
+  // 只关注特定款式的产品，例如只在单盒有货时提醒：
+  // 'https://www.popmart.com/sg/pop-now/set/64': ['single']
+  variantSubscriptions: {},
+  // 静音的产品，由监控列表（/mute 命令）生成
+  mutedProducts: {},
+  discovery: {
+    // 可在此添加系列（collection）页面
+    listingUrls: [
+      'https://www.popmart.com/sg/new-arrivals'
+    ],
+    searchUrlTemplate: 'https://www.popmart.com/sg/search/{keyword}',
+    keywords: (process.env.SGPM_DISCOVERY_KEYWORDS || 'LABUBU,THE MONSTERS')
+      .split(',')
+      .map(keyword => keyword.trim())
+      .filter(keyword => keyword.length > 0),
+    catalogFile: './sgpm-discovery-catalog.json',
+    autoAddToWatchlist: process.env.SGPM_DISCOVERY_AUTO_ADD === 'true',
+    maxScrolls: 5
+  },
+  idProbe: {
+    windowSize: parseInt(process.env.SGPM_PROBE_WINDOW || '10'),
+    maxRequests: parseInt(process.env.SGPM_PROBE_MAX_REQUESTS || '10'),
+    requestDelay: 3000,
+    stateFile: './sgpm-id-probe.json'
+  },
+  scheduler: {
+    enabled: process.env.SGPM_ADAPTIVE_SCHEDULING === 'true',
+    stateFile: './sgpm-schedule.json',
+    minIntervalMinutes: 5,
+    baseIntervalMinutes: 15,
+    maxIntervalMinutes: 120,
+    maxChecksPerRun: parseInt(process.env.SGPM_MAX_CHECKS_PER_RUN || '10'),
+    hotWindowDays: 3,
+    deadAfterDays: 14
+  },
+  burst: {
+    leadMinutes: parseInt(process.env.SGPM_BURST_LEAD_MINUTES || '3'),
+    tailMinutes: parseInt(process.env.SGPM_BURST_TAIL_MINUTES || '15'),
+    intervalSeconds: 5,
+    jitterSeconds: 2,
+    maxWaitMinutes: 10
+  },
+  // 补货提醒在 afterSeconds 内没有人点"确认"时，重新发送到 chatIds 并提及 mentions（需要常驻模式）
+  escalation: {
+    enabled: !!(process.env.SGPM_ESCALATION_CHAT_IDS || process.env.SGPM_ESCALATION_MENTIONS),
+    afterSeconds: parseInt(process.env.SGPM_ESCALATION_SECONDS || '120'),
+    maxEscalations: parseInt(process.env.SGPM_ESCALATION_MAX || '3'),
+    chatIds: splitList(process.env.SGPM_ESCALATION_CHAT_IDS),
+    mentions: splitList(process.env.SGPM_ESCALATION_MENTIONS),
+    stateFile: './sgpm-escalations.json'
   }
 };
 
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * 验证单个SGPM产品URL
+ * @returns 错误信息，URL有效时返回 null
+ */
+export function validateSgpmProductUrl(url: string): string | null {
+  try {
+    new URL(url);
+  } catch {
+    return `格式无效: ${url}`;
+  }
+
+  if (!url.includes('popmart.com/sg/products/') && !url.includes('popmart.com/sg/pop-now/set/')) {
+    return `不是有效的PopMart新加坡产品URL: ${url}`;
+  }
+
+  return null;
+}
+
 /**
  * SGPM监控配置验证
  */
@@ -43,13 +124,15 @@ export function validateSgpmConfig(): { valid: boolean; errors: string[] } {
 
   // 验证URL格式
   sgpmConfig.productUrls.forEach((url, index) => {
-    try {
-      new URL(url);
-      if (!url.includes('popmart.com/sg/products/') && !url.includes('popmart.com/sg/pop-now/set/')) {
-        errors.push(`URL ${index + 1} 不是有效的PopMart新加坡产品URL: ${url}`);
-      }
-    } catch {
-      errors.push(`URL ${index + 1} 格式无效: ${url}`);
+    const urlError = validateSgpmProductUrl(url);
+    if (urlError) {
+      errors.push(`URL ${index + 1} ${urlError}`);
+    }
+  });
+
+  Object.entries(sgpmConfig.variantSubscriptions).forEach(([url, variants]) => {
+    if (!Array.isArray(variants) || variants.length === 0) {
+      errors.push(`款式订阅不能为空: ${url}`);
     }
   });
 
@@ -57,6 +140,14 @@ export function validateSgpmConfig(): { valid: boolean; errors: string[] } {
     errors.push('状态文件路径不能为空');
   }
 
+  if (!sgpmConfig.watchlistFile) {
+    errors.push('监控列表文件路径不能为空');
+  }
+
+  if (!sgpmConfig.eventLogFile) {
+    errors.push('事件日志文件路径不能为空');
+  }
+
   if (sgpmConfig.maxRetries < 1 || sgpmConfig.maxRetries > 10) {
     errors.push('最大重试次数应在1-10之间');
   }
@@ -69,6 +160,73 @@ export function validateSgpmConfig(): { valid: boolean; errors: string[] } {
     errors.push('超时时间应在10000-60000毫秒之间');
   }
 
+  if (sgpmConfig.discovery.keywords.length === 0) {
+    errors.push('新品发现关键词不能为空');
+  }
+
+  if (!sgpmConfig.discovery.searchUrlTemplate.includes('{keyword}')) {
+    errors.push('搜索页模板必须包含 {keyword}');
+  }
+
+  if (!sgpmConfig.discovery.catalogFile) {
+    errors.push('新品目录文件路径不能为空');
+  }
+
+  if (isNaN(sgpmConfig.idProbe.windowSize) || sgpmConfig.idProbe.windowSize < 1 || sgpmConfig.idProbe.windowSize > 50) {
+    errors.push('ID探测窗口应在1-50之间');
+  }
+
+  if (isNaN(sgpmConfig.idProbe.maxRequests) || sgpmConfig.idProbe.maxRequests < 1 || sgpmConfig.idProbe.maxRequests > 30) {
+    errors.push('ID探测请求上限应在1-30之间');
+  }
+
+  const { minIntervalMinutes, baseIntervalMinutes, maxIntervalMinutes, maxChecksPerRun } = sgpmConfig.scheduler;
+  if (!(minIntervalMinutes > 0 && minIntervalMinutes <= baseIntervalMinutes && baseIntervalMinutes <= maxIntervalMinutes)) {
+    errors.push('调度间隔应满足 0 < 最小间隔 <= 基础间隔 <= 最大间隔');
+  }
+
+  if (isNaN(maxChecksPerRun) || maxChecksPerRun < 1) {
+    errors.push('每次运行的检查上限至少为1');
+  }
+
+  const { leadMinutes, tailMinutes, intervalSeconds, jitterSeconds } = sgpmConfig.burst;
+  if (isNaN(leadMinutes) || leadMinutes < 0 || isNaN(tailMinutes) || tailMinutes < 1) {
+    errors.push('发售密集检查时段无效（发售前分钟数不能为负，发售后至少1分钟）');
+  }
+
+  if (jitterSeconds >= intervalSeconds) {
+    errors.push('密集检查的随机抖动应小于检查间隔');
+  }
+
+  const { afterSeconds, maxEscalations, chatIds, mentions } = sgpmConfig.escalation;
+  if (isNaN(afterSeconds) || afterSeconds < 30) {
+    errors.push('补货提醒升级等待时间至少为30秒');
+  }
+
+  if (isNaN(maxEscalations) || maxEscalations < 1) {
+    errors.push('补货提醒升级次数至少为1');
+  }
+
+  chatIds.filter(id => !/^-?\d+$/.test(id)).forEach(id => {
+    errors.push(`升级聊天ID无效: ${id}`);
+  });
+
+  mentions.filter(mention => !/^(@\w+|\d+)$/.test(mention)).forEach(mention => {
+    errors.push(`升级提及用户无效（应为 @用户名 或数字ID）: ${mention}`);
+  });
+
+  if (isNaN(sgpmConfig.alerts.cooldownMinutes) || sgpmConfig.alerts.cooldownMinutes < 0) {
+    errors.push('提醒冷却时间不能为负数');
+  }
+
+  if (isNaN(sgpmConfig.alerts.reminderIntervalMinutes) || sgpmConfig.alerts.reminderIntervalMinutes < 0) {
+    errors.push('持续有货提醒间隔不能为负数');
+  }
+
+  if (isNaN(sgpmConfig.alerts.priceDropPercent) || sgpmConfig.alerts.priceDropPercent < 0 || sgpmConfig.alerts.priceDropPercent > 100) {
+    errors.push('降价提醒百分比应在0-100之间');
+  }
+
   return {
     valid: errors.length === 0,
     errors
@@ -1,4 +1,4 @@
-import { XhsConfig } from './types';
+import { XhsConfig, DaemonConfig, MqttConfig, NotificationConfig, NotificationEventType } from './types';
 
 /**
  * 小红书监控配置 (XHS专用)
@@ -30,8 +30,11 @@ export const xhsConfig: XhsConfig = {
   "labubu popmart", "popmart labubu"
   ],
   seenPostsFile: 'xhs-seen-posts.json',
+  keywordsFile: 'xhs-keywords.json',
   cookiesFile: 'xhs-cookies.json',
   maxSeenPosts: 500,
+  activityFile: 'xhs-activity.json',
+  maxActivityEntries: 50,
 };
 
 /**
@@ -68,21 +71,248 @@ export const appConfig = {
   useProxy: process.env.USE_PROXY === 'true',
 } as const;
 
+const MINUTE = 60 * 1000;
+// 补货提醒升级任务按秒检查，其他任务的间隔以分钟配置
+const MIN_TASK_INTERVAL = 15 * 1000;
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(id => id.trim()).filter(Boolean);
+}
+
+/**
+ * 常驻进程（daemon）任务配置
+ * 每个任务运行结束后间隔 interval 再次运行，同一任务不会重叠运行
+ */
+export const daemonConfig: DaemonConfig = {
+  tasks: {
+    xhs: {
+      name: '小红书',
+      enabled: process.env.DAEMON_XHS !== 'false',
+      interval: parseInt(process.env.XHS_INTERVAL_MINUTES || '10') * MINUTE,
+      timeout: 10 * MINUTE,
+      retries: 1
+    },
+    sgpm: {
+      name: 'SGPM',
+      enabled: process.env.DAEMON_SGPM !== 'false',
+      interval: parseInt(process.env.SGPM_INTERVAL_MINUTES || '5') * MINUTE,
+      timeout: 10 * MINUTE,
+      retries: 1
+    },
+    sgpmDiscovery: {
+      name: 'SGPM新品发现',
+      enabled: process.env.DAEMON_SGPM !== 'false',
+      interval: 30 * MINUTE,
+      timeout: 15 * MINUTE,
+      retries: 0
+    },
+    sgpmBurst: {
+      name: 'SGPM发售密集检查',
+      enabled: process.env.DAEMON_SGPM !== 'false',
+      interval: 1 * MINUTE,
+      timeout: 60 * MINUTE, // 需要覆盖整个发售时段
+      retries: 0
+    },
+    sgpmEscalation: {
+      name: 'SGPM补货提醒升级',
+      enabled: process.env.DAEMON_SGPM !== 'false', // 另需配置 SGPM_ESCALATION_CHAT_IDS 或 SGPM_ESCALATION_MENTIONS
+      interval: 15 * 1000,
+      timeout: 1 * MINUTE,
+      retries: 0
+    },
+    statusBoard: {
+      name: 'Telegram状态板',
+      enabled: process.env.TELEGRAM_BOARD === 'true',
+      interval: parseInt(process.env.BOARD_INTERVAL_MINUTES || '1') * MINUTE,
+      timeout: 1 * MINUTE,
+      retries: 0
+    }
+  },
+  shutdownTimeout: 30 * 1000,
+  server: {
+    enabled: process.env.STATUS_SERVER !== 'false',
+    port: parseInt(process.env.PORT || '3000'),
+    readyMaxAge: parseInt(process.env.READY_MAX_AGE_MINUTES || '30') * MINUTE,
+    apiToken: process.env.API_TOKEN || undefined
+  },
+  bot: {
+    enabled: process.env.BOT_COMMANDS !== 'false',
+    adminIds: splitList(process.env.BOT_ADMIN_IDS),
+    viewerIds: splitList(process.env.BOT_VIEWER_IDS),
+    pollTimeout: 30
+  },
+  board: {
+    chatIds: splitList(process.env.BOARD_CHAT_IDS),
+    stateFile: 'telegram-board.json'
+  }
+};
+
+/**
+ * 通知事件类型
+ */
+export const NOTIFICATION_EVENTS: NotificationEventType[] = [
+  'sgpm_stock', 'sgpm_release', 'sgpm_escalation', 'sgpm_new_product', 'xhs_post', 'report'
+];
+
+/**
+ * 只发送到 Telegram 的事件类型：补货提醒升级依赖 Telegram 的用户提及、聊天ID和确认按钮
+ */
+export const TELEGRAM_ONLY_EVENTS: NotificationEventType[] = ['sgpm_escalation'];
+
+/**
+ * Discord / Slack 接收的事件类型，未配置时接收除 Telegram 专用事件以外的所有事件
+ */
+function getWebhookEvents(value: string | undefined): NotificationEventType[] {
+  const events = splitList(value) as NotificationEventType[];
+  return events.length > 0 ? events : NOTIFICATION_EVENTS.filter(event => !TELEGRAM_ONLY_EVENTS.includes(event));
+}
+
+/**
+ * 通知渠道与路由配置
+ * Telegram 使用 BOT_TOKEN/CHAT_ID（SGPM 可用 SGPM_BOT_TOKEN/SGPM_CHAT_ID）；Discord / Slack 配置 Webhook URL 后启用。
+ * TELEGRAM_EVENTS / DISCORD_EVENTS / SLACK_EVENTS 为逗号分隔的事件类型，未配置时接收所有事件
+ * （补货提醒升级 sgpm_escalation 只发送到 Telegram）。
+ */
+export const notificationConfig: NotificationConfig = {
+  telegram: {
+    enabled: process.env.NOTIFY_TELEGRAM !== 'false',
+    events: splitList(process.env.TELEGRAM_EVENTS) as NotificationEventType[]
+  },
+  discord: {
+    enabled: !!process.env.DISCORD_WEBHOOK_URL,
+    events: getWebhookEvents(process.env.DISCORD_EVENTS),
+    webhookUrl: process.env.DISCORD_WEBHOOK_URL
+  },
+  slack: {
+    enabled: !!process.env.SLACK_WEBHOOK_URL,
+    events: getWebhookEvents(process.env.SLACK_EVENTS),
+    webhookUrl: process.env.SLACK_WEBHOOK_URL
+  }
+};
+
+/**
+ * 验证通知配置
+ */
+export function validateNotificationConfig(): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  Object.entries(notificationConfig).forEach(([channel, config]) => {
+    config.events.filter(event => !NOTIFICATION_EVENTS.includes(event)).forEach(event => {
+      errors.push(`${channel} 通知事件类型无效: ${event}（可选: ${NOTIFICATION_EVENTS.join(', ')}）`);
+    });
+    if (channel !== 'telegram') {
+      config.events.filter(event => TELEGRAM_ONLY_EVENTS.includes(event)).forEach(event => {
+        errors.push(`${channel} 不支持事件类型 ${event}（只发送到 Telegram）`);
+      });
+    }
+
+    if (config.webhookUrl && !/^https:\/\//.test(config.webhookUrl)) {
+      errors.push(`${channel} Webhook URL 必须以 https:// 开头`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * MQTT 输出配置（配置 MQTT_URL 后启用）
+ * 每个产品发布保留的 state/price/last_checked 主题，库存变化和匹配的小红书帖子发布为不保留的事件主题；
+ * 同时发布 Home Assistant 自动发现配置，每个产品自动出现为一个 binary_sensor。
+ */
+export const mqttConfig: MqttConfig = {
+  enabled: !!process.env.MQTT_URL,
+  url: process.env.MQTT_URL || '',
+  username: process.env.MQTT_USERNAME || undefined,
+  password: process.env.MQTT_PASSWORD || undefined,
+  clientId: process.env.MQTT_CLIENT_ID || 'labubu-watcher',
+  topicPrefix: process.env.MQTT_TOPIC_PREFIX || 'labubu',
+  discovery: process.env.MQTT_DISCOVERY !== 'false',
+  discoveryPrefix: process.env.MQTT_DISCOVERY_PREFIX || 'homeassistant'
+};
+
+/**
+ * 验证 MQTT 配置
+ */
+export function validateMqttConfig(): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (mqttConfig.enabled && !/^(mqtts?|wss?):\/\//.test(mqttConfig.url)) {
+    errors.push(`MQTT_URL 无效（应以 mqtt://、mqtts://、ws:// 或 wss:// 开头）: ${mqttConfig.url}`);
+  }
+
+  [mqttConfig.topicPrefix, mqttConfig.discoveryPrefix].forEach(prefix => {
+    if (!prefix || /[#+]/.test(prefix) || prefix.startsWith('/') || prefix.endsWith('/')) {
+      errors.push(`MQTT 主题前缀无效: ${prefix}`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * 验证常驻进程配置
+ */
+export function validateDaemonConfig(): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  Object.values(daemonConfig.tasks).forEach(task => {
+    if (!task.interval || isNaN(task.interval) || task.interval < MIN_TASK_INTERVAL) {
+      errors.push(`${task.name}任务间隔至少为${MIN_TASK_INTERVAL / 1000}秒`);
+    }
+  });
+
+  if (!Object.values(daemonConfig.tasks).some(task => task.enabled)) {
+    errors.push('没有启用的任务');
+  }
+
+  const { port, readyMaxAge, apiToken } = daemonConfig.server;
+  if (isNaN(port) || port < 1 || port > 65535) {
+    errors.push(`状态服务端口无效: ${process.env.PORT}`);
+  }
+
+  if (isNaN(readyMaxAge) || readyMaxAge < MINUTE) {
+    errors.push('就绪检查的最长间隔至少为1分钟');
+  }
+
+  if (apiToken !== undefined && apiToken.length < 16) {
+    errors.push('API_TOKEN 至少需要16个字符');
+  }
+
+  const { adminIds, viewerIds } = daemonConfig.bot;
+  [...adminIds, ...viewerIds, ...daemonConfig.board.chatIds].filter(id => !/^-?\d+$/.test(id)).forEach(id => {
+    errors.push(`Telegram 聊天ID无效: ${id}`);
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
 /**
  * 验证配置的有效性
  */
 export function validateConfig(): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
-  // 验证环境变量
-  if (!process.env.BOT_TOKEN) {
+  // 验证环境变量（只使用 Discord / Slack 通知时不需要 Telegram）
+  const hasWebhookChannel = notificationConfig.discord.enabled || notificationConfig.slack.enabled;
+  if (!process.env.BOT_TOKEN && !hasWebhookChannel) {
     errors.push('缺少环境变量: BOT_TOKEN');
   }
 
-  if (!process.env.CHAT_ID) {
+  if (!process.env.CHAT_ID && !hasWebhookChannel) {
     errors.push('缺少环境变量: CHAT_ID');
   }
 
+  errors.push(...validateNotificationConfig().errors, ...validateMqttConfig().errors);
+
   // 验证生产环境代理设置
   if (appConfig.isProduction && !appConfig.useProxy) {
     errors.push('生产环境必须启用代理 (USE_PROXY=true)');
@@ -1,6 +1,7 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import { launchWithRandomProxy } from '../utils/proxyLauncher';
 import { LoggerInstance } from '../utils/logger';
+import { metrics, recordBrowserLaunch } from '../utils/metrics';
 import { ProxyConfig } from '../types';
 
 /**
@@ -76,11 +77,13 @@ export class BrowserManager {
         this.browser = result.browser;
         this.page = result.page;
         this.proxy = result.proxy;
+        recordBrowserLaunch(result.browser, 'proxy');
         
         if (this.proxy) {
           this.logger.info(`使用代理: ${this.proxy.ip}:${this.proxy.port}`);
         }
       } catch (proxyError) {
+        metrics.browserLaunches.inc({ manager: 'proxy', result: 'failure' });
         this.logger.warn('代理启动失败，尝试直接连接:', proxyError);
         const result = await this.launchDirect();
         this.browser = result.browser;
@@ -112,6 +115,7 @@ export class BrowserManager {
       defaultViewport: null,
       timeout: 30000
     });
+    recordBrowserLaunch(this.browser, 'direct');
 
     this.page = await this.browser.newPage();
 
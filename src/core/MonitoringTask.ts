@@ -1,12 +1,13 @@
 import { BrowserManager } from './BrowserManager';
 import { LoggerInstance } from '../utils/logger';
 import { StatusManager } from '../utils/statusManager';
-import { sendTelegramMessage } from '../utils/sendTelegramMessage';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
 import { XhsScraper } from '../scrapers/XhsScraper';
 import { PopMartScraper } from '../scrapers/PopMartScraper';
 import { XhsService } from '../services/XhsService';
 import { PopMartService } from '../services/PopMartService';
-import { XhsPostData } from '../types';
+import { XhsActivityLog } from '../utils/xhsActivity';
+import { Notification, XhsPostData, XhsRunStats } from '../types';
 
 /**
  * 监控任务基类
@@ -122,9 +123,9 @@ export abstract class MonitoringTask {
   /**
    * 发送通知
    */
-  protected async sendNotification(message: string): Promise<void> {
+  protected async sendNotification(notification: Notification): Promise<void> {
     try {
-      await sendTelegramMessage(message);
+      await getNotifierRegistry(this.logger).notify(notification);
       this.logger.success('通知发送成功');
     } catch (error) {
       this.logger.error('通知发送失败:', error);
@@ -149,12 +150,14 @@ export class XhsMonitoringTask extends MonitoringTask {
   private statusManager: StatusManager<string[]>;
   private config: any;
   private xhsService: XhsService;
+  private activityLog: XhsActivityLog;
 
   constructor(logger: LoggerInstance, config: any) {
     super('小红书', logger);
     this.config = config;
     this.statusManager = new StatusManager(config.seenPostsFile, logger, []);
-    this.xhsService = new XhsService(logger, this.statusManager, config);
+    this.activityLog = new XhsActivityLog(config.activityFile, logger, config.maxActivityEntries);
+    this.xhsService = new XhsService(logger, this.statusManager, config, this.activityLog);
   }
 
   protected async setupBrowser(): Promise<void> {
@@ -170,24 +173,41 @@ export class XhsMonitoringTask extends MonitoringTask {
       this.logger.info('🔧 GitHub Actions 环境检测到，使用优化配置');
     }
 
-    try {
-      // 创建抓取器
-      this.logDebug('正在创建 XhsScraper 实例');
-      const scraper = new XhsScraper(this.browserManager.getPage(), this.logger);
-      this.logDebug('XhsScraper 实例创建成功');
+    // 创建抓取器
+    this.logDebug('正在创建 XhsScraper 实例');
+    const scraper = new XhsScraper(this.browserManager.getPage(), this.logger);
+    this.logDebug('XhsScraper 实例创建成功');
 
+    try {
       // 设置页面
       this.logInfo('设置页面配置', true);
       await scraper.setupPage();
 
-      // 导航到搜索页面
-      this.logInfo('导航到搜索页面', true);
-      await scraper.navigateToSearch(this.config.searchKeyword);
+      // 依次搜索每个搜索词，按URL合并帖子
+      const keywords: string[] = this.config.searchKeywords?.length ? this.config.searchKeywords : [this.config.searchKeyword];
+      const posts: XhsPostData[] = [];
+      const seenUrls = new Set<string>();
+
+      for (const keyword of keywords) {
+        // 导航到搜索页面
+        this.logInfo(`导航到搜索页面: ${keyword}`, true);
+        await scraper.navigateToSearch(keyword);
+
+        // 提取帖子
+        this.logInfo('开始提取帖子数据', true);
+        const found = await scraper.extractPosts();
+        for (const post of found) {
+          if (!seenUrls.has(post.url)) {
+            seenUrls.add(post.url);
+            posts.push(post);
+          }
+        }
+        this.logInfo(`「${keyword}」提取到 ${found.length} 个帖子`, true);
+      }
 
-      // 提取帖子
-      this.logInfo('开始提取帖子数据', true);
-      const posts = await scraper.extractPosts();
-      this.logInfo(`提取到 ${posts.length} 个帖子`, true);
+      if (keywords.length > 1) {
+        this.logInfo(`合并后共 ${posts.length} 个帖子`, true);
+      }
 
       if (posts.length === 0) {
         this.logInfo('未抓取到任何帖子', true);
@@ -201,9 +221,18 @@ export class XhsMonitoringTask extends MonitoringTask {
     } catch (error) {
       this.logger.error('小红书监控执行失败:', error);
       throw error;
+    } finally {
+      this.activityLog.recordSecurityIncidents(scraper.getSecurityIncidents());
     }
   }
 
+  /**
+   * 获取最近一次运行的统计（没有抓取到帖子时为 null）
+   */
+  getLastRunStats(): XhsRunStats | null {
+    return this.xhsService.getLastRunStats();
+  }
+
   /**
    * 处理小红书帖子
    */
@@ -1,5 +1,6 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import { LoggerInstance } from '../utils/logger';
+import { metrics, recordBrowserLaunch } from '../utils/metrics';
 
 /**
  * 浏览器实例池
@@ -199,6 +200,7 @@ class BrowserPool {
       if (!browser || !browser.isConnected()) {
         throw new Error('Browser failed to start or connect');
       }
+      recordBrowserLaunch(browser, 'pool');
 
       page = await browser.newPage();
 
@@ -227,6 +229,10 @@ class BrowserPool {
       return { browser, page };
 
     } catch (error) {
+      if (!browser || !browser.isConnected()) {
+        metrics.browserLaunches.inc({ manager: 'pool', result: 'failure' });
+      }
+
       // 清理资源
       if (page && !page.isClosed()) {
         try {
@@ -336,6 +342,7 @@ class BrowserPool {
       if (!browser || !browser.isConnected()) {
         throw new Error('Fallback browser failed to start');
       }
+      recordBrowserLaunch(browser, 'pool');
 
       page = await browser.newPage();
 
@@ -358,6 +365,10 @@ class BrowserPool {
       return { browser, page };
 
     } catch (error) {
+      if (!browser || !browser.isConnected()) {
+        metrics.browserLaunches.inc({ manager: 'pool', result: 'failure' });
+      }
+
       // 清理资源
       if (page && !page.isClosed()) {
         try {
@@ -616,6 +627,16 @@ export class OptimizedBrowserManager {
     return OptimizedBrowserManager.pool.getPoolStatus();
   }
 
+  /**
+   * 获取池状态（浏览器池尚未创建时全部为0）
+   */
+  static getPoolStatus(): { total: number; inUse: number; idle: number } {
+    if (!OptimizedBrowserManager.pool) {
+      return { total: 0, inUse: 0, idle: 0 };
+    }
+    return OptimizedBrowserManager.pool.getPoolStatus();
+  }
+
   /**
    * 关闭所有浏览器实例
    */
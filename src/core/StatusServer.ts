@@ -0,0 +1,409 @@
+import http from 'http';
+import crypto from 'crypto';
+import { LoggerInstance } from '../utils/logger';
+import { CacheManagerFactory } from '../utils/OptimizedCacheManager';
+import { getConcurrencyController } from '../utils/ConcurrencyController';
+import { metricsRegistry } from '../utils/metrics';
+import { resolveStockState } from '../utils/stockState';
+import { OptimizedBrowserManager } from './OptimizedBrowserManager';
+import { TaskScheduler } from './TaskScheduler';
+import { renderDashboardPage } from './dashboardPage';
+import { getSgpmStatusTracker } from '../services/SgpmStatusTracker';
+import { DashboardService } from '../services/DashboardService';
+import { sgpmConfig } from '../config-sgpm';
+import { appConfig, daemonConfig, xhsConfig } from '../config';
+import { ReadinessCheck, StatusServerConfig, XhsRunStats } from '../types';
+
+/**
+ * 状态服务的数据来源（由常驻进程提供）
+ */
+export interface StatusServerSources {
+  scheduler: TaskScheduler;
+  getXhsStats: () => XhsRunStats | null;
+}
+
+export type RouteParams = Record<string, string>;
+export type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, params: RouteParams) => void | Promise<void>;
+
+interface Route {
+  method: string;
+  segments: string[]; // 以 : 开头的段为路径参数
+  auth: boolean;
+  handler: RouteHandler;
+}
+
+// /status 中返回的最近错误条数
+const RECENT_ERROR_LIMIT = 20;
+// 请求体大小上限
+const MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * 带 HTTP 状态码的错误，路由处理函数抛出后按该状态码返回
+ */
+export class HttpError extends Error {
+  readonly statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * 返回 JSON 响应
+ */
+export function sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * 读取 JSON 请求体（空请求体返回空对象）
+ * @throws {HttpError} 请求体过大或不是 JSON 对象时抛出 400/413
+ */
+export async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, any>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, '请求体过大');
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8').trim();
+  if (!text) {
+    return {};
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, '请求体不是有效的 JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, '请求体必须是 JSON 对象');
+  }
+  return body as Record<string, any>;
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/**
+ * 常驻进程内置的 HTTP 状态服务
+ *
+ * - GET /healthz  存活检查：进程事件循环可响应即返回 200
+ * - GET /readyz   就绪检查：浏览器池已启动，且各任务最近一次成功运行未超过该任务的 interval + timeout（不低于 readyMaxAge）
+ * - GET /status   JSON 状态：任务、产品状态、小红书统计、浏览器池、缓存、最近错误
+ * - GET /metrics  Prometheus 指标
+ * - GET /         看板：监控产品、状态/价格时间线、最近推送的小红书帖子和安全验证记录
+ *
+ * 其他模块可通过 route() 注册路由（如 apiRoutes.ts 中的管理 API），
+ * auth 路由需要 Authorization: Bearer <API_TOKEN>。
+ */
+export class StatusServer {
+  private config: StatusServerConfig;
+  private logger: LoggerInstance;
+  private sources: StatusServerSources;
+  private server: http.Server | null = null;
+  private routes: Route[] = [];
+  private startedAt = Date.now();
+  private dashboard: DashboardService;
+
+  constructor(config: StatusServerConfig, logger: LoggerInstance, sources: StatusServerSources) {
+    this.config = config;
+    this.logger = logger;
+    this.sources = sources;
+    this.dashboard = new DashboardService(sgpmConfig, xhsConfig, logger);
+
+    this.route('GET', '/healthz', (_req, res) => {
+      sendJson(res, 200, { status: 'ok', uptime: Math.round((Date.now() - this.startedAt) / 1000) });
+    });
+    this.route('GET', '/readyz', (_req, res) => {
+      const checks = this.getReadiness();
+      const ready = checks.every(check => check.ok);
+      sendJson(res, ready ? 200 : 503, { status: ready ? 'ready' : 'not_ready', checks });
+    });
+    this.route('GET', '/status', (_req, res) => {
+      sendJson(res, 200, this.getStatus());
+    });
+    this.route('GET', '/metrics', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(metricsRegistry.render());
+    });
+    this.route('GET', '/', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(renderDashboardPage());
+    });
+    this.route('GET', '/dashboard/data', (_req, res) => {
+      sendJson(res, 200, this.dashboard.getOverview());
+    });
+    this.route('GET', '/dashboard/timeline', (req, res) => {
+      const key = new URL(req.url || '/', 'http://localhost').searchParams.get('product');
+      const timeline = key ? this.dashboard.getTimeline(key) : null;
+      if (!timeline) {
+        sendJson(res, 404, { error: 'product not found' });
+        return;
+      }
+      sendJson(res, 200, timeline);
+    });
+
+    this.registerCollectors();
+  }
+
+  /**
+   * 注册路由
+   * @param path - 以 : 开头的段为路径参数，如 /api/watchlist/:id
+   * @param options.auth - 是否需要 Bearer Token（API_TOKEN）
+   */
+  route(method: string, path: string, handler: RouteHandler, options: { auth?: boolean } = {}): void {
+    this.routes.push({ method, segments: splitPath(path), auth: options.auth ?? false, handler });
+  }
+
+  /**
+   * 启动监听
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.logger.info(`🌐 状态服务已启动: http://localhost:${this.config.port}/status`);
+  }
+
+  /**
+   * 停止监听
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    this.logger.info('🌐 状态服务已关闭');
+  }
+
+  /**
+   * 就绪检查项
+   */
+  getReadiness(now: number = Date.now()): ReadinessCheck[] {
+    const checks: ReadinessCheck[] = [];
+    const tasks = this.sources.scheduler.getStatus();
+
+    // 只有 SGPM 任务使用浏览器池（小红书任务使用独立的浏览器）
+    if (tasks.some(task => task.name !== daemonConfig.tasks.xhs.name)) {
+      const pool = OptimizedBrowserManager.getPoolStatus();
+      checks.push({
+        name: 'browserPool',
+        ok: pool.total > 0,
+        detail: `${pool.total} 个浏览器（使用中 ${pool.inUse}）`
+      });
+    }
+
+    for (const task of tasks) {
+      if (!task.lastSuccessAt) {
+        checks.push({ name: task.name, ok: false, detail: task.lastError ? `尚未成功运行: ${task.lastError}` : '尚未成功运行' });
+        continue;
+      }
+
+      const age = now - task.lastSuccessAt;
+      const maxAge = this.getTaskMaxAge(task.name);
+      checks.push({
+        name: task.name,
+        ok: age <= maxAge,
+        detail: `最近一次成功运行于 ${Math.round(age / 60000)} 分钟前（上限 ${Math.round(maxAge / 60000)} 分钟）`
+      });
+    }
+
+    return checks;
+  }
+
+  /**
+   * 任务最近一次成功运行的最大允许时长
+   * 间隔从上次运行结束开始计算，正常情况下两次成功之间最多相隔 interval + timeout
+   */
+  private getTaskMaxAge(name: string): number {
+    const config = this.sources.scheduler.getTaskConfig(name);
+    const interval = config?.interval ?? appConfig.defaultTaskInterval;
+    return Math.max(this.config.readyMaxAge, interval + (config?.timeout ?? 0));
+  }
+
+  /**
+   * 完整状态
+   */
+  getStatus(now: number = Date.now()) {
+    return {
+      generatedAt: now,
+      uptime: Math.round((now - this.startedAt) / 1000),
+      tasks: this.sources.scheduler.getStatus(),
+      products: this.getProductStates(),
+      xhs: this.sources.getXhsStats(),
+      browserPool: OptimizedBrowserManager.getPoolStatus(),
+      caches: CacheManagerFactory.getAllCacheStats(),
+      memory: process.memoryUsage(),
+      recentErrors: this.logger.getRecentErrors(RECENT_ERROR_LIMIT)
+    };
+  }
+
+  /**
+   * 各产品最近一次检查的状态（读取与 SGPM 任务共用的状态跟踪器）
+   */
+  private getProductStates() {
+    const statuses = getSgpmStatusTracker(sgpmConfig, this.logger).getStatus();
+
+    return Object.entries(statuses).map(([key, status]) => ({
+      key,
+      title: status.title,
+      url: status.url,
+      stockState: resolveStockState(status),
+      price: status.price,
+      lastChecked: status.lastChecked,
+      inStockSince: status.inStockSince
+    }));
+  }
+
+  /**
+   * 输出 /metrics 前从调度器、浏览器池、缓存和并发控制器读取当前值
+   */
+  private registerCollectors(): void {
+    const taskRuns = metricsRegistry.counter('labubu_task_runs_total', '常驻任务运行次数', ['task']);
+    const taskFailures = metricsRegistry.counter('labubu_task_failures_total', '常驻任务失败次数（重试后仍失败）', ['task']);
+    const taskLastSuccess = metricsRegistry.gauge('labubu_task_last_success_timestamp_seconds', '常驻任务最近一次成功的时间戳', ['task']);
+    const taskLastDuration = metricsRegistry.gauge('labubu_task_last_duration_seconds', '常驻任务最近一次运行耗时（秒）', ['task']);
+    const poolBrowsers = metricsRegistry.gauge('labubu_browser_pool_browsers', '浏览器池中的浏览器数量', ['state']);
+    const cacheRequests = metricsRegistry.counter('labubu_cache_requests_total', '缓存读取次数', ['cache', 'result']);
+    const cacheHitRatio = metricsRegistry.gauge('labubu_cache_hit_ratio', '缓存命中率', ['cache']);
+    const cacheEntries = metricsRegistry.gauge('labubu_cache_entries', '缓存条目数', ['cache']);
+    const cacheMemory = metricsRegistry.gauge('labubu_cache_memory_bytes', '缓存占用内存（字节）', ['cache']);
+    const concurrencyTasks = metricsRegistry.counter('labubu_concurrency_tasks_total', '并发控制器任务数（按结果）', ['result']);
+    const concurrencyActive = metricsRegistry.gauge('labubu_concurrency_active_tasks', '并发控制器运行中的任务数');
+    const concurrencyQueue = metricsRegistry.gauge('labubu_concurrency_queue_size', '并发控制器排队中的任务数');
+    const memory = metricsRegistry.gauge('labubu_process_memory_bytes', '进程内存使用（字节）', ['type']);
+
+    metricsRegistry.addCollector(() => {
+      for (const task of this.sources.scheduler.getStatus()) {
+        taskRuns.set({ task: task.name }, task.runs);
+        taskFailures.set({ task: task.name }, task.failures);
+        if (task.lastSuccessAt) {
+          taskLastSuccess.set({ task: task.name }, Math.round(task.lastSuccessAt / 1000));
+        }
+        if (task.lastDuration !== undefined) {
+          taskLastDuration.set({ task: task.name }, task.lastDuration / 1000);
+        }
+      }
+
+      const pool = OptimizedBrowserManager.getPoolStatus();
+      poolBrowsers.set({ state: 'in_use' }, pool.inUse);
+      poolBrowsers.set({ state: 'idle' }, pool.idle);
+
+      for (const [cache, stats] of Object.entries(CacheManagerFactory.getAllCacheStats())) {
+        cacheRequests.set({ cache, result: 'hit' }, stats.hits);
+        cacheRequests.set({ cache, result: 'miss' }, stats.misses);
+        cacheHitRatio.set({ cache }, stats.hitRate);
+        cacheEntries.set({ cache }, stats.size);
+        cacheMemory.set({ cache }, stats.memoryUsage);
+      }
+
+      const concurrency = getConcurrencyController(this.logger).getStats();
+      concurrencyTasks.set({ result: 'completed' }, concurrency.completedTasks);
+      concurrencyTasks.set({ result: 'failed' }, concurrency.failedTasks);
+      concurrencyTasks.set({ result: 'timeout' }, concurrency.timeoutTasks);
+      concurrencyTasks.set({ result: 'retried' }, concurrency.retriedTasks);
+      concurrencyActive.set({}, concurrency.activeTasks);
+      concurrencyQueue.set({}, concurrency.currentQueueSize);
+
+      for (const [type, bytes] of Object.entries(process.memoryUsage())) {
+        memory.set({ type }, bytes);
+      }
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const segments = splitPath(path);
+
+    const matched = this.routes
+      .map(route => ({ route, params: this.matchRoute(route, segments) }))
+      .filter((match): match is { route: Route; params: RouteParams } => match.params !== null);
+
+    if (matched.length === 0) {
+      sendJson(res, 404, { error: 'not found' });
+      return;
+    }
+
+    const match = matched.find(({ route }) => route.method === req.method);
+    if (!match) {
+      sendJson(res, 405, { error: 'method not allowed' });
+      return;
+    }
+
+    if (match.route.auth && !this.isAuthorized(req)) {
+      sendJson(res, 401, { error: 'unauthorized' });
+      return;
+    }
+
+    try {
+      await match.route.handler(req, res, match.params);
+    } catch (error) {
+      const statusCode = error instanceof HttpError ? error.statusCode : 500;
+      if (statusCode >= 500) {
+        this.logger.error(`状态服务处理 ${req.method} ${path} 失败:`, error);
+      }
+      if (!res.headersSent) {
+        sendJson(res, statusCode, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  private matchRoute(route: Route, segments: string[]): RouteParams | null {
+    if (route.segments.length !== segments.length) {
+      return null;
+    }
+
+    const params: RouteParams = {};
+    for (let i = 0; i < segments.length; i++) {
+      const expected = route.segments[i];
+      if (expected.startsWith(':')) {
+        try {
+          params[expected.slice(1)] = decodeURIComponent(segments[i]);
+        } catch {
+          return null;
+        }
+      } else if (expected !== segments[i]) {
+        return null;
+      }
+    }
+    return params;
+  }
+
+  /**
+   * 校验 Authorization: Bearer <API_TOKEN>（未配置 Token 时一律拒绝）
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const token = this.config.apiToken;
+    const header = req.headers.authorization || '';
+    if (!token || !header.startsWith('Bearer ')) {
+      return false;
+    }
+
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(header.slice('Bearer '.length).trim());
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,241 @@
+import { LoggerInstance } from '../utils/logger';
+import { appConfig } from '../config';
+import { MonitoringTaskConfig, ScheduledTaskStatus } from '../types';
+
+/**
+ * 定时任务
+ */
+interface ScheduledTask {
+  config: MonitoringTaskConfig;
+  run: () => Promise<void>;
+  status: ScheduledTaskStatus;
+  timer: NodeJS.Timeout | null;
+  current: Promise<void> | null;
+  lock: Promise<void>; // 定时运行和 runExclusive 依次排队，不会同时执行
+  timedOut: Promise<void> | null; // 已超时但仍在后台执行的运行
+}
+
+// 重试前的等待时间
+const RETRY_DELAY = 10 * 1000;
+
+/**
+ * 常驻进程的任务调度器
+ *
+ * 按 MonitoringTaskConfig 的 interval/timeout/retries 循环运行任务：
+ * 启动后立即运行一次，每次运行结束后间隔 interval 再运行，同一任务不会重叠运行。
+ * 超时或失败的运行按 retries 重试，全部失败后等待下一个周期。
+ * 超时的运行无法中断，它在后台结束之前，重试、下一次运行和 runExclusive 都会等待。
+ */
+export class TaskScheduler {
+  private logger: LoggerInstance;
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private stopped: boolean = false;
+
+  constructor(logger: LoggerInstance) {
+    this.logger = logger;
+  }
+
+  /**
+   * 注册任务（未启用的任务会被忽略）
+   */
+  register(config: MonitoringTaskConfig, run: () => Promise<void>): void {
+    if (!config.enabled) {
+      this.logger.info(`⏸️ 任务未启用: ${config.name}`);
+      return;
+    }
+    if (this.tasks.has(config.name)) {
+      throw new Error(`任务已注册: ${config.name}`);
+    }
+
+    this.tasks.set(config.name, {
+      config,
+      run,
+      status: { name: config.name, running: false, runs: 0, failures: 0 },
+      timer: null,
+      current: null,
+      lock: Promise.resolve(),
+      timedOut: null
+    });
+  }
+
+  /**
+   * 启动所有任务
+   */
+  start(): void {
+    this.stopped = false;
+    for (const task of this.tasks.values()) {
+      const interval = task.config.interval ?? appConfig.defaultTaskInterval;
+      this.logger.info(`🗓️ 任务已启动: ${task.config.name}（每 ${Math.round(interval / 1000)} 秒）`);
+      this.schedule(task, 0);
+    }
+  }
+
+  /**
+   * 停止调度，并等待运行中的任务结束
+   * @param timeout - 最长等待时间（毫秒）
+   * @returns 是否所有任务都已结束
+   */
+  async stop(timeout: number): Promise<boolean> {
+    this.stopped = true;
+    const running: Promise<void>[] = [];
+
+    for (const task of this.tasks.values()) {
+      if (task.timer) {
+        clearTimeout(task.timer);
+        task.timer = null;
+      }
+      task.status.nextRunAt = undefined;
+      if (task.current) {
+        running.push(task.current);
+      }
+      if (task.timedOut) {
+        running.push(task.timedOut);
+      }
+    }
+
+    if (running.length === 0) {
+      return true;
+    }
+
+    this.logger.info(`⏳ 等待 ${running.length} 个运行中的任务结束（最多 ${timeout / 1000} 秒）`);
+    let timer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      Promise.all(running).then(() => true),
+      new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(false), timeout); })
+    ]);
+    clearTimeout(timer);
+    return finished;
+  }
+
+  /**
+   * 在指定任务的定时运行之间执行一次操作（如手动触发的检查），
+   * 与该任务的定时运行互斥；任务未注册时直接执行
+   */
+  async runExclusive<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const task = this.tasks.get(name);
+    return task ? this.withLock(task, fn) : fn();
+  }
+
+  /**
+   * 获取已注册任务的配置
+   */
+  getTaskConfig(name: string): MonitoringTaskConfig | undefined {
+    return this.tasks.get(name)?.config;
+  }
+
+  /**
+   * 获取所有任务的运行状态
+   */
+  getStatus(): ScheduledTaskStatus[] {
+    return [...this.tasks.values()].map(task => ({ ...task.status }));
+  }
+
+  private schedule(task: ScheduledTask, delay: number): void {
+    if (this.stopped) {
+      return;
+    }
+    task.status.nextRunAt = Date.now() + delay;
+    task.timer = setTimeout(() => {
+      task.timer = null;
+      // 排队等锁期间调度器可能已停止
+      task.current = this.withLock(task, () => this.stopped ? Promise.resolve() : this.execute(task)).finally(() => {
+        task.current = null;
+        this.schedule(task, task.config.interval ?? appConfig.defaultTaskInterval);
+      });
+    }, delay);
+  }
+
+  private withLock<T>(task: ScheduledTask, fn: () => Promise<T>): Promise<T> {
+    const run = task.lock.then(fn);
+    // 本次超时的运行在后台结束后才释放锁
+    const release = () => task.timedOut ?? undefined;
+    task.lock = run.then(release, release);
+    return run;
+  }
+
+  /**
+   * 等待已超时的运行在后台结束
+   */
+  private async waitForTimedOut(task: ScheduledTask): Promise<void> {
+    if (task.timedOut) {
+      this.logger.warn(`⏳ 等待 ${task.config.name} 上次超时的运行结束`);
+      await task.timedOut;
+    }
+  }
+
+  /**
+   * 运行一次任务（含超时和重试），不会抛出错误
+   */
+  private async execute(task: ScheduledTask): Promise<void> {
+    const { name, retries = 0 } = task.config;
+    const status = task.status;
+    status.running = true;
+    status.nextRunAt = undefined;
+    status.lastStartedAt = Date.now();
+    status.runs++;
+
+    try {
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        if (attempt > 0) {
+          if (this.stopped) {
+            return;
+          }
+          this.logger.warn(`🔄 ${name}任务重试 (${attempt}/${retries})`);
+          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+          await this.waitForTimedOut(task);
+        }
+
+        try {
+          await this.runWithTimeout(task);
+          status.lastSuccessAt = Date.now();
+          status.lastError = undefined;
+          return;
+        } catch (error) {
+          status.lastError = error instanceof Error ? error.message : String(error);
+          this.logger.error(`❌ ${name}任务失败:`, error);
+        }
+      }
+      status.failures++;
+    } finally {
+      status.running = false;
+      status.lastFinishedAt = Date.now();
+      status.lastDuration = status.lastFinishedAt - status.lastStartedAt!;
+    }
+  }
+
+  /**
+   * 超时后不再等待本次运行（任务本身无法中断，会在后台自行结束，结束前记录在 timedOut 中）
+   */
+  private async runWithTimeout(task: ScheduledTask): Promise<void> {
+    const { name, timeout } = task.config;
+    if (!timeout) {
+      return task.run();
+    }
+
+    const run = task.run();
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    try {
+      await Promise.race([
+        run,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            timedOut = true;
+            reject(new Error(`${name}任务超时（${Math.round(timeout / 1000)}秒）`));
+          }, timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+      if (timedOut) {
+        const background = run.then(() => undefined, () => undefined).then(() => {
+          this.logger.info(`🏁 ${name}任务超时的运行已在后台结束`);
+          if (task.timedOut === background) {
+            task.timedOut = null;
+          }
+        });
+        task.timedOut = background;
+      }
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { LoggerInstance } from '../utils/logger';
+import { getProductKey } from '../utils/productIdentity';
+import { getWatchlistManager, WatchlistEntryOptions } from '../services/WatchlistManager';
+import { getXhsKeywordManager } from '../services/XhsKeywordManager';
+import { HttpError, readJsonBody, sendJson, StatusServer } from './StatusServer';
+import { ProductCheckResult, WatchlistEntry, XhsKeywordKind } from '../types';
+
+/**
+ * 管理 API（所有路由都需要 Authorization: Bearer <API_TOKEN>）
+ *
+ * 修改直接写入 sgpm-watchlist.json / xhs-keywords.json，调度器下一次运行任务时生效：
+ * - GET    /api/watchlist                  监控列表
+ * - POST   /api/watchlist                  添加产品 {url, label?, priority?, tags?, variants?, enabled?, releaseAt?}
+ * - GET    /api/watchlist/:id              单个产品（:id 为产品键、序号或URL编码后的URL）
+ * - PATCH  /api/watchlist/:id              修改产品（未提供的字段保持不变）
+ * - DELETE /api/watchlist/:id              删除产品
+ * - POST   /api/watchlist/:id/check        立即检查并返回检查结果
+ * - GET    /api/xhs/keywords               搜索词与匹配关键词
+ * - PUT    /api/xhs/keywords               整体替换 {searchKeywords, matchKeywords}
+ * - POST   /api/xhs/search-terms           添加搜索词 {keyword}
+ * - DELETE /api/xhs/search-terms/:keyword  删除搜索词
+ * - POST   /api/xhs/match-keywords         添加匹配关键词 {keyword}
+ * - DELETE /api/xhs/match-keywords/:keyword 删除匹配关键词
+ */
+export function registerApiRoutes(
+  server: StatusServer,
+  logger: LoggerInstance,
+  checkProductNow: (url: string) => Promise<ProductCheckResult>
+): void {
+  const watchlist = getWatchlistManager(logger);
+  const keywords = getXhsKeywordManager(logger);
+  const auth = { auth: true };
+
+  const toJson = (entry: WatchlistEntry) => ({ key: getProductKey(entry.url), ...entry });
+
+  const requireEntry = (id: string): WatchlistEntry => {
+    const entry = watchlist.find(id);
+    if (!entry) {
+      throw new HttpError(404, `监控列表中没有该条目: ${id}`);
+    }
+    return entry;
+  };
+
+  server.route('GET', '/api/watchlist', (_req, res) => {
+    sendJson(res, 200, watchlist.list().map(toJson));
+  }, auth);
+
+  server.route('POST', '/api/watchlist', async (req, res) => {
+    const body = await readJsonBody(req);
+    if (typeof body.url !== 'string') {
+      throw new HttpError(400, '缺少 url');
+    }
+    const entry = asBadRequest(() => watchlist.add(body.url, parseEntryOptions(body)));
+    watchlist.save();
+    sendJson(res, 201, toJson(entry));
+  }, auth);
+
+  server.route('GET', '/api/watchlist/:id', (_req, res, params) => {
+    sendJson(res, 200, toJson(requireEntry(params.id)));
+  }, auth);
+
+  server.route('PATCH', '/api/watchlist/:id', async (req, res, params) => {
+    const entry = requireEntry(params.id);
+    const body = await readJsonBody(req);
+    const options = parseEntryOptions(body);
+    const updated = asBadRequest(() => watchlist.update(entry.url, options));
+    // update() 中 undefined 表示保持不变，显式传 null 时清除发售时间
+    const result = body.releaseAt === null ? watchlist.setReleaseTime(entry.url, undefined) : updated;
+    watchlist.save();
+    sendJson(res, 200, toJson(result));
+  }, auth);
+
+  server.route('DELETE', '/api/watchlist/:id', (_req, res, params) => {
+    const entry = watchlist.remove(requireEntry(params.id).url);
+    watchlist.save();
+    sendJson(res, 200, toJson(entry));
+  }, auth);
+
+  server.route('POST', '/api/watchlist/:id/check', async (_req, res, params) => {
+    const entry = requireEntry(params.id);
+    logger.info(`🔍 API 请求立即检查: ${entry.label || entry.url}`);
+    sendJson(res, 200, await checkProductNow(entry.url));
+  }, auth);
+
+  server.route('GET', '/api/xhs/keywords', (_req, res) => {
+    sendJson(res, 200, keywords.get());
+  }, auth);
+
+  server.route('PUT', '/api/xhs/keywords', async (req, res) => {
+    const body = await readJsonBody(req);
+    const settings = asBadRequest(() => keywords.replace({
+      searchKeywords: parseStringList(body.searchKeywords, 'searchKeywords') ?? [],
+      matchKeywords: parseStringList(body.matchKeywords, 'matchKeywords') ?? []
+    }));
+    keywords.save();
+    sendJson(res, 200, settings);
+  }, auth);
+
+  const keywordRoutes: Array<[string, XhsKeywordKind]> = [['search-terms', 'search'], ['match-keywords', 'match']];
+  for (const [path, kind] of keywordRoutes) {
+    server.route('POST', `/api/xhs/${path}`, async (req, res) => {
+      const body = await readJsonBody(req);
+      if (typeof body.keyword !== 'string') {
+        throw new HttpError(400, '缺少 keyword');
+      }
+      const settings = asBadRequest(() => keywords.add(kind, body.keyword));
+      keywords.save();
+      sendJson(res, 201, settings);
+    }, auth);
+
+    server.route('DELETE', `/api/xhs/${path}/:keyword`, (_req, res, params) => {
+      const settings = asBadRequest(() => keywords.remove(kind, params.keyword));
+      keywords.save();
+      sendJson(res, 200, settings);
+    }, auth);
+  }
+
+  logger.info('🔑 管理 API 已启用（/api/*）');
+}
+
+/**
+ * 管理器抛出的校验错误按 400 返回
+ */
+function asBadRequest<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parseStringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new HttpError(400, `${field} 必须是字符串数组`);
+  }
+  return value;
+}
+
+/**
+ * 解析请求体中的条目字段
+ * releaseAt 支持毫秒时间戳或 ISO 时间字符串
+ */
+function parseEntryOptions(body: Record<string, any>): WatchlistEntryOptions {
+  if (body.label !== undefined && typeof body.label !== 'string') {
+    throw new HttpError(400, 'label 必须是字符串');
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    throw new HttpError(400, 'enabled 必须是布尔值');
+  }
+
+  let releaseAt: number | undefined;
+  if (body.releaseAt !== undefined && body.releaseAt !== null) {
+    releaseAt = typeof body.releaseAt === 'number' ? body.releaseAt : Date.parse(String(body.releaseAt));
+    if (!Number.isFinite(releaseAt)) {
+      throw new HttpError(400, `releaseAt 无效: ${body.releaseAt}`);
+    }
+  }
+
+  return {
+    label: body.label,
+    priority: body.priority,
+    tags: parseStringList(body.tags, 'tags'),
+    variants: parseStringList(body.variants, 'variants'),
+    enabled: body.enabled,
+    releaseAt
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * 内置看板页面（单文件 HTML，数据来自 /dashboard/data 和 /dashboard/timeline）
+ */
+export function renderDashboardPage(): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Labubu Watcher</title>
+<style>
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; margin: 0; padding: 16px 24px; background: #f6f7f9; color: #222; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .muted { color: #888; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { padding: 6px 10px; border-bottom: 1px solid #eee; text-align: left; font-size: 13px; vertical-align: top; }
+  th { background: #fafafa; font-weight: 600; }
+  tr.product { cursor: pointer; }
+  tr.product:hover, tr.selected { background: #eef5ff; }
+  tr.disabled { color: #aaa; }
+  .state { padding: 2px 6px; border-radius: 4px; font-size: 12px; white-space: nowrap; }
+  .IN_STOCK { background: #d9f7be; color: #237804; }
+  .OUT_OF_STOCK { background: #f0f0f0; color: #595959; }
+  .PREORDER { background: #e6f4ff; color: #0958d9; }
+  .UNKNOWN, .APP_ONLY, .REGION_LOCKED { background: #fff1b8; color: #874d00; }
+  #timeline { background: #fff; padding: 12px; margin-top: 12px; display: none; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  a { color: #0958d9; text-decoration: none; }
+</style>
+</head>
+<body>
+<h1>🎯 Labubu Watcher</h1>
+<div class="muted" id="generated"></div>
+
+<h2>📦 监控产品</h2>
+<table>
+  <thead><tr><th>产品</th><th>状态</th><th>价格</th><th>最近检查</th><th>距上次补货</th><th>发售时间</th></tr></thead>
+  <tbody id="products"></tbody>
+</table>
+<div id="timeline"></div>
+
+<div class="columns">
+  <div>
+    <h2>📝 最近推送的小红书帖子</h2>
+    <table><tbody id="posts"></tbody></table>
+  </div>
+  <div>
+    <h2>🔐 安全验证记录</h2>
+    <table><tbody id="incidents"></tbody></table>
+  </div>
+</div>
+
+<script>
+const STATE_LABELS = {
+  IN_STOCK: '有货', OUT_OF_STOCK: '缺货', UNKNOWN: '未知',
+  APP_ONLY: '仅限APP', REGION_LOCKED: '地区限制', PREORDER: '预售'
+};
+let selectedKey = null;
+
+function escapeHtml(value) {
+  return String(value == null ? '' : value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+}
+
+function formatTime(at) {
+  return at ? new Date(at).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore', hour12: false }) : '-';
+}
+
+function formatAgo(at) {
+  if (!at) return '-';
+  const minutes = Math.floor((Date.now() - at) / 60000);
+  if (minutes < 60) return minutes + ' 分钟';
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return hours + ' 小时';
+  return Math.floor(hours / 24) + ' 天';
+}
+
+function stateBadge(state) {
+  return state ? '<span class="state ' + state + '">' + (STATE_LABELS[state] || state) + '</span>' : '<span class="muted">未检查</span>';
+}
+
+function emptyRow(columns, text) {
+  return '<tr><td colspan="' + columns + '" class="muted">' + text + '</td></tr>';
+}
+
+async function loadOverview() {
+  const data = await (await fetch('dashboard/data')).json();
+  document.getElementById('generated').textContent = '更新于 ' + formatTime(data.generatedAt) + '（新加坡时间）';
+
+  document.getElementById('products').innerHTML = data.products.map(p =>
+    '<tr class="product' + (p.enabled ? '' : ' disabled') + (p.key === selectedKey ? ' selected' : '') + '" data-key="' + escapeHtml(p.key) + '">' +
+      '<td>' + escapeHtml(p.title) + (p.mute ? ' <span title="静音至' + (p.mute.untilRestock ? '下次补货' : ' ' + formatTime(p.mute.until)) + '">🔕</span>' : '') + ' <a href="' + escapeHtml(p.url) + '" target="_blank" onclick="event.stopPropagation()">↗</a></td>' +
+      '<td>' + stateBadge(p.stockState) + '</td>' +
+      '<td>' + escapeHtml(p.price || '-') + '</td>' +
+      '<td>' + formatTime(p.lastChecked) + '</td>' +
+      '<td>' + (p.stockState === 'IN_STOCK' && p.inStockSince ? '有货中（' + formatAgo(p.inStockSince) + '）' : formatAgo(p.lastRestockAt)) + '</td>' +
+      '<td>' + formatTime(p.releaseAt) + '</td>' +
+    '</tr>'
+  ).join('') || emptyRow(6, '监控列表为空');
+
+  document.querySelectorAll('tr.product').forEach(row => {
+    row.addEventListener('click', () => loadTimeline(row.dataset.key));
+  });
+
+  document.getElementById('posts').innerHTML = data.xhs.recentPosts.map(post =>
+    '<tr><td><a href="' + escapeHtml(post.url) + '" target="_blank">' + escapeHtml(post.title) + '</a>' +
+      '<div class="muted">' + escapeHtml(post.author || '未知作者') + ' · ' + escapeHtml(post.publishTime || '') + ' · 推送于 ' + formatTime(post.sentAt) + '</div></td></tr>'
+  ).join('') || emptyRow(1, '暂无推送');
+
+  document.getElementById('incidents').innerHTML = data.xhs.securityIncidents.map(incident =>
+    '<tr><td>' + formatTime(incident.at) + '</td><td>' + escapeHtml(incident.reason) +
+      '<div class="muted">' + escapeHtml(incident.pageTitle) + ' · ' + escapeHtml(incident.pageUrl) + '</div></td></tr>'
+  ).join('') || emptyRow(2, '暂无记录');
+}
+
+function describeEvent(event) {
+  if (event.type === 'stock_change') return stateBadge(event.oldState) + ' → ' + stateBadge(event.newState);
+  if (event.type === 'price_change') return '💰 ' + escapeHtml(event.oldPrice || '-') + ' → ' + escapeHtml(event.newPrice || '-');
+  return '❌ 检查失败：' + escapeHtml(event.error || '');
+}
+
+async function loadTimeline(key) {
+  selectedKey = key;
+  document.querySelectorAll('tr.product').forEach(row => row.classList.toggle('selected', row.dataset.key === key));
+
+  const panel = document.getElementById('timeline');
+  panel.style.display = 'block';
+  const res = await fetch('dashboard/timeline?product=' + encodeURIComponent(key));
+  if (!res.ok) {
+    panel.innerHTML = '<span class="muted">暂无该产品的历史记录</span>';
+    return;
+  }
+
+  const timeline = await res.json();
+  const rows = timeline.events.slice().reverse().map(event =>
+    '<tr><td>' + formatTime(event.at) + '</td><td>' + describeEvent(event) + '</td><td class="muted">' + escapeHtml(event.detectionSource || '') + '</td></tr>'
+  ).join('') || emptyRow(3, '暂无事件');
+  panel.innerHTML = '<strong>' + escapeHtml(timeline.title) + '</strong> 的状态/价格时间线' +
+    '<table><thead><tr><th>时间</th><th>变化</th><th>检测来源</th></tr></thead><tbody>' + rows + '</tbody></table>';
+}
+
+loadOverview();
+setInterval(loadOverview, 60000);
+</script>
+</body>
+</html>
+`;
+}
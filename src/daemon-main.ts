@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+
+/**
+ * Labubu 监控系统 - 常驻进程入口
+ *
+ * 适用于 Railway / Docker 等可以长期运行的环境，替代 GitHub Actions 的定时单次运行：
+ * - 浏览器实例池常驻，避免每次运行的冷启动
+ * - 内部调度器按 daemonConfig 中的 interval/timeout/retries 运行小红书与 SGPM 任务
+ * - 内置 HTTP 状态服务（/healthz、/readyz、/status），端口为 PORT（默认3000）
+ * - 配置 API_TOKEN 后启用管理 API（/api/*），可在运行中修改监控列表和小红书关键词
+ * - 配置 BOT_ADMIN_IDS / BOT_VIEWER_IDS 后通过 Telegram 命令查看状态、管理监控列表
+ * - TELEGRAM_BOARD=true 时在 Telegram 中维护一条置顶的状态板消息
+ * - 通知按事件类型路由到 Telegram / Discord / Slack（见 notificationConfig）
+ * - 配置 MQTT_URL 后发布产品状态与事件到 MQTT（Home Assistant 自动发现）
+ * - 配置 SGPM_ESCALATION_CHAT_IDS / SGPM_ESCALATION_MENTIONS 后，未确认的补货提醒会升级重发
+ * - 收到 SIGTERM/SIGINT 时等待运行中的任务结束，写入所有状态文件后退出
+ */
+
+import dotenv from 'dotenv';
+import { logger } from './utils/logger';
+import { daemonConfig, validateDaemonConfig, validateConfig, validateMqttConfig, validateNotificationConfig } from './config';
+import { sgpmConfig, validateSgpmConfig, validateSgpmEnvironment } from './config-sgpm';
+import { TaskScheduler } from './core/TaskScheduler';
+import { StatusServer } from './core/StatusServer';
+import { registerApiRoutes } from './core/apiRoutes';
+import { XhsMonitoringTask } from './core/MonitoringTask';
+import { OptimizedBrowserManager } from './core/OptimizedBrowserManager';
+import { OptimizedSgpmService } from './services/OptimizedSgpmService';
+import { SgpmDiscoveryService } from './services/SgpmDiscoveryService';
+import { getWatchlistManager, getWatchlistSgpmConfig } from './services/WatchlistManager';
+import { getKeywordXhsConfig } from './services/XhsKeywordManager';
+import { SgpmProductActions, TelegramBotService } from './services/TelegramBotService';
+import { TelegramStatusBoard } from './services/TelegramStatusBoard';
+import { getSgpmEscalationService } from './services/SgpmEscalationService';
+import { getNotifierRegistry } from './notifiers/NotifierRegistry';
+import { getMqttPublisher } from './services/MqttPublisher';
+import { getTelegramConfig } from './utils/sendTelegramMessage';
+import { StatusManager } from './utils/statusManager';
+import { getEnhancedResourceManager } from './utils/EnhancedResourceManager';
+import { XhsRunStats } from './types';
+
+// 加载环境变量
+dotenv.config();
+
+// 小红书最近一次运行的统计（每次运行创建新的任务实例，统计保存在这里供状态服务读取）
+let lastXhsStats: XhsRunStats | null = null;
+
+/**
+ * 注册所有任务
+ */
+function registerTasks(scheduler: TaskScheduler): void {
+  const { tasks } = daemonConfig;
+
+  // 小红书任务需要 BOT_TOKEN/CHAT_ID 等配置，未配置时跳过而不是让进程退出
+  const xhsValidation = validateConfig();
+  if (tasks.xhs.enabled && !xhsValidation.valid) {
+    logger.warn(`⚠️ 小红书配置不完整，跳过小红书任务: ${xhsValidation.errors.join(', ')}`);
+  } else {
+    scheduler.register(tasks.xhs, async () => {
+      // 每次运行重新读取关键词（可通过 API 修改）
+      const task = new XhsMonitoringTask(logger, getKeywordXhsConfig(logger));
+      await task.execute();
+      lastXhsStats = task.getLastRunStats() ?? lastXhsStats;
+    });
+  }
+
+  // SGPM 任务每次运行重新读取监控列表；浏览器池为全局共享，不在任务结束时关闭
+  scheduler.register(tasks.sgpm, async () => {
+    const service = new OptimizedSgpmService(getWatchlistSgpmConfig(logger), logger);
+    await service.checkProducts();
+  });
+
+  scheduler.register(tasks.sgpmDiscovery, async () => {
+    const discovery = await new SgpmDiscoveryService(sgpmConfig, logger).discover();
+    logger.info(`🆕 新品发现: 扫描 ${discovery.scannedPages} 页, 新品 ${discovery.newProducts.length} 个`);
+    await new OptimizedSgpmService(getWatchlistSgpmConfig(logger), logger).probeProductIds();
+  });
+
+  // 密集检查不占用 SGPM 任务锁，处于发售时段的产品由定时 SGPM 任务跳过（见 isInBurst）
+  scheduler.register(tasks.sgpmBurst, async () => {
+    const { leadMinutes, tailMinutes, maxWaitMinutes } = sgpmConfig.burst;
+    const releases = getWatchlistManager(logger).getUpcomingReleases(
+      leadMinutes * 60 * 1000,
+      tailMinutes * 60 * 1000,
+      maxWaitMinutes * 60 * 1000
+    );
+    if (releases.length > 0) {
+      await new OptimizedSgpmService(getWatchlistSgpmConfig(logger), logger).runBurstMode(releases);
+    }
+  });
+
+  // 补货提醒升级需要配置升级聊天或提及用户
+  if (sgpmConfig.escalation.enabled) {
+    const escalation = getSgpmEscalationService(logger);
+    scheduler.register(tasks.sgpmEscalation, async () => {
+      await escalation.check();
+    });
+  }
+
+  // 状态板需要 Telegram Bot Token，未配置时跳过
+  if (tasks.statusBoard.enabled && !validateSgpmEnvironment().valid) {
+    logger.warn('⚠️ Telegram未配置，跳过状态板任务');
+  } else {
+    const board = new TelegramStatusBoard(daemonConfig.board, logger);
+    scheduler.register(tasks.statusBoard, () => board.update(lastXhsStats));
+  }
+}
+
+/**
+ * 创建 Telegram 命令机器人（未配置白名单或 Bot Token 时不启用）
+ */
+function createTelegramBot(sgpmActions: SgpmProductActions): TelegramBotService | null {
+  const { bot } = daemonConfig;
+  if (!bot.enabled) {
+    return null;
+  }
+  if (bot.adminIds.length === 0 && bot.viewerIds.length === 0) {
+    logger.info('ℹ️ 未配置 BOT_ADMIN_IDS / BOT_VIEWER_IDS，Telegram 命令未启用');
+    return null;
+  }
+
+  try {
+    getTelegramConfig();
+  } catch (error) {
+    logger.warn('⚠️ Telegram Bot Token 未配置，Telegram 命令未启用');
+    return null;
+  }
+
+  return new TelegramBotService(bot, logger, sgpmActions);
+}
+
+/**
+ * 优雅退出：停止调度、等待任务、停止状态服务和命令、断开 MQTT、写入状态、关闭浏览器
+ */
+let isShuttingDown = false;
+async function shutdown(scheduler: TaskScheduler, statusServer: StatusServer | null, bot: TelegramBotService | null, signal: string): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  logger.info(`📡 收到 ${signal} 信号，正在优雅退出...`);
+
+  try {
+    const finished = await scheduler.stop(daemonConfig.shutdownTimeout);
+    if (!finished) {
+      logger.warn('⚠️ 部分任务未在限定时间内结束，直接保存状态');
+    }
+
+    await statusServer?.stop();
+    await bot?.stop();
+    await getMqttPublisher(logger).close();
+
+    const flushed = StatusManager.flushAll();
+    logger.info(`💾 已写入 ${flushed} 个未保存的状态文件`);
+
+    await OptimizedBrowserManager.closeAll();
+    await getEnhancedResourceManager(logger).cleanupAll();
+    logger.success('✅ 常驻进程已退出');
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ 优雅退出失败:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * 主函数
+ */
+async function main(): Promise<void> {
+  logger.info('=== Labubu 监控系统启动（常驻模式）===');
+
+  const daemonValidation = validateDaemonConfig();
+  if (!daemonValidation.valid) {
+    throw new Error(`常驻进程配置验证失败: ${daemonValidation.errors.join(', ')}`);
+  }
+
+  const sgpmValidation = validateSgpmConfig();
+  if (!sgpmValidation.valid) {
+    throw new Error(`SGPM配置验证失败: ${sgpmValidation.errors.join(', ')}`);
+  }
+
+  const notificationValidation = validateNotificationConfig();
+  if (!notificationValidation.valid) {
+    throw new Error(`通知配置验证失败: ${notificationValidation.errors.join(', ')}`);
+  }
+
+  const mqttValidation = validateMqttConfig();
+  if (!mqttValidation.valid) {
+    throw new Error(`MQTT配置验证失败: ${mqttValidation.errors.join(', ')}`);
+  }
+
+  const sgpmChannels = getNotifierRegistry(logger).getChannels('sgpm_stock');
+  if (sgpmChannels.length === 0) {
+    logger.warn('⚠️ 未配置通知渠道（Telegram / Discord / Slack），将跳过SGPM通知');
+  } else {
+    logger.info(`📱 SGPM通知渠道: ${sgpmChannels.join(', ')}`);
+  }
+
+  const scheduler = new TaskScheduler(logger);
+  registerTasks(scheduler);
+
+  // 立即检查与定时 SGPM 任务互斥，避免同时检查同一产品
+  const sgpmActions: SgpmProductActions = {
+    checkProductNow: url => scheduler.runExclusive(daemonConfig.tasks.sgpm.name, () =>
+      new OptimizedSgpmService(getWatchlistSgpmConfig(logger), logger).checkProductNow(url)
+    )
+  };
+
+  let statusServer: StatusServer | null = null;
+  if (daemonConfig.server.enabled) {
+    statusServer = new StatusServer(daemonConfig.server, logger, {
+      scheduler,
+      getXhsStats: () => lastXhsStats
+    });
+
+    if (daemonConfig.server.apiToken) {
+      registerApiRoutes(statusServer, logger, sgpmActions.checkProductNow);
+    } else {
+      logger.info('ℹ️ 未配置 API_TOKEN，管理 API 未启用');
+    }
+
+    await statusServer.start();
+  }
+
+  const bot = createTelegramBot(sgpmActions);
+  bot?.start();
+
+  process.on('SIGTERM', () => shutdown(scheduler, statusServer, bot, 'SIGTERM'));
+  process.on('SIGINT', () => shutdown(scheduler, statusServer, bot, 'SIGINT'));
+
+  scheduler.start();
+}
+
+// 常驻进程中单个任务的异常不应导致进程退出
+process.on('unhandledRejection', (reason) => {
+  logger.error('❌ 未处理的Promise拒绝:', reason);
+});
+
+if (require.main === module) {
+  main().catch(error => {
+    logger.error('❌ 常驻进程启动失败:', error);
+    process.exit(1);
+  });
+}
+
+export { main as daemonMain };
@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+
+/**
+ * SGPM 事件历史查询命令行工具
+ *
+ * 用法：
+ *   history [--product URL|产品ID|关键词] [--from 2026-10-01] [--to 2026-10-19]
+ *           [--type stock_change,price_change,check_failed] [--format table|csv] [--limit 条数]
+ *
+ * 日期按新加坡时间解析，--to 包含当天。
+ */
+
+import { logger } from './utils/logger';
+import { parseArgs, splitList } from './utils/cliArgs';
+import { sgpmConfig } from './config-sgpm';
+import { SgpmEventLog, SgpmEventFilter } from './utils/eventLog';
+import { getStockStateLabel } from './utils/stockState';
+import { parseProductIdentity } from './utils/productIdentity';
+import { SgpmEvent, SgpmEventType } from './types';
+
+const EVENT_TYPES: SgpmEventType[] = ['stock_change', 'price_change', 'check_failed'];
+
+const EVENT_TYPE_LABELS: Record<SgpmEventType, string> = {
+  stock_change: '库存变化',
+  price_change: '价格变化',
+  check_failed: '检查失败'
+};
+
+const CSV_COLUMNS: Array<keyof SgpmEvent> = [
+  'at', 'type', 'productKey', 'productId', 'title', 'url', 'oldState', 'newState',
+  'oldPrice', 'newPrice', 'detectionSource', 'runId', 'error'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析日期参数：YYYY-MM-DD 按新加坡时间当天 0 点，其他格式交给 Date.parse
+ */
+function parseDate(value: string, option: string): number {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? Date.parse(`${value}T00:00:00+08:00`)
+    : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`--${option} 日期无效: ${value}`);
+  }
+  return time;
+}
+
+function buildFilter(options: Record<string, string | true>): SgpmEventFilter {
+  const filter: SgpmEventFilter = {};
+
+  if (typeof options.product === 'string') {
+    // URL 转换为规范化产品键，同一产品的不同URL都能匹配
+    filter.product = parseProductIdentity(options.product)?.key || options.product;
+  }
+
+  if (typeof options.from === 'string') {
+    filter.from = parseDate(options.from, 'from');
+  }
+
+  if (typeof options.to === 'string') {
+    const to = parseDate(options.to, 'to');
+    filter.to = /^\d{4}-\d{2}-\d{2}$/.test(options.to) ? to + DAY_MS : to;
+  }
+
+  const types = splitList(options.type);
+  if (types) {
+    const invalid = types.filter(type => !EVENT_TYPES.includes(type as SgpmEventType));
+    if (invalid.length > 0) {
+      throw new Error(`事件类型无效: ${invalid.join(', ')} (可选: ${EVENT_TYPES.join(', ')})`);
+    }
+    filter.types = types as SgpmEventType[];
+  }
+
+  return filter;
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore', hour12: false });
+}
+
+function describeChange(event: SgpmEvent): string {
+  switch (event.type) {
+    case 'stock_change':
+      return `${event.oldState ? getStockStateLabel(event.oldState) : '无记录'} → ${event.newState ? getStockStateLabel(event.newState) : '-'}`;
+    case 'price_change':
+      return `${event.oldPrice || '-'} → ${event.newPrice || '-'}`;
+    case 'check_failed':
+      return event.error || '-';
+  }
+}
+
+function printTable(events: SgpmEvent[]): void {
+  const header = ['时间', '类型', '产品', '变化', '检测', '运行'];
+  const rows = events.map(event => [
+    formatTime(event.at),
+    EVENT_TYPE_LABELS[event.type],
+    `${event.productId ? `#${event.productId} ` : ''}${event.title}`,
+    describeChange(event),
+    event.detectionSource || '-',
+    event.runId
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join(' | ');
+
+  console.log(formatRow(header));
+  console.log(widths.map(width => '-'.repeat(width)).join('-+-'));
+  rows.forEach(row => console.log(formatRow(row)));
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function printCsv(events: SgpmEvent[]): void {
+  console.log(['time', ...CSV_COLUMNS].join(','));
+  events.forEach(event => {
+    console.log([new Date(event.at).toISOString(), ...CSV_COLUMNS.map(column => event[column])].map(toCsvValue).join(','));
+  });
+}
+
+function main(): void {
+  const { options } = parseArgs(process.argv.slice(2));
+
+  if (options.help) {
+    console.log('用法: history [--product URL|产品ID|关键词] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--type stock_change,price_change,check_failed] [--format table|csv] [--limit 条数]');
+    return;
+  }
+
+  const format = typeof options.format === 'string' ? options.format : 'table';
+  if (format !== 'table' && format !== 'csv') {
+    throw new Error(`输出格式无效: ${format} (可选: table, csv)`);
+  }
+
+  const eventLog = new SgpmEventLog(sgpmConfig.eventLogFile, logger);
+  let events = eventLog.read(buildFilter(options));
+
+  if (typeof options.limit === 'string') {
+    const limit = parseInt(options.limit);
+    if (isNaN(limit) || limit < 1) {
+      throw new Error(`--limit 无效: ${options.limit}`);
+    }
+    events = events.slice(-limit);
+  }
+
+  if (format === 'csv') {
+    printCsv(events);
+    return;
+  }
+
+  if (events.length === 0) {
+    logger.info('📭 没有符合条件的事件');
+    return;
+  }
+
+  logger.info(`📜 共 ${events.length} 条事件`);
+  printTable(events);
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    logger.error('❌ 事件历史查询失败:', error);
+    process.exit(1);
+  }
+}
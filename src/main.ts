@@ -5,15 +5,16 @@
  *
  * 功能：
  * - 小红书关键词监控
- * - Telegram 通知推送
+ * - 通知推送（Telegram / Discord / Slack）
  *
  * 注意：SGPM监控已分离到独立的 sgpm-main.ts
  */
 
 import { logger } from './utils/logger';
-import { validateConfig, xhsConfig } from './config';
-import { validateEnvironmentVariables } from './utils/helpers';
+import { validateConfig } from './config';
 import { XhsMonitoringTask, TaskExecutor } from './core/MonitoringTask';
+import { getKeywordXhsConfig } from './services/XhsKeywordManager';
+import { getMqttPublisher } from './services/MqttPublisher';
 
 /**
  * 主函数
@@ -42,6 +43,7 @@ async function main(): Promise<void> {
     // 3. 执行监控任务
     const executor = new TaskExecutor(logger);
     await executor.executeAll(tasks);
+    await getMqttPublisher(logger).close();
 
     // 4. 输出执行结果
     const duration = Date.now() - startTime;
@@ -71,14 +73,7 @@ async function main(): Promise<void> {
 async function performEnvironmentChecks(): Promise<void> {
   logger.info('开始环境检查...');
 
-  // 验证环境变量
-  const requiredVars = ['BOT_TOKEN', 'CHAT_ID'];
-  const envValidation = validateEnvironmentVariables(requiredVars);
-  if (!envValidation.valid) {
-    throw new Error(`环境变量验证失败: ${envValidation.missing.join(', ')}`);
-  }
-
-  // 验证配置
+  // 验证配置（包括通知渠道所需的环境变量）
   const configValidation = validateConfig();
   if (!configValidation.valid) {
     throw new Error(`配置验证失败: ${configValidation.errors.join(', ')}`);
@@ -95,7 +90,7 @@ function createMonitoringTasks() {
 
   // 创建小红书监控任务
   if (shouldRunXhsTask()) {
-    tasks.push(new XhsMonitoringTask(logger, xhsConfig));
+    tasks.push(new XhsMonitoringTask(logger, getKeywordXhsConfig(logger)));
   }
 
   // 注意：PopMart监控任务已移至 sgpm-main.ts
@@ -0,0 +1,61 @@
+import { LoggerInstance } from '../utils/logger';
+import { htmlToPlainText, postWebhook, truncate } from './webhook';
+import { Notification, NotificationLevel, Notifier } from '../types';
+
+const LEVEL_COLORS: Record<NotificationLevel, number> = {
+  info: 0x3498db,
+  success: 0x2ecc71,
+  warning: 0xf1c40f,
+  alert: 0xe74c3c
+};
+
+// Discord embed 限制
+const MAX_TITLE = 256;
+const MAX_DESCRIPTION = 4096;
+const MAX_FIELDS = 25;
+const MAX_FIELD_NAME = 256;
+const MAX_FIELD_VALUE = 1024;
+
+/**
+ * Discord 通知渠道（Webhook）
+ *
+ * 通知渲染为一个 embed：标题链接到商品/帖子，字段按行内排列，颜色由通知级别决定。
+ */
+export class DiscordNotifier implements Notifier {
+  readonly channel = 'discord';
+  private webhookUrl: string;
+  private logger: LoggerInstance;
+
+  constructor(webhookUrl: string, logger: LoggerInstance) {
+    this.webhookUrl = webhookUrl;
+    this.logger = logger;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await postWebhook(this.webhookUrl, this.render(notification), this.channel, this.logger);
+  }
+
+  /**
+   * 生成 Webhook 请求体
+   */
+  render(notification: Notification): Record<string, unknown> {
+    const { title, summary, fields = [], url, level = 'info', timestamp = Date.now() } = notification;
+    const description = summary ?? (fields.length === 0 ? htmlToPlainText(notification.text) : undefined);
+
+    return {
+      username: 'Labubu Watcher',
+      embeds: [{
+        title: truncate(title, MAX_TITLE),
+        url,
+        description: description ? truncate(description, MAX_DESCRIPTION) : undefined,
+        color: LEVEL_COLORS[level],
+        fields: fields.slice(0, MAX_FIELDS).map(field => ({
+          name: truncate(field.name, MAX_FIELD_NAME),
+          value: truncate(field.value || '-', MAX_FIELD_VALUE),
+          inline: field.inline ?? true
+        })),
+        timestamp: new Date(timestamp).toISOString()
+      }]
+    };
+  }
+}
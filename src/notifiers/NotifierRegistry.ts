@@ -0,0 +1,111 @@
+import { LoggerInstance } from '../utils/logger';
+import { getTelegramConfig } from '../utils/sendTelegramMessage';
+import { TelegramNotifier } from './TelegramNotifier';
+import { DiscordNotifier } from './DiscordNotifier';
+import { SlackNotifier } from './SlackNotifier';
+import { notificationConfig } from '../config';
+import { Notification, NotificationChannelName, NotificationEventType, Notifier } from '../types';
+
+interface RegisteredNotifier {
+  notifier: Notifier;
+  events: NotificationEventType[]; // 为空时接收所有事件
+}
+
+/**
+ * 通知渠道注册表
+ *
+ * 按事件类型把通知路由到已注册的渠道，逐个渠道发送；
+ * 部分渠道失败时只记录错误，所有目标渠道都失败时抛出错误。
+ */
+export class NotifierRegistry {
+  private logger: LoggerInstance;
+  private notifiers = new Map<NotificationChannelName, RegisteredNotifier>();
+
+  constructor(logger: LoggerInstance) {
+    this.logger = logger;
+  }
+
+  /**
+   * 注册渠道
+   * @param events 渠道接收的事件类型，为空时接收所有事件
+   */
+  register(notifier: Notifier, events: NotificationEventType[] = []): void {
+    this.notifiers.set(notifier.channel, { notifier, events });
+  }
+
+  /**
+   * 获取接收该事件类型的渠道
+   */
+  getChannels(event: NotificationEventType): NotificationChannelName[] {
+    return [...this.notifiers.values()]
+      .filter(({ events }) => events.length === 0 || events.includes(event))
+      .map(({ notifier }) => notifier.channel);
+  }
+
+  /**
+   * 发送通知到所有接收该事件类型的渠道
+   * @returns 发送成功的渠道，没有渠道接收该事件时为空
+   * @throws 所有目标渠道都发送失败时抛出错误
+   */
+  async notify(notification: Notification): Promise<NotificationChannelName[]> {
+    const channels = this.getChannels(notification.event);
+    if (channels.length === 0) {
+      this.logger.warn(`⚠️ 没有接收 ${notification.event} 的通知渠道，跳过通知`);
+      return [];
+    }
+
+    const delivered: NotificationChannelName[] = [];
+    const failed: string[] = [];
+    for (const channel of channels) {
+      try {
+        await this.notifiers.get(channel)!.notifier.send(notification);
+        delivered.push(channel);
+      } catch (error) {
+        this.logger.error(`❌ ${channel} 通知发送失败:`, error);
+        failed.push(`${channel}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (delivered.length === 0) {
+      throw new Error(`通知发送失败 (${failed.join('; ')})`);
+    }
+    return delivered;
+  }
+}
+
+/**
+ * 全局通知注册表实例
+ */
+let globalNotifierRegistry: NotifierRegistry | null = null;
+
+/**
+ * 获取全局通知注册表（按 notificationConfig 注册已配置的渠道）
+ */
+export function getNotifierRegistry(logger: LoggerInstance): NotifierRegistry {
+  if (!globalNotifierRegistry) {
+    const registry = new NotifierRegistry(logger);
+    const { telegram, discord, slack } = notificationConfig;
+
+    if (telegram.enabled && isTelegramConfigured()) {
+      registry.register(new TelegramNotifier(logger), telegram.events);
+    }
+    if (discord.enabled && discord.webhookUrl) {
+      registry.register(new DiscordNotifier(discord.webhookUrl, logger), discord.events);
+    }
+    if (slack.enabled && slack.webhookUrl) {
+      registry.register(new SlackNotifier(slack.webhookUrl, logger), slack.events);
+    }
+
+    globalNotifierRegistry = registry;
+  }
+  return globalNotifierRegistry;
+}
+
+function isTelegramConfigured(): boolean {
+  try {
+    getTelegramConfig();
+    return true;
+  } catch {
+    return false;
+  }
+}
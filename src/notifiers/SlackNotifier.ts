@@ -0,0 +1,76 @@
+import { LoggerInstance } from '../utils/logger';
+import { htmlToPlainText, postWebhook, truncate } from './webhook';
+import { Notification, Notifier } from '../types';
+
+// Slack Block Kit 限制
+const MAX_HEADER = 150;
+const MAX_SECTION_TEXT = 3000;
+const MAX_FIELDS = 10;
+const MAX_FIELD_TEXT = 2000;
+
+/**
+ * Slack 通知渠道（Incoming Webhook）
+ *
+ * 通知渲染为 Block Kit：标题、摘要、字段、打开链接按钮和时间。
+ */
+export class SlackNotifier implements Notifier {
+  readonly channel = 'slack';
+  private webhookUrl: string;
+  private logger: LoggerInstance;
+
+  constructor(webhookUrl: string, logger: LoggerInstance) {
+    this.webhookUrl = webhookUrl;
+    this.logger = logger;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await postWebhook(this.webhookUrl, this.render(notification), this.channel, this.logger);
+  }
+
+  /**
+   * 生成 Webhook 请求体
+   */
+  render(notification: Notification): Record<string, unknown> {
+    const { title, summary, fields = [], url, urlLabel, timestamp = Date.now() } = notification;
+    const description = summary ?? (fields.length === 0 ? htmlToPlainText(notification.text) : undefined);
+    const blocks: Record<string, unknown>[] = [
+      { type: 'header', text: { type: 'plain_text', text: truncate(title, MAX_HEADER), emoji: true } }
+    ];
+
+    if (description) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(escapeMrkdwn(description), MAX_SECTION_TEXT) } });
+    }
+
+    if (fields.length > 0) {
+      blocks.push({
+        type: 'section',
+        fields: fields.slice(0, MAX_FIELDS).map(field => ({
+          type: 'mrkdwn',
+          text: truncate(`*${escapeMrkdwn(field.name)}*\n${escapeMrkdwn(field.value || '-')}`, MAX_FIELD_TEXT)
+        }))
+      });
+    }
+
+    if (url) {
+      blocks.push({
+        type: 'actions',
+        elements: [{ type: 'button', text: { type: 'plain_text', text: urlLabel || '打开链接' }, url }]
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `🕐 ${new Date(timestamp).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore', hour12: false })} (新加坡时间)` }]
+    });
+
+    // text 用于推送通知和不支持 blocks 的客户端
+    return { text: title, blocks };
+  }
+}
+
+/**
+ * Slack mrkdwn 只需要转义 & < >
+ */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
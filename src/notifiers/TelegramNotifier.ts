@@ -0,0 +1,41 @@
+import { LoggerInstance } from '../utils/logger';
+import { sendTelegramMessage } from '../utils/sendTelegramMessage';
+import { Notification, Notifier } from '../types';
+
+/**
+ * Telegram 通知渠道
+ *
+ * 直接发送通知的 HTML 正文，附带内联键盘；指定了多个聊天时逐个发送，任一聊天成功即视为成功。
+ */
+export class TelegramNotifier implements Notifier {
+  readonly channel = 'telegram';
+  private logger: LoggerInstance;
+
+  constructor(logger: LoggerInstance) {
+    this.logger = logger;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const { replyMarkup, chatIds, disableNotification } = notification.telegram || {};
+    const targets: Array<string | undefined> = chatIds && chatIds.length > 0 ? chatIds : [undefined];
+
+    let lastError: unknown;
+    let delivered = false;
+    for (const chatId of targets) {
+      try {
+        await sendTelegramMessage(notification.text, { chatId, replyMarkup, disableNotification });
+        delivered = true;
+      } catch (error) {
+        // 只有一个聊天时由注册表记录错误
+        if (targets.length > 1) {
+          this.logger.error(`❌ Telegram 通知发送失败 (chat ${chatId}):`, error);
+        }
+        lastError = error;
+      }
+    }
+
+    if (!delivered) {
+      throw lastError;
+    }
+  }
+}
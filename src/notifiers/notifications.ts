@@ -0,0 +1,72 @@
+import { SgpmStatusTracker, SgpmStockAlert } from '../services/SgpmStatusTracker';
+import { getStockStateLabel } from '../utils/stockState';
+import { Notification, NotificationField, NotificationLevel, StockState, TelegramNotificationOptions, XhsPostData } from '../types';
+
+const ALERT_LEVELS: Record<SgpmStockAlert['type'], NotificationLevel> = {
+  back_in_stock: 'success',
+  still_in_stock: 'info',
+  sold_out: 'warning',
+  price_drop: 'success',
+  sale_started: 'success'
+};
+
+/**
+ * SGPM 库存提醒的通知内容
+ * @param text Telegram 消息正文（各入口保留自己的格式）
+ */
+export function buildStockAlertNotification(
+  alert: SgpmStockAlert,
+  text: string,
+  options: {
+    event?: 'sgpm_stock' | 'sgpm_release';
+    stockState?: StockState;
+    availability?: string;
+    fields?: NotificationField[];
+    telegram?: TelegramNotificationOptions;
+  } = {}
+): Notification {
+  const state = getStockStateLabel(options.stockState ?? alert.stockState);
+  const variants = SgpmStatusTracker.formatAlertVariants(alert);
+  const fields: NotificationField[] = [
+    { name: '📦 商品', value: alert.title, inline: false },
+    { name: '💰 价格', value: SgpmStatusTracker.formatAlertPrice(alert) || '未知' },
+    { name: '📊 状态', value: options.availability ? `${state} (${options.availability})` : state }
+  ];
+  if (variants) {
+    fields.push({ name: '🎯 有货款式', value: variants, inline: false });
+  }
+
+  return {
+    event: options.event ?? 'sgpm_stock',
+    title: SgpmStatusTracker.getAlertHeadline(alert),
+    text,
+    fields: [...fields, ...(options.fields || [])],
+    url: alert.url,
+    urlLabel: '🛒 打开产品',
+    level: ALERT_LEVELS[alert.type],
+    timestamp: Date.now(),
+    telegram: options.telegram
+  };
+}
+
+/**
+ * 小红书新帖子的通知内容
+ * @param text Telegram 消息正文
+ */
+export function buildXhsPostNotification(post: XhsPostData, text: string, telegram?: TelegramNotificationOptions): Notification {
+  return {
+    event: 'xhs_post',
+    title: '🔥 小红书新帖子',
+    text,
+    fields: [
+      { name: '📝 标题', value: post.previewTitle || '无标题', inline: false },
+      { name: '👤 作者', value: post.author || '作者未知' },
+      { name: '⏰ 发布时间', value: [post.publishTime || '时间未知', post.location].filter(Boolean).join(' ') }
+    ],
+    url: post.url,
+    urlLabel: '📖 打开帖子',
+    level: 'info',
+    timestamp: Date.now(),
+    telegram
+  };
+}
@@ -0,0 +1,94 @@
+import fetch, { Response } from 'node-fetch';
+import { LoggerInstance } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import { NotificationChannelName } from '../types';
+
+/**
+ * POST JSON 到 Webhook，失败时指数退避重试
+ * 429 时按响应中的 Retry-After 等待（Discord 为 retry_after 秒数）
+ * @throws 达到最大重试次数后抛出最后一次的错误
+ */
+export async function postWebhook(
+  url: string,
+  body: unknown,
+  channel: NotificationChannelName,
+  logger: LoggerInstance,
+  retries: number = 3
+): Promise<void> {
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    let delay = Math.pow(2, attempt) * 1000;
+
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'LabubuWatcher/1.0'
+        },
+        body: JSON.stringify(body),
+        timeout: 10000
+      }) as Response;
+
+      if (res.ok) {
+        metrics.notifications.inc({ channel, result: 'success' });
+        return;
+      }
+
+      const errorText = await res.text();
+      if (res.status === 429) {
+        delay = getRetryAfter(res, errorText) ?? delay;
+      } else if (res.status >= 400 && res.status < 500) {
+        // 请求内容或 Webhook 地址有误，重试没有意义
+        attempt = retries;
+      }
+      throw new Error(`${channel} Webhook 推送失败: ${res.status} ${res.statusText} - ${errorText}`);
+    } catch (error) {
+      if (attempt >= retries) {
+        metrics.notifications.inc({ channel, result: 'failure' });
+        throw error;
+      }
+      logger.warn(`${channel} 通知发送失败，将重试 (第 ${attempt} 次)`, error instanceof Error ? error.message : error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw new Error(`${channel} Webhook 推送失败: 重试次数无效 (${retries})`);
+}
+
+/**
+ * 解析 429 响应的等待时间（毫秒）
+ */
+function getRetryAfter(res: Response, body: string): number | undefined {
+  const header = parseFloat(res.headers.get('retry-after') || '');
+  if (Number.isFinite(header)) {
+    return header * 1000;
+  }
+
+  try {
+    const retryAfter = (JSON.parse(body) as { retry_after?: number }).retry_after;
+    return typeof retryAfter === 'number' ? retryAfter * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Telegram HTML 消息转换为纯文本（去掉标签、还原实体）
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * 按渠道的长度限制截断文本
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength - 3) + '...' : text;
+}
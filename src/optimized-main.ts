@@ -14,13 +14,14 @@
 
 import { logger } from './utils/logger';
 import { validateConfig, xhsConfig } from './config';
-import { sgpmConfig } from './config-sgpm';
-import { validateEnvironmentVariables } from './utils/helpers';
+import { getWatchlistSgpmConfig } from './services/WatchlistManager';
 import { getEnhancedResourceManager } from './utils/EnhancedResourceManager';
 import { OptimizedBrowserManager } from './core/OptimizedBrowserManager';
-import { getHttpClient, TelegramHttpClient } from './utils/OptimizedHttpClient';
+import { getHttpClient } from './utils/OptimizedHttpClient';
+import { getNotifierRegistry } from './notifiers/NotifierRegistry';
 import { getDataProcessor } from './utils/OptimizedDataProcessor';
 import { globalCache, httpCache, productCache } from './utils/OptimizedCacheManager';
+import { Notification } from './types';
 
 /**
  * 优化的监控任务基类
@@ -78,25 +79,19 @@ abstract class OptimizedMonitoringTask {
   protected abstract runMonitoring(): Promise<void>;
 
   /**
-   * 发送Telegram通知
+   * 发送通知到已配置的渠道
    */
-  protected async sendTelegramNotification(message: string): Promise<boolean> {
+  protected async sendNotification(notification: Notification): Promise<boolean> {
     try {
-      const botToken = process.env.BOT_TOKEN;
-      const chatId = process.env.CHAT_ID;
-
-      if (!botToken || !chatId) {
-        this.logger.warn('Telegram配置缺失，跳过通知发送');
+      const delivered = await getNotifierRegistry(this.logger).notify(notification);
+      if (delivered.length === 0) {
         return false;
       }
 
-      const telegramClient = new TelegramHttpClient(this.logger, botToken);
-      const response = await telegramClient.sendMessage(chatId, message);
-      
-      this.logger.info('Telegram通知发送成功');
+      this.logger.info(`通知发送成功: ${delivered.join(', ')}`);
       return true;
     } catch (error) {
-      this.logger.error('Telegram通知发送失败:', error);
+      this.logger.error('通知发送失败:', error);
       return false;
     }
   }
@@ -193,7 +188,7 @@ class OptimizedPopMartTask extends OptimizedMonitoringTask {
     this.logger.info('🚀 完整的 SGPM 优化监控请使用: yarn sgpm:optimized');
 
     // 简化实现，避免在通用优化版本中包含复杂的浏览器操作
-    const products = sgpmConfig.productUrls;
+    const products = getWatchlistSgpmConfig(this.logger).productUrls;
     this.logger.info(`📦 检查 ${products.length} 个产品的库存状态（简化模式）`);
 
     // 使用模拟数据以避免超时问题
@@ -240,7 +235,14 @@ class OptimizedPopMartTask extends OptimizedMonitoringTask {
 
   private async notifyInStockProducts(products: any[]): Promise<void> {
     const message = `🛒 PopMart 库存提醒\n\n${products.map(p => `✅ ${p.title}`).join('\n')}`;
-    await this.sendTelegramNotification(message);
+    await this.sendNotification({
+      event: 'sgpm_stock',
+      title: '🛒 PopMart 库存提醒',
+      text: message,
+      fields: products.map(p => ({ name: '✅ 有货', value: p.title, inline: false })),
+      level: 'success',
+      timestamp: Date.now()
+    });
   }
 }
 
@@ -323,14 +325,7 @@ async function main(): Promise<void> {
 async function performEnvironmentChecks(): Promise<void> {
   logger.info('执行环境检查...');
 
-  // 验证环境变量
-  const requiredVars = ['BOT_TOKEN', 'CHAT_ID'];
-  const envValidation = validateEnvironmentVariables(requiredVars);
-  if (!envValidation.valid) {
-    throw new Error(`环境变量验证失败: ${envValidation.missing.join(', ')}`);
-  }
-
-  // 验证配置
+  // 验证配置（包括通知渠道所需的环境变量）
   const configValidation = validateConfig();
   if (!configValidation.valid) {
     throw new Error(`配置验证失败: ${configValidation.errors.join(', ')}`);
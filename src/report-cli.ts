@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+/**
+ * SGPM 补货分析报告命令行工具
+ *
+ * 用法：
+ *   report [--days 7] [--format text|json] [--send]
+ *
+ * --send 将文本摘要作为周报发送到已配置的通知渠道（Telegram / Discord / Slack）。
+ */
+
+import dotenv from 'dotenv';
+import { logger } from './utils/logger';
+import { parseArgs } from './utils/cliArgs';
+import { sgpmConfig } from './config-sgpm';
+import { SgpmEventLog } from './utils/eventLog';
+import { getNotifierRegistry } from './notifiers/NotifierRegistry';
+import { buildRestockReport, formatRestockReport, KnownProduct } from './utils/restockReport';
+import { getProductKey } from './utils/productIdentity';
+import { SgpmStatusTracker } from './services/SgpmStatusTracker';
+import { getWatchlistManager } from './services/WatchlistManager';
+
+// 加载环境变量
+dotenv.config();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 已知产品：状态文件中的产品 + 监控列表
+ */
+function getKnownProducts(): KnownProduct[] {
+  const products = new Map<string, KnownProduct>();
+
+  // 报告只读取状态文件，不触发迁移写回
+  Object.entries(SgpmStatusTracker.readStatus(sgpmConfig.statusFile, logger)).forEach(([productKey, status]) => {
+    products.set(productKey, { productKey, title: status.title });
+  });
+
+  getWatchlistManager(logger).list().filter(entry => entry.enabled).forEach(entry => {
+    const productKey = getProductKey(entry.url);
+    if (!products.has(productKey)) {
+      products.set(productKey, { productKey, title: entry.label || entry.url });
+    }
+  });
+
+  return [...products.values()];
+}
+
+async function main(): Promise<void> {
+  const { options } = parseArgs(process.argv.slice(2));
+
+  const days = typeof options.days === 'string' ? parseInt(options.days) : 7;
+  if (isNaN(days) || days < 1) {
+    throw new Error(`--days 无效: ${options.days}`);
+  }
+
+  const format = typeof options.format === 'string' ? options.format : 'text';
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`输出格式无效: ${format} (可选: text, json)`);
+  }
+
+  const to = Date.now();
+  const from = to - days * DAY_MS;
+
+  // 读取区间之前的事件，用于计算跨区间的有货时长
+  const events = new SgpmEventLog(sgpmConfig.eventLogFile, logger).read({ to });
+  const report = buildRestockReport(events, getKnownProducts(), from, to);
+
+  if (format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatRestockReport(report));
+  }
+
+  if (options.send) {
+    const delivered = await getNotifierRegistry(logger).notify({
+      event: 'report',
+      title: `📊 补货分析报告（最近 ${days} 天）`,
+      text: formatRestockReport(report),
+      level: 'info',
+      timestamp: to
+    });
+    if (delivered.length > 0) {
+      logger.success(`✅ 补货报告已发送: ${delivered.join(', ')}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    logger.error('❌ 补货报告生成失败:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,150 @@
+import { Page, HTTPResponse } from 'puppeteer';
+import { LoggerInstance } from '../utils/logger';
+import { PopMartProductPageData, ProductCheckResult } from '../types';
+import { stockStateFromBoolean } from '../utils/stockState';
+import { parsePopMartProductPayload, formatPopMartPrice } from '../utils/popMartPageData';
+
+/**
+ * PopMart 接口响应拦截器
+ *
+ * 产品页加载时，PopMart 前端会调用自己的产品/库存接口。
+ * 拦截这些 JSON 响应作为库存的第一手数据，页面按钮文字检测只在未拦截到接口数据时使用。
+ */
+export class PopMartApiInterceptor {
+  private page: Page | null = null;
+  private logger: LoggerInstance;
+  private productData: PopMartProductPageData | null = null;
+  private targetUrl: string | undefined;
+  private readonly listener = (response: HTTPResponse) => {
+    this.handleResponse(response).catch(error => {
+      this.logger.debug('处理接口响应失败', error);
+    });
+  };
+
+  // 产品/库存相关接口路径特征
+  private static readonly API_PATH_PATTERN = /product|sku|stock|goods|spu|box/i;
+
+  constructor(logger: LoggerInstance) {
+    this.logger = logger;
+  }
+
+  /**
+   * 挂载到页面，必须在导航前调用
+   * @param page - Puppeteer 页面
+   * @param targetUrl - 即将访问的产品URL，用于过滤推荐商品等无关接口数据
+   */
+  attach(page: Page, targetUrl?: string): void {
+    this.detach();
+    this.page = page;
+    this.productData = null;
+    this.targetUrl = targetUrl;
+    page.on('response', this.listener);
+  }
+
+  /**
+   * 从页面卸载
+   */
+  detach(): void {
+    if (this.page) {
+      this.page.off('response', this.listener);
+      this.page = null;
+    }
+  }
+
+  /**
+   * 获取已拦截到的产品数据
+   */
+  getProductData(): PopMartProductPageData | null {
+    return this.productData;
+  }
+
+  /**
+   * 等待接口数据，超时返回 null
+   */
+  async waitForProductData(timeoutMs: number = 3000): Promise<PopMartProductPageData | null> {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.productData && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    return this.productData;
+  }
+
+  /**
+   * 将拦截到的接口数据转换为产品检查结果
+   */
+  toCheckResult(url: string): ProductCheckResult | null {
+    const data = this.productData;
+    if (!data) {
+      return null;
+    }
+
+    return {
+      url,
+      title: data.title,
+      inStock: data.inStock,
+      stockState: stockStateFromBoolean(data.inStock),
+      price: data.price !== undefined ? formatPopMartPrice(data.price, data.currency) : undefined,
+      availability: data.inStock ? 'In Stock' : 'Out of Stock',
+      checkTime: Date.now(),
+      fromCache: false,
+      detectionSource: 'api',
+      skus: data.skus
+    };
+  }
+
+  /**
+   * 处理单个响应
+   */
+  private async handleResponse(response: HTTPResponse): Promise<void> {
+    if (this.productData || !this.isCandidate(response)) {
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = await response.json();
+    } catch {
+      return; // 非JSON或响应体已被释放
+    }
+
+    // PopMart 接口统一包装为 { code, message, data }
+    if (payload && typeof payload === 'object' && 'code' in payload) {
+      const code = String(payload.code).toUpperCase();
+      if (!['OK', '0', '200', 'SUCCESS'].includes(code)) {
+        this.logger.debug(`忽略失败的接口响应: ${response.url()} (code: ${payload.code})`);
+        return;
+      }
+    }
+
+    // 指定目标URL时只接受ID一致的产品数据，推荐商品等接口被忽略
+    const data = parsePopMartProductPayload(payload?.data ?? payload, { defaultCurrency: 'SGD', source: 'api', targetUrl: this.targetUrl });
+    if (!data) {
+      return;
+    }
+
+    this.productData = data;
+    this.logger.info(`📡 拦截到产品接口数据: #${data.productId} ${data.title} - ${data.inStock ? '有货' : '缺货'} (${data.skus.length} 个SKU)`);
+  }
+
+  /**
+   * 判断响应是否可能是产品/库存接口
+   */
+  private isCandidate(response: HTTPResponse): boolean {
+    if (response.status() !== 200) {
+      return false;
+    }
+
+    const resourceType = response.request().resourceType();
+    if (resourceType !== 'xhr' && resourceType !== 'fetch') {
+      return false;
+    }
+
+    const contentType = response.headers()['content-type'] || '';
+    if (!contentType.includes('json')) {
+      return false;
+    }
+
+    const url = response.url();
+    return url.includes('popmart.com') && PopMartApiInterceptor.API_PATH_PATTERN.test(new URL(url).pathname);
+  }
+}
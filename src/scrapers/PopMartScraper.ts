@@ -1,10 +1,13 @@
 import { Page } from 'puppeteer';
 import { PageScraper } from '../core/PageScraper';
 import { LoggerInstance } from '../utils/logger';
+import { StockState } from '../types';
+import { detectSpecialStockState, extractVisibleText, getStockStateLabel } from '../utils/stockState';
 
 export interface ProductInfo {
   title: string;
   inStock: boolean;
+  stockState: StockState;
 }
 
 /**
@@ -97,7 +100,7 @@ export class PopMartScraper extends PageScraper {
       const productPart = urlParts[urlParts.length - 1] || 'Unknown Product';
       const title = productPart.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
       
-      return { title, inStock: false };
+      return { title, inStock: false, stockState: StockState.UNKNOWN };
     }
   }
 
@@ -149,7 +152,7 @@ export class PopMartScraper extends PageScraper {
     }
 
     // 检查库存状态
-    let inStock = false;
+    let stockState: StockState;
 
     // 检查缺货指示器（包括新的IN-APP PURCHASE ONLY）
     const outOfStockIndicators = [
@@ -204,33 +207,32 @@ export class PopMartScraper extends PageScraper {
     // 检查价格信息（有价格通常表示有货）
     const hasPricePattern = /\$\d+|\$\s*\d+|s\$\d+|s\$\s*\d+/i.test(html);
 
-    // 特别检查IN-APP PURCHASE ONLY状态
-    const hasInAppPurchaseOnly = html.toLowerCase().includes('in-app purchase only') ||
-                                html.toLowerCase().includes('app purchase only');
+    // 特别检查IN-APP PURCHASE ONLY、地区限制、预售状态（只看可见文本，且在购买按钮之后）
+    const specialState = detectSpecialStockState(extractVisibleText(html));
 
     // 判断库存状态
-    if (hasInAppPurchaseOnly) {
-      inStock = false;
-      this.logger.info('检测到"IN-APP PURCHASE ONLY"，判断为缺货（应用内购买专用）');
-    } else if (hasShakeButton) {
-      inStock = true;
+    if (hasShakeButton) {
+      stockState = StockState.IN_STOCK;
       this.logger.info('检测到盲盒抽取按钮，判断为有货');
+    } else if (specialState) {
+      stockState = specialState;
+      this.logger.info(`检测到特殊库存状态: ${getStockStateLabel(specialState)}`);
     } else if (hasInStockIndicator && !hasOutOfStockIndicator) {
-      inStock = true;
+      stockState = StockState.IN_STOCK;
       this.logger.info('检测到有货指示器，判断为有货');
     } else if (hasPricePattern && !hasOutOfStockIndicator) {
-      inStock = true;
+      stockState = StockState.IN_STOCK;
       this.logger.info('检测到价格信息且无缺货指示器，判断为有货');
     } else if (hasOutOfStockIndicator) {
-      inStock = false;
+      stockState = StockState.OUT_OF_STOCK;
       this.logger.info('检测到缺货指示器，判断为缺货');
     } else {
-      inStock = false;
-      this.logger.info('未检测到明确的库存信息，默认为缺货');
+      stockState = StockState.UNKNOWN;
+      this.logger.info('未检测到明确的库存信息，库存状态未知');
     }
 
-    this.logger.info(`最终库存状态: ${inStock ? '有货' : '缺货'}`);
-    return { title, inStock };
+    this.logger.info(`最终库存状态: ${getStockStateLabel(stockState)}`);
+    return { title, inStock: stockState === StockState.IN_STOCK, stockState };
   }
 
   /**
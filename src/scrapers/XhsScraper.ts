@@ -1,7 +1,7 @@
 import { Page } from 'puppeteer';
 import { PageScraper } from '../core/PageScraper';
 import { LoggerInstance } from '../utils/logger';
-import { XhsPostData } from '../types';
+import { XhsPostData, XhsSecurityIncident } from '../types';
 
 /**
  * 小红书专用抓取器
@@ -16,11 +16,27 @@ export class XhsScraper extends PageScraper {
     '.search-item',
     '.note-list .item'
   ];
+  private securityIncidents: XhsSecurityIncident[] = [];
 
   constructor(page: Page, logger: LoggerInstance) {
     super(page, logger);
   }
 
+  /**
+   * 本次抓取中检测到的安全验证（同一页面只记录一次）
+   */
+  getSecurityIncidents(): XhsSecurityIncident[] {
+    return [...this.securityIncidents];
+  }
+
+  private recordSecurityIncident(reason: string, pageTitle: string, pageUrl: string): void {
+    const last = this.securityIncidents[this.securityIncidents.length - 1];
+    if (last && last.pageUrl === pageUrl && last.pageTitle === pageTitle) {
+      return;
+    }
+    this.securityIncidents.push({ at: Date.now(), reason, pageTitle, pageUrl });
+  }
+
   /**
    * 检查是否需要安全验证
    */
@@ -64,6 +80,7 @@ export class XhsScraper extends PageScraper {
     const isSuspiciousPage = suspiciousConditions.some(condition => condition);
 
     if (isSecurityPage || isSuspiciousPage) {
+      this.recordSecurityIncident(isSecurityPage ? '安全验证关键词' : '可疑页面条件', pageTitle, currentUrl);
       this.logger.warn('🔐 检测到安全验证或异常页面！');
       this.logger.warn(`页面标题: "${pageTitle}"`);
       this.logger.warn(`页面URL: ${currentUrl}`);
@@ -744,6 +761,7 @@ export class XhsScraper extends PageScraper {
           );
 
           if (hasSecurityContent) {
+            this.recordSecurityIncident('页面内容包含安全验证信息', pageTitle, currentUrl);
             this.logger.warn('页面内容包含安全验证相关信息');
             this.logger.info('🔐 SECURITY_VERIFICATION_DETECTED 🔐');
           }
@@ -0,0 +1,174 @@
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { SgpmEventLog } from '../utils/eventLog';
+import { isRestockEvent, getLocalTime } from '../utils/restockReport';
+import { getProductKey } from '../utils/productIdentity';
+import { StockState, SgpmConfig, SgpmEvent, SgpmSchedulerConfig, SgpmStatusRecord, SchedulerState, ProductSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 单个产品的历史活跃度
+ */
+interface ProductActivity {
+  firstSeenAt?: number; // 事件日志中最早的记录
+  restocks: number[]; // 补货时间
+}
+
+/**
+ * 自适应检查调度器
+ *
+ * 为每个产品单独计算检查间隔和下次检查时间：
+ * 有货中或近期补货的产品、处于历史补货时段的产品检查更频繁，长期没有补货的产品检查更少。
+ * 每次运行只返回到期的产品，并受 maxChecksPerRun 的全局预算限制，超出预算的产品顺延到下次运行。
+ */
+export class AdaptiveScheduler {
+  private config: SgpmSchedulerConfig;
+  private logger: LoggerInstance;
+  private eventLog: SgpmEventLog;
+  private stateManager: StatusManager<SchedulerState>;
+
+  constructor(config: SgpmConfig, logger: LoggerInstance) {
+    this.config = config.scheduler;
+    this.logger = logger;
+    this.eventLog = new SgpmEventLog(config.eventLogFile, logger);
+    this.stateManager = new StatusManager<SchedulerState>(config.scheduler.stateFile, logger, {});
+  }
+
+  /**
+   * 选出本次运行需要检查的产品
+   * @param urls - 监控中的产品URL
+   * @param statuses - 当前产品状态（用于判断是否有货中）
+   */
+  selectProducts(urls: string[], statuses: SgpmStatusRecord, now: number = Date.now()): string[] {
+    const state = this.stateManager.get();
+    const activity = this.collectActivity(this.eventLog.read());
+
+    const due = urls
+      .map(url => {
+        const key = getProductKey(url);
+        const schedule = this.computeSchedule(statuses[key], activity.get(key), state[key], now);
+        state[key] = schedule;
+        return { url, schedule };
+      })
+      .filter(({ schedule }) => schedule.nextCheckAt <= now)
+      // 逾期越久（相对自身间隔）越优先
+      .sort((a, b) =>
+        (now - b.schedule.nextCheckAt) / b.schedule.intervalMinutes - (now - a.schedule.nextCheckAt) / a.schedule.intervalMinutes
+      );
+
+    this.stateManager.set(state);
+
+    const selected = due.slice(0, this.config.maxChecksPerRun);
+    const deferred = due.length - selected.length;
+    this.logger.info(`🗓️ 自适应调度: ${urls.length} 个产品, ${due.length} 个到期, 本次检查 ${selected.length} 个${deferred > 0 ? `, ${deferred} 个顺延` : ''}`);
+    selected.forEach(({ url, schedule }) => {
+      this.logger.debug(`   ${url} — 每 ${schedule.intervalMinutes} 分钟 (${schedule.reason})`);
+    });
+
+    return selected.map(({ url }) => url);
+  }
+
+  /**
+   * 记录本次已检查的产品，计算下次检查时间
+   * @param failedUrls - 检查失败的产品，按最小间隔尽快重试
+   */
+  markChecked(urls: string[], failedUrls: string[] = [], now: number = Date.now()): void {
+    const state = this.stateManager.get();
+    for (const url of urls) {
+      const key = getProductKey(url);
+      const schedule = state[key];
+      if (!schedule) {
+        continue;
+      }
+      const interval = failedUrls.includes(url) ? this.config.minIntervalMinutes : schedule.intervalMinutes;
+      state[key] = { ...schedule, lastCheckedAt: now, nextCheckAt: now + interval * MINUTE_MS };
+    }
+    this.stateManager.set(state);
+  }
+
+  /**
+   * 立即保存调度状态
+   */
+  save(): void {
+    this.stateManager.save();
+  }
+
+  /**
+   * 计算产品的检查间隔，保留已有的上次检查时间
+   */
+  private computeSchedule(
+    status: SgpmStatusRecord[string] | undefined,
+    activity: ProductActivity | undefined,
+    previous: ProductSchedule | undefined,
+    now: number
+  ): ProductSchedule {
+    const trackedSince = Math.min(previous?.trackedSince ?? now, activity?.firstSeenAt ?? now);
+    const { intervalMinutes, reason } = this.computeInterval(status, activity, trackedSince, now);
+    const lastCheckedAt = previous?.lastCheckedAt;
+    return {
+      intervalMinutes,
+      reason,
+      lastCheckedAt,
+      trackedSince,
+      // 间隔变短时立即生效，从未检查过的产品立即到期
+      nextCheckAt: lastCheckedAt !== undefined ? lastCheckedAt + intervalMinutes * MINUTE_MS : now
+    };
+  }
+
+  private computeInterval(
+    status: SgpmStatusRecord[string] | undefined,
+    activity: ProductActivity | undefined,
+    trackedSince: number,
+    now: number
+  ): { intervalMinutes: number; reason: string } {
+    const { minIntervalMinutes, baseIntervalMinutes, maxIntervalMinutes, hotWindowDays, deadAfterDays } = this.config;
+    const restocks = activity?.restocks || [];
+    const lastRestockAt = restocks.length > 0 ? restocks[restocks.length - 1] : undefined;
+
+    if (status?.stockState === StockState.IN_STOCK) {
+      return { intervalMinutes: minIntervalMinutes, reason: '有货中，关注售罄' };
+    }
+
+    if (lastRestockAt !== undefined && now - lastRestockAt < hotWindowDays * DAY_MS) {
+      return { intervalMinutes: minIntervalMinutes, reason: `${hotWindowDays}天内补货过` };
+    }
+
+    // 当前小时（前后各1小时）历史上补货过
+    const currentHour = getLocalTime(now).hour;
+    const activeHour = restocks.some(at => {
+      const diff = Math.abs(getLocalTime(at).hour - currentHour);
+      return Math.min(diff, 24 - diff) <= 1;
+    });
+    if (activeHour) {
+      return { intervalMinutes: Math.max(minIntervalMinutes, Math.round(baseIntervalMinutes / 2)), reason: '历史补货时段' };
+    }
+
+    // 没有补货记录时从开始跟踪算起
+    const quietSince = lastRestockAt ?? trackedSince;
+    if (now - quietSince >= deadAfterDays * DAY_MS) {
+      return { intervalMinutes: maxIntervalMinutes, reason: `${deadAfterDays}天以上没有补货` };
+    }
+
+    return { intervalMinutes: baseIntervalMinutes, reason: '默认间隔' };
+  }
+
+  /**
+   * 按产品汇总事件日志中的补货记录
+   */
+  private collectActivity(events: SgpmEvent[]): Map<string, ProductActivity> {
+    const activity = new Map<string, ProductActivity>();
+    for (const event of events) {
+      const item = activity.get(event.productKey) || { restocks: [] };
+      if (item.firstSeenAt === undefined || event.at < item.firstSeenAt) {
+        item.firstSeenAt = event.at;
+      }
+      if (isRestockEvent(event)) {
+        item.restocks.push(event.at);
+      }
+      activity.set(event.productKey, item);
+    }
+    return activity;
+  }
+}
@@ -0,0 +1,130 @@
+import { LoggerInstance } from '../utils/logger';
+import { SgpmEventLog } from '../utils/eventLog';
+import { getProductKey } from '../utils/productIdentity';
+import { isRestockEvent } from '../utils/restockReport';
+import { resolveStockState } from '../utils/stockState';
+import { XhsActivityLog } from '../utils/xhsActivity';
+import { getWatchlistManager, getEntryMute } from './WatchlistManager';
+import { getSgpmStatusTracker } from './SgpmStatusTracker';
+import { PriceHistoryEntry, ProductMute, SgpmConfig, SgpmEvent, StockState, WatchlistPriority, XhsActivity, XhsConfig } from '../types';
+
+/**
+ * 看板中的产品行
+ */
+export interface DashboardProduct {
+  key: string;
+  url: string;
+  title: string;
+  priority?: WatchlistPriority;
+  enabled: boolean;
+  stockState?: StockState; // 尚未检查过时为空
+  price?: string;
+  lastChecked?: number;
+  inStockSince?: number;
+  lastRestockAt?: number;
+  releaseAt?: number;
+  mute?: ProductMute;
+}
+
+/**
+ * 看板总览
+ */
+export interface DashboardOverview {
+  generatedAt: number;
+  products: DashboardProduct[];
+  xhs: XhsActivity;
+}
+
+/**
+ * 单个产品的状态/价格时间线
+ */
+export interface ProductTimeline {
+  key: string;
+  title: string;
+  url?: string;
+  events: SgpmEvent[];
+  priceHistory: PriceHistoryEntry[];
+}
+
+/**
+ * 看板数据
+ *
+ * 监控列表和 SGPM 状态读取进程内共享的实例（与任务、API 的修改保持一致）；
+ * 事件日志和小红书活动记录由各次任务运行写入文件，每次请求只读读取。
+ */
+export class DashboardService {
+  private config: SgpmConfig;
+  private xhsConfig: XhsConfig;
+  private logger: LoggerInstance;
+
+  constructor(config: SgpmConfig, xhsConfig: XhsConfig, logger: LoggerInstance) {
+    this.config = config;
+    this.xhsConfig = xhsConfig;
+    this.logger = logger;
+  }
+
+  /**
+   * 产品列表与小红书最近动态
+   */
+  getOverview(now: number = Date.now()): DashboardOverview {
+    const statuses = getSgpmStatusTracker(this.config, this.logger).getStatus();
+    const events = new SgpmEventLog(this.config.eventLogFile, this.logger).read({ types: ['stock_change'] });
+
+    const lastRestockAt: Record<string, number> = {};
+    for (const event of events) {
+      if (isRestockEvent(event)) {
+        lastRestockAt[event.productKey] = event.at;
+      }
+    }
+
+    // 监控列表为空时展示默认产品
+    const entries = getWatchlistManager(this.logger).list();
+    const watched = entries.length > 0
+      ? entries
+      : this.config.productUrls.map(url => ({ url, label: undefined, priority: undefined, enabled: true, releaseAt: undefined, mutedUntil: undefined, muteUntilRestock: undefined }));
+
+    const products = watched.map(entry => {
+      const key = getProductKey(entry.url);
+      const status = statuses[key];
+      return {
+        key,
+        url: entry.url,
+        title: status?.title || entry.label || key,
+        priority: entry.priority,
+        enabled: entry.enabled,
+        stockState: status ? resolveStockState(status) : undefined,
+        price: status?.price,
+        lastChecked: status?.lastChecked,
+        inStockSince: status?.inStockSince,
+        lastRestockAt: lastRestockAt[key],
+        releaseAt: entry.releaseAt,
+        mute: getEntryMute(entry, now)
+      };
+    });
+
+    const xhs = XhsActivityLog.read(this.xhsConfig.activityFile, this.logger);
+
+    return { generatedAt: now, products, xhs };
+  }
+
+  /**
+   * 单个产品的事件时间线（按时间升序）
+   */
+  getTimeline(key: string): ProductTimeline | null {
+    const status = getSgpmStatusTracker(this.config, this.logger).getStatus()[key];
+    const events = new SgpmEventLog(this.config.eventLogFile, this.logger).read()
+      .filter(event => event.productKey === key);
+
+    if (!status && events.length === 0) {
+      return null;
+    }
+
+    return {
+      key,
+      title: status?.title || events[events.length - 1].title,
+      url: status?.url || events[events.length - 1]?.url,
+      events,
+      priceHistory: status?.priceHistory || []
+    };
+  }
+}
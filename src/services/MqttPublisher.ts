@@ -0,0 +1,235 @@
+import mqtt, { MqttClient } from 'mqtt';
+import { LoggerInstance } from '../utils/logger';
+import { parseProductIdentity } from '../utils/productIdentity';
+import { mqttConfig } from '../config';
+import { MqttConfig, StockState, XhsPostData } from '../types';
+import type { SgpmStockAlert } from './SgpmStatusTracker';
+
+// 关闭连接时等待未确认消息的最长时间
+const CLOSE_TIMEOUT = 5000;
+
+/**
+ * 发布到 MQTT 的产品状态
+ */
+export interface MqttProductState {
+  url: string;
+  title: string;
+  stockState: StockState;
+  price?: string;
+}
+
+/**
+ * MQTT 发布器（Home Assistant 集成）
+ *
+ * 主题（前缀默认 labubu）：
+ * - <前缀>/status                       在线状态 online/offline（保留，异常断开由遗嘱消息置为 offline）
+ * - <前缀>/sgpm/<产品ID>/state          库存状态，如 IN_STOCK（保留）
+ * - <前缀>/sgpm/<产品ID>/price          价格文本（保留）
+ * - <前缀>/sgpm/<产品ID>/last_checked   最近检查时间 ISO 8601（保留）
+ * - <前缀>/sgpm/<产品ID>/attributes     名称、链接、价格等 JSON，作为 Home Assistant 实体属性（保留）
+ * - <前缀>/sgpm/<产品ID>/event          库存变化等提醒事件 JSON（不保留）
+ * - <前缀>/xhs/post                     匹配关键词的小红书帖子 JSON（不保留）
+ *
+ * 每个产品首次发布状态时发送 Home Assistant 自动发现配置，产品显示为有货时为 ON 的 binary_sensor。
+ * 首次发布时才连接 Broker，连接断开时消息由客户端排队、重连后发送，发布失败只记录日志不影响监控。
+ */
+export class MqttPublisher {
+  private config: MqttConfig;
+  private logger: LoggerInstance;
+  private client: MqttClient | null = null;
+  private discovered = new Set<string>();
+
+  constructor(config: MqttConfig, logger: LoggerInstance) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * 发布产品的最新状态（每次检查后调用）
+   */
+  publishProductState(product: MqttProductState, now: number = Date.now()): void {
+    const productId = this.getProductId(product.url);
+    if (!this.config.enabled || !productId) {
+      return;
+    }
+
+    if (this.config.discovery && !this.discovered.has(productId)) {
+      this.publishDiscovery(productId, product.title);
+      this.discovered.add(productId);
+    }
+
+    const lastChecked = new Date(now).toISOString();
+    const base = this.productTopic(productId);
+    this.publish(`${base}/state`, product.stockState, true);
+    if (product.price) {
+      // 空的保留消息会清除已保留的价格，未知价格时保留上次的价格
+      this.publish(`${base}/price`, product.price, true);
+    }
+    this.publish(`${base}/last_checked`, lastChecked, true);
+    this.publish(`${base}/attributes`, JSON.stringify({
+      title: product.title,
+      url: product.url,
+      price: product.price || null,
+      stock_state: product.stockState,
+      last_checked: lastChecked
+    }), true);
+  }
+
+  /**
+   * 发布提醒事件（补货、售罄、降价等）
+   */
+  publishProductEvent(alert: SgpmStockAlert, now: number = Date.now()): void {
+    const productId = this.getProductId(alert.url);
+    if (!this.config.enabled || !productId) {
+      return;
+    }
+
+    this.publish(`${this.productTopic(productId)}/event`, JSON.stringify({
+      type: alert.type,
+      title: alert.title,
+      url: alert.url,
+      stock_state: alert.stockState,
+      previous_state: alert.previousState || null,
+      price: alert.price || null,
+      at: new Date(now).toISOString()
+    }), false);
+  }
+
+  /**
+   * 发布匹配关键词的小红书帖子
+   */
+  publishXhsPost(post: XhsPostData, now: number = Date.now()): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    this.publish(`${this.config.topicPrefix}/xhs/post`, JSON.stringify({
+      title: post.previewTitle,
+      author: post.author || null,
+      publish_time: post.publishTime || null,
+      location: post.location || null,
+      url: post.url,
+      at: new Date(now).toISOString()
+    }), false);
+  }
+
+  /**
+   * 标记离线并断开连接，等待已发布的消息发送完成（最多 CLOSE_TIMEOUT）
+   */
+  async close(): Promise<void> {
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+    this.client = null;
+
+    // 连接不上时 endAsync 可能永远不会完成，计时器不能 unref，否则进程会在关闭流程完成前退出
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => { timer = setTimeout(resolve, CLOSE_TIMEOUT); });
+    try {
+      if (!client.connected) {
+        // 一次性入口发布后立即关闭，先等待连接建立，让排队的消息发送出去
+        await Promise.race([new Promise<void>(resolve => client.once('connect', () => resolve())), timeout]);
+      }
+      if (client.connected) {
+        await client.publishAsync(this.availabilityTopic, 'offline', { qos: 1, retain: true });
+      }
+      await Promise.race([client.endAsync(), timeout]);
+    } catch (error) {
+      this.logger.warn('⚠️ MQTT 断开连接失败:', error instanceof Error ? error.message : error);
+    } finally {
+      clearTimeout(timer);
+      // 超时后强制断开
+      await client.endAsync(true).catch(() => undefined);
+    }
+  }
+
+  private get availabilityTopic(): string {
+    return `${this.config.topicPrefix}/status`;
+  }
+
+  private productTopic(productId: string): string {
+    return `${this.config.topicPrefix}/sgpm/${productId}`;
+  }
+
+  /**
+   * 主题中的产品ID：普通产品为数字ID，POP NOW 套装为 set-<ID>，无法解析的URL不发布
+   */
+  private getProductId(url: string): string | null {
+    const identity = parseProductIdentity(url);
+    if (!identity) {
+      return null;
+    }
+    return identity.kind === 'product' ? identity.id : `set-${identity.id}`;
+  }
+
+  /**
+   * Home Assistant MQTT 自动发现配置（保留消息）
+   */
+  private publishDiscovery(productId: string, title: string): void {
+    const uniqueId = `labubu_sgpm_${productId.replace(/-/g, '_')}`;
+    const base = this.productTopic(productId);
+
+    this.publish(`${this.config.discoveryPrefix}/binary_sensor/${uniqueId}/config`, JSON.stringify({
+      name: title,
+      unique_id: uniqueId,
+      state_topic: `${base}/state`,
+      value_template: `{{ 'ON' if value == '${StockState.IN_STOCK}' else 'OFF' }}`,
+      json_attributes_topic: `${base}/attributes`,
+      availability_topic: this.availabilityTopic,
+      icon: 'mdi:cart',
+      device: {
+        identifiers: ['labubu_watcher'],
+        name: 'Labubu Watcher',
+        manufacturer: 'Labubu Watcher',
+        model: 'PopMart SG'
+      }
+    }), true);
+  }
+
+  private publish(topic: string, payload: string, retain: boolean): void {
+    this.getClient().publish(topic, payload, { qos: 1, retain }, error => {
+      if (error) {
+        this.logger.warn(`⚠️ MQTT 发布失败 (${topic}):`, error.message);
+      }
+    });
+  }
+
+  private getClient(): MqttClient {
+    if (!this.client) {
+      const client = mqtt.connect(this.config.url, {
+        clientId: this.config.clientId,
+        username: this.config.username,
+        password: this.config.password,
+        reconnectPeriod: 10000,
+        connectTimeout: 10000,
+        will: { topic: this.availabilityTopic, payload: Buffer.from('offline'), qos: 1, retain: true }
+      });
+
+      client.on('connect', () => {
+        this.logger.success(`📡 MQTT 已连接: ${this.config.url}`);
+        client.publish(this.availabilityTopic, 'online', { qos: 1, retain: true });
+      });
+      client.on('offline', () => this.logger.warn('⚠️ MQTT 连接断开，消息将在重连后发送'));
+      client.on('error', error => this.logger.warn('⚠️ MQTT 错误:', error.message));
+
+      this.client = client;
+    }
+    return this.client;
+  }
+}
+
+/**
+ * 全局 MQTT 发布器实例
+ */
+let globalMqttPublisher: MqttPublisher | null = null;
+
+/**
+ * 获取全局 MQTT 发布器（未配置 MQTT_URL 时所有发布操作为空操作）
+ */
+export function getMqttPublisher(logger: LoggerInstance): MqttPublisher {
+  if (!globalMqttPublisher) {
+    globalMqttPublisher = new MqttPublisher(mqttConfig, logger);
+  }
+  return globalMqttPublisher;
+}
@@ -1,42 +1,21 @@
 import { LoggerInstance } from '../utils/logger';
-import { SgpmConfig } from '../types';
-import { getSgpmEnvConfig } from '../config-sgpm';
-import { StatusManager } from '../utils/statusManager';
-import { sendTelegramMessage } from '../utils/sendTelegramMessage';
+import { SgpmConfig, StockDetectionSource, StockState, PopMartSkuInfo, ProductCheckResult, WatchlistEntry } from '../types';
+import { SgpmStatusTracker, SgpmStockAlert, getSgpmStatusTracker } from './SgpmStatusTracker';
+import { SgpmIdProber, IdProbeResult } from './SgpmIdProber';
+import { AdaptiveScheduler } from './AdaptiveScheduler';
+import { SgpmBurstMonitor, BurstResult, isInBurst } from './SgpmBurstMonitor';
+import { SgpmAlertDispatcher } from './SgpmAlertDispatcher';
+import { metrics } from '../utils/metrics';
+import { buildProductAlertKeyboard } from '../utils/alertActions';
+import { getMqttPublisher } from './MqttPublisher';
+import { buildStockAlertNotification } from '../notifiers/notifications';
 import { productCache, globalCache } from '../utils/OptimizedCacheManager';
 import { OptimizedBrowserManager } from '../core/OptimizedBrowserManager';
+import { parsePopMartPageData, formatPopMartPrice } from '../utils/popMartPageData';
+import { PopMartApiInterceptor } from '../scrapers/PopMartApiInterceptor';
+import { detectSpecialStockState, extractVisibleText, stockStateFromBoolean, getStockStateLabel } from '../utils/stockState';
 import { Page } from 'puppeteer';
 
-/**
- * SGPM产品状态接口
- */
-interface SgpmProductStatus {
-  title: string;
-  inStock: boolean;
-  lastChecked: number;
-  price?: string;
-  availability?: string;
-}
-
-/**
- * SGPM产品状态记录
- */
-type SgpmStatusRecord = Record<string, SgpmProductStatus>;
-
-/**
- * 产品检查结果
- */
-interface ProductCheckResult {
-  url: string;
-  title: string;
-  inStock: boolean;
-  price?: string;
-  availability?: string;
-  checkTime: number;
-  fromCache: boolean;
-  error?: boolean; // 标记是否为错误状态
-}
-
 /**
  * 批量检查配置
  */
@@ -61,8 +40,9 @@ interface BatchCheckConfig {
 export class OptimizedSgpmService {
   private config: SgpmConfig;
   private logger: LoggerInstance;
-  private statusManager: StatusManager<SgpmStatusRecord>;
-  private envConfig: ReturnType<typeof getSgpmEnvConfig>;
+  private statusTracker: SgpmStatusTracker;
+  private alertDispatcher: SgpmAlertDispatcher;
+  private scheduler: AdaptiveScheduler | null;
   private currentUrl: string = '';
   private browserManager: OptimizedBrowserManager;
   private static cookieHandled: boolean = false; // 全局 cookie 处理状态
@@ -89,21 +69,20 @@ export class OptimizedSgpmService {
   constructor(config: SgpmConfig, logger: LoggerInstance) {
     this.config = config;
     this.logger = logger;
-    this.envConfig = getSgpmEnvConfig();
 
     // 初始化浏览器管理器
     this.browserManager = new OptimizedBrowserManager(logger);
 
-    // 初始化状态管理器
-    this.statusManager = new StatusManager<SgpmStatusRecord>(
-      this.config.statusFile,
-      this.logger,
-      {} // 初始空状态
-    );
+    // 状态跟踪器在进程内按状态文件共享（常驻进程中多个任务同时读写）
+    this.statusTracker = getSgpmStatusTracker(this.config, this.logger, this.config.variantSubscriptions);
+    this.alertDispatcher = new SgpmAlertDispatcher(this.statusTracker, this.config.mutedProducts, this.logger);
+
+    // 初始化自适应调度器（关闭时每次检查所有产品）
+    this.scheduler = this.config.scheduler.enabled ? new AdaptiveScheduler(this.config, this.logger) : null;
 
     // 立即保存一次以确保文件存在
     try {
-      this.statusManager.save();
+      this.statusTracker.save();
     } catch (error) {
       this.logger.error(`❌ SGPM状态文件初始化失败: ${this.config.statusFile}`, error);
     }
@@ -118,16 +97,37 @@ export class OptimizedSgpmService {
     this.logger.info(`🚀 开始高性能检查 ${this.config.productUrls.length} 个SGPM产品`);
     
     try {
-      // 1. 预热缓存
-      await this.warmupCache();
+      // 1. 选出本次需要检查的产品（正在密集检查的产品由密集检查负责）
+      const productUrls = this.config.productUrls.filter(url => !isInBurst(url));
+      if (productUrls.length < this.config.productUrls.length) {
+        this.logger.info(`⚡ 跳过 ${this.config.productUrls.length - productUrls.length} 个正在密集检查的产品`);
+      }
+      const urls = this.scheduler
+        ? this.scheduler.selectProducts(productUrls, this.statusTracker.getStatus())
+        : productUrls;
+
+      if (urls.length === 0) {
+        this.logger.info('😴 没有到期需要检查的产品');
+        this.scheduler?.save();
+        return;
+      }
+
+      // 2. 预热缓存
+      await this.warmupCache(urls);
       
-      // 2. 批量并发检查
-      const results = await this.batchCheckProducts();
+      // 3. 批量并发检查
+      const results = await this.batchCheckProducts(urls);
       
-      // 3. 处理结果
+      // 4. 处理结果
       await this.processResults(results);
+
+      // 5. 更新下次检查时间
+      if (this.scheduler) {
+        this.scheduler.markChecked(urls, results.filter(result => result.error).map(result => result.url));
+        this.scheduler.save();
+      }
       
-      // 4. 输出性能统计
+      // 6. 输出性能统计
       this.outputPerformanceStats();
       
     } catch (error) {
@@ -142,10 +142,10 @@ export class OptimizedSgpmService {
   /**
    * 预热缓存
    */
-  private async warmupCache(): Promise<void> {
+  private async warmupCache(urls: string[]): Promise<void> {
     this.logger.info('🔥 预热产品缓存...');
     
-    const warmupItems = this.config.productUrls.map(url => ({
+    const warmupItems = urls.map(url => ({
       key: `product_info_${url}`,
       fn: async () => {
         // 预加载基础产品信息
@@ -161,9 +161,8 @@ export class OptimizedSgpmService {
   /**
    * 批量并发检查产品
    */
-  private async batchCheckProducts(): Promise<ProductCheckResult[]> {
+  private async batchCheckProducts(urls: string[]): Promise<ProductCheckResult[]> {
     const results: ProductCheckResult[] = [];
-    const urls = [...this.config.productUrls];
     
     this.logger.info(`📦 开始批量检查，批次大小: ${this.batchConfig.batchSize}, 并发数: ${this.batchConfig.concurrency}`);
     
@@ -189,8 +188,10 @@ export class OptimizedSgpmService {
             url: batch[index],
             title: this.extractProductInfoFromUrl(batch[index]).title,
             inStock: false,
+            stockState: StockState.UNKNOWN,
             checkTime: Date.now(),
-            fromCache: false
+            fromCache: false,
+            error: true
           });
         }
       });
@@ -219,43 +220,61 @@ export class OptimizedSgpmService {
     if (cached) {
       this.stats.cacheHits++;
       this.logger.debug(`📋 缓存命中: ${url}`);
+      const stockState: StockState = cached.stockState || stockStateFromBoolean(cached.inStock);
       return {
         url,
         title: cached.title,
-        inStock: cached.inStock,
+        inStock: stockState === StockState.IN_STOCK,
+        stockState,
+        price: cached.price,
+        availability: cached.availability,
         checkTime: Date.now(),
-        fromCache: true
+        fromCache: true,
+        detectionSource: cached.detectionSource,
+        skus: cached.skus
       };
     }
 
     // 2. 使用真实浏览器检查产品状态
     this.stats.networkRequests++;
     this.logger.debug(`🌐 浏览器检查: ${url}`);
+    const startTime = Date.now();
 
     try {
       // 使用真实浏览器获取页面内容
       const result = await this.checkProductWithBrowser(url);
+      metrics.sgpmCheckDuration.observe({ result: result.success ? 'success' : 'failed' }, (Date.now() - startTime) / 1000);
 
       this.logger.info(`✅ 浏览器检查成功: ${url}`);
 
       // 处理浏览器检查结果
       if (result.success) {
-        this.logger.info(`🔍 产品检测结果: ${result.title} - ${result.inStock ? '✅ 有货' : '❌ 缺货'}`);
-
-        // 3. 缓存结果
-        productCache.set(cacheKey, {
-          title: result.title,
-          inStock: result.inStock
-        }, 5 * 60 * 1000); // 5分钟产品缓存
+        this.logger.info(`🔍 产品检测结果: ${result.title} - ${getStockStateLabel(result.stockState)} (来源: ${result.source || 'unknown'})`);
+
+        // 3. 缓存结果（未知状态不缓存，下次重新检测），价格和款式一起缓存，命中时不会清空状态记录中的价格
+        if (result.stockState !== StockState.UNKNOWN) {
+          productCache.set(cacheKey, {
+            title: result.title,
+            inStock: result.inStock,
+            stockState: result.stockState,
+            price: result.price,
+            availability: result.availability,
+            detectionSource: result.source,
+            skus: result.skus
+          }, 5 * 60 * 1000); // 5分钟产品缓存
+        }
 
         return {
           url,
           title: result.title,
           inStock: result.inStock,
+          stockState: result.stockState,
           price: result.price,
           availability: result.availability,
           checkTime: Date.now(),
-          fromCache: false
+          fromCache: false,
+          detectionSource: result.source,
+          skus: result.skus
         };
       } else {
         // 浏览器检查失败，使用fallback
@@ -265,6 +284,7 @@ export class OptimizedSgpmService {
           url,
           title: fallbackInfo.title,
           inStock: false,
+          stockState: StockState.UNKNOWN,
           checkTime: Date.now(),
           fromCache: false,
           error: true
@@ -278,13 +298,15 @@ export class OptimizedSgpmService {
 
       this.logger.error(`❌ 网络请求失败: ${url} (${errorType}: ${errorMsg}, 状态: ${statusCode})`);
       this.stats.errors++;
+      metrics.sgpmCheckDuration.observe({ result: 'error' }, (Date.now() - startTime) / 1000);
 
       // 返回备用信息，但标记为错误状态
       const fallbackInfo = this.extractProductInfoFromUrl(url);
       return {
         url,
         title: fallbackInfo.title,
-        inStock: false, // 网络失败时无法确定库存状态
+        inStock: false,
+        stockState: StockState.UNKNOWN, // 网络失败时无法确定库存状态
         checkTime: Date.now(),
         fromCache: false,
         error: true // 标记为错误状态
@@ -293,13 +315,45 @@ export class OptimizedSgpmService {
   }
 
   /**
-   * 从HTML提取产品信息（增强版）
+   * 从HTML提取产品信息
+   * 优先读取页面内嵌的 Next.js 产品数据，正则匹配仅作为最后的兜底方案
    */
-  private extractProductInfoFromHTML(html: string, url: string): { 
-    title: string; 
-    inStock: boolean; 
-    price?: string; 
-    availability?: string; 
+  private extractProductInfoFromHTML(html: string, url: string): {
+    title: string;
+    inStock: boolean;
+    stockState: StockState;
+    price?: string;
+    availability?: string;
+    source: StockDetectionSource;
+    skus?: PopMartSkuInfo[];
+  } {
+    const pageData = parsePopMartPageData(html, { defaultCurrency: 'SGD', targetUrl: url });
+    if (pageData) {
+      this.logger.info(`🧩 解析到页面产品数据: #${pageData.productId} ${pageData.title} (${pageData.skus.length} 个SKU)`);
+      return {
+        title: pageData.title || this.extractProductInfoFromUrl(url).title,
+        inStock: pageData.inStock,
+        stockState: stockStateFromBoolean(pageData.inStock),
+        price: pageData.price !== undefined ? formatPopMartPrice(pageData.price, pageData.currency) : undefined,
+        availability: pageData.inStock ? 'In Stock' : 'Out of Stock',
+        source: pageData.source,
+        skus: pageData.skus
+      };
+    }
+
+    this.logger.warn('⚠️ 未找到页面产品数据，回退到正则解析');
+    return { ...this.extractProductInfoWithRegex(html, url), source: 'regex' };
+  }
+
+  /**
+   * 从HTML正则提取产品信息（兜底方案）
+   */
+  private extractProductInfoWithRegex(html: string, url: string): {
+    title: string;
+    inStock: boolean;
+    stockState: StockState;
+    price?: string;
+    availability?: string;
   } {
     // 提取产品标题
     let title = 'Unknown Product';
@@ -401,12 +455,15 @@ export class OptimizedSgpmService {
     }
 
     // 检查库存状态（增强版）
-    const inStock = this.checkStockFromHTML(html);
-    
+    const stockState = this.checkStockFromHTML(html);
+    const inStock = stockState === StockState.IN_STOCK;
+
     // 提取可用性信息
     let availability: string | undefined;
     if (inStock) {
       availability = 'In Stock';
+    } else if (stockState === StockState.UNKNOWN) {
+      availability = 'Unknown';
     } else {
       const availabilityPatterns = [
         /out of stock/i,
@@ -424,7 +481,7 @@ export class OptimizedSgpmService {
       availability = availability || 'Out of Stock';
     }
 
-    return { title, inStock, price, availability };
+    return { title, inStock, stockState, price, availability };
   }
 
   /**
@@ -448,7 +505,7 @@ export class OptimizedSgpmService {
   /**
    * 从HTML检查库存状态（基于按钮文本的精确检测）
    */
-  private checkStockFromHTML(html: string): boolean {
+  private checkStockFromHTML(html: string): StockState {
     const htmlLower = html.toLowerCase();
 
     this.logger.info(`📄 HTML内容长度: ${html.length} 字符`);
@@ -468,8 +525,7 @@ export class OptimizedSgpmService {
     // 基于按钮文本的精确库存检测
     // 缺货按钮文本（优先检测）
     const outOfStockButtonTexts = [
-      'notify me when available',
-      'in-app purchase only'
+      'notify me when available'
     ];
 
     // 有货按钮文本
@@ -484,7 +540,7 @@ export class OptimizedSgpmService {
     for (const buttonText of outOfStockButtonTexts) {
       if (htmlLower.includes(buttonText)) {
         this.logger.info(`🔍 检测到缺货按钮: "${buttonText}"`);
-        return false;
+        return StockState.OUT_OF_STOCK;
       }
     }
 
@@ -492,10 +548,17 @@ export class OptimizedSgpmService {
     for (const buttonText of inStockButtonTexts) {
       if (htmlLower.includes(buttonText)) {
         this.logger.info(`🔍 检测到有货按钮: "${buttonText}"`);
-        return true;
+        return StockState.IN_STOCK;
       }
     }
 
+    // 没有购买按钮时再识别App专享、地区限制、预售等特殊状态（只看可见文本）
+    const specialState = detectSpecialStockState(extractVisibleText(html));
+    if (specialState) {
+      this.logger.info(`🔍 检测到特殊库存状态: ${getStockStateLabel(specialState)}`);
+      return specialState;
+    }
+
     // 如果没有检测到明确的按钮文本，尝试更宽泛的检测
     this.logger.info('🔍 未检测到明确的按钮文本，尝试更宽泛的检测');
 
@@ -521,7 +584,7 @@ export class OptimizedSgpmService {
     for (const indicator of broadOutOfStockIndicators) {
       if (htmlLower.includes(indicator)) {
         this.logger.info(`🔍 检测到缺货指示器: "${indicator}"`);
-        return false;
+        return StockState.OUT_OF_STOCK;
       }
     }
 
@@ -529,7 +592,7 @@ export class OptimizedSgpmService {
     for (const indicator of broadInStockIndicators) {
       if (htmlLower.includes(indicator)) {
         this.logger.info(`🔍 检测到有货指示器: "${indicator}"`);
-        return true;
+        return StockState.IN_STOCK;
       }
     }
 
@@ -551,21 +614,44 @@ export class OptimizedSgpmService {
     // 如果有价格信息，可能是有货（作为最后的判断依据）
     if (hasPrice) {
       this.logger.info('⚠️ 检测结果: 可能有货 (仅基于价格信息)');
-      return true;
+      return StockState.IN_STOCK;
     }
 
-    // 默认保守策略：如果没有明确的指示器，判断为缺货
-    this.logger.info('❌ 检测结果: 缺货 (未检测到明确的库存指示器)');
-    return false;
+    // 没有明确的指示器时无法判断，标记为未知而不是缺货
+    this.logger.info('❓ 检测结果: 未知 (未检测到明确的库存指示器)');
+    return StockState.UNKNOWN;
   }
 
   /**
    * 智能库存推断（当遇到反爬虫页面时）- 改进版
    */
-  private intelligentStockInference(html: string): boolean {
+  private intelligentStockInference(html: string): StockState {
     const htmlLower = html.toLowerCase();
 
-    // 首先检查明确的缺货指示器
+    // 首先检查强有力的有货指示器（购买按钮）
+    const strongInStockIndicators = [
+      'add to cart',
+      'buy now',
+      'pick one to shake',
+      'shake to pick'
+    ];
+
+    const hasStrongInStockIndicator = strongInStockIndicators.some(indicator =>
+      htmlLower.includes(indicator)
+    );
+
+    if (hasStrongInStockIndicator) {
+      this.logger.info('💡 智能推断: 检测到强有力的有货指示器，判断为有货');
+      return StockState.IN_STOCK;
+    }
+
+    const specialState = detectSpecialStockState(extractVisibleText(html));
+    if (specialState) {
+      this.logger.info(`💡 智能推断: 检测到特殊库存状态 ${getStockStateLabel(specialState)}`);
+      return specialState;
+    }
+
+    // 再检查明确的缺货指示器
     const outOfStockIndicators = [
       'out of stock',
       'sold out',
@@ -587,24 +673,7 @@ export class OptimizedSgpmService {
 
     if (hasOutOfStockIndicator) {
       this.logger.info('💡 智能推断: 检测到缺货指示器，判断为缺货');
-      return false;
-    }
-
-    // 检查强有力的有货指示器（需要更严格的条件）
-    const strongInStockIndicators = [
-      'add to cart',
-      'buy now',
-      'pick one to shake',
-      'shake to pick'
-    ];
-
-    const hasStrongInStockIndicator = strongInStockIndicators.some(indicator =>
-      htmlLower.includes(indicator)
-    );
-
-    if (hasStrongInStockIndicator) {
-      this.logger.info('💡 智能推断: 检测到强有力的有货指示器，判断为有货');
-      return true;
+      return StockState.OUT_OF_STOCK;
     }
 
     // 检查弱有货指示器（需要多个条件同时满足）
@@ -628,7 +697,7 @@ export class OptimizedSgpmService {
     // 只有同时有弱有货指示器和价格信息才判断为有货
     if (hasWeakInStockIndicator && hasPrice) {
       this.logger.info('💡 智能推断: 检测到弱有货指示器+价格信息，判断为有货');
-      return true;
+      return StockState.IN_STOCK;
     }
 
     // 基于URL模式的智能推断（更保守）
@@ -636,12 +705,12 @@ export class OptimizedSgpmService {
     if (urlBasedInference === true) {
       // 只有明确判断为有货的URL模式才相信
       this.logger.info('💡 智能推断: 基于URL模式判断为有货');
-      return true;
+      return StockState.IN_STOCK;
     }
 
-    // 默认保守策略：假设缺货
-    this.logger.info('💡 智能推断: 无法确定库存状态，保守判断为缺货');
-    return false;
+    // 无法确定时标记为未知，不覆盖上次的已知状态
+    this.logger.info('💡 智能推断: 无法确定库存状态，标记为未知');
+    return StockState.UNKNOWN;
   }
 
   /**
@@ -671,99 +740,90 @@ export class OptimizedSgpmService {
 
   /**
    * 处理检查结果
+   * 只在库存变化时提醒（补货 / 再次售罄），持续有货时按配置间隔提醒
    */
   private async processResults(results: ProductCheckResult[]): Promise<void> {
     this.logger.info(`📊 处理 ${results.length} 个产品检查结果`);
-    
-    const currentStatus = this.statusManager.get();
+
     let notificationsSent = 0;
-    let statusChanges = 0;
+    let alertsTriggered = 0;
 
     for (const result of results) {
-      const { url, title, inStock, price, availability, error } = result;
+      const { url, title, stockState, price, availability, error, detectionSource, skus } = result;
 
       // 跳过真正的错误结果，但允许智能推断的结果
       if (error) {
         this.logger.warn(`❌ 跳过错误结果: ${title} (网络请求失败或反爬虫页面)`);
+        this.statusTracker.recordFailure(url, title, '网络请求失败或反爬虫页面');
         continue;
       }
 
       // 显示产品状态
-      this.logger.info(`📦 ${title}: ${inStock ? '✅ 有货' : '❌ 缺货'}${price ? ` (${price})` : ''}`);
+      this.logger.info(`📦 ${title}: ${getStockStateLabel(stockState)}${price ? ` (${price})` : ''}${detectionSource ? ` [${detectionSource}]` : ''}`);
 
-      const previousStatus = currentStatus[url];
-      const statusChanged = !previousStatus || previousStatus.inStock !== inStock;
-      
-      // 更新状态
-      currentStatus[url] = {
-        title,
-        inStock,
-        lastChecked: Date.now(),
-        price,
-        availability
-      };
-      
-      if (statusChanged) {
-        statusChanges++;
-        // 显示所有状态变化用于调试
-        this.logger.info(`🔄 状态变化: ${previousStatus?.inStock ? '有货' : '缺货'} → ${inStock ? '有货' : '缺货'}`);
+      const alert = this.statusTracker.record({ url, title, stockState, price, availability, variants: skus, detectionSource });
+      const mqtt = getMqttPublisher(this.logger);
+      mqtt.publishProductState({ url, title, stockState, price });
+      if (!alert) {
+        continue;
       }
-      
-      // 只在有货时发送通知
-      if (inStock) {
-        try {
-          await this.sendOptimizedNotification(result);
-          notificationsSent++;
-          this.stats.notifications++;
-          this.logger.success('✅ 有货通知发送成功');
-        } catch (error) {
-          this.logger.error('❌ 通知发送失败:', error);
-          this.stats.errors++;
+      mqtt.publishProductEvent(alert);
+
+      alertsTriggered++;
+      try {
+        // 静音或没有任何渠道收到提醒时不开始冷却
+        if (!await this.sendOptimizedNotification(alert, result)) {
+          continue;
         }
+        notificationsSent++;
+        this.stats.notifications++;
+        this.logger.success(`✅ 库存提醒发送成功 (${alert.type})`);
+      } catch (error) {
+        this.logger.error('❌ 通知发送失败:', error);
+        this.stats.errors++;
       }
     }
 
     // 保存状态
-    this.statusManager.set(currentStatus);
-    this.statusManager.save();
-    
-    this.logger.info(`📝 状态更新完成: ${statusChanges} 个变化, ${notificationsSent} 个通知`);
+    this.statusTracker.save();
+
+    this.logger.info(`📝 状态更新完成: ${alertsTriggered} 个提醒, ${notificationsSent} 个通知`);
   }
 
   /**
    * 优化的通知发送
+   * @returns 是否至少有一个渠道收到提醒
    */
-  private async sendOptimizedNotification(result: ProductCheckResult): Promise<void> {
-    if (!this.envConfig.botToken || !this.envConfig.chatId) {
-      this.logger.warn('⚠️ Telegram配置缺失，跳过通知发送');
-      return;
-    }
-
-    const message = this.formatOptimizedMessage(result);
-
-    // 直接使用 sendTelegramMessage，它现在支持 SGPM 环境变量
-    await sendTelegramMessage(message);
+  private async sendOptimizedNotification(alert: SgpmStockAlert, result: ProductCheckResult): Promise<boolean> {
+    const notification = buildStockAlertNotification(alert, this.formatOptimizedMessage(alert, result), {
+      stockState: result.stockState,
+      availability: result.availability,
+      telegram: { replyMarkup: buildProductAlertKeyboard(result.url) }
+    });
+    return this.alertDispatcher.dispatch(alert, notification);
   }
 
   /**
    * 格式化优化通知消息
    */
-  private formatOptimizedMessage(result: ProductCheckResult): string {
+  private formatOptimizedMessage(alert: SgpmStockAlert, result: ProductCheckResult): string {
     const timestamp = new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Singapore' });
-    
+    const footer = alert.type === 'sold_out' ? '⌛ 下次补货时会再次提醒' : '⚡ 快去抢购吧！';
+    const variantLines = SgpmStatusTracker.formatAlertVariants(alert);
+
     return `🛒 SGPM库存提醒 (高性能版)
 
-✅ 商品有货！
+${SgpmStatusTracker.getAlertHeadline(alert)}
 
 📦 商品名称: ${result.title}
-💰 价格: ${result.price || '未知'}
-📊 状态: ${result.availability || 'Available'}
-🔗 购买链接: ${result.url}
+💰 价格: ${SgpmStatusTracker.formatAlertPrice(alert) || '未知'}
+📊 状态: ${getStockStateLabel(result.stockState)}${result.availability ? ` (${result.availability})` : ''}
+${variantLines ? `🎯 有货款式:\n${variantLines}\n` : ''}🔗 购买链接: ${result.url}
 🕐 检测时间: ${timestamp} (新加坡时间)
 ⚡ 数据来源: ${result.fromCache ? '缓存' : '实时检测'}
 🤖 来源: SGPM高性能监控
 
-⚡ 快去抢购吧！`;
+${footer}`;
   }
 
   /**
@@ -790,6 +850,37 @@ export class OptimizedSgpmService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * 立即检查单个产品（跳过产品缓存），结果与定时检查一样记录状态并按需发送提醒
+   */
+  async checkProductNow(url: string): Promise<ProductCheckResult> {
+    productCache.delete(`sgpm_product_${url}`);
+    const result = await this.checkSingleProductOptimized(url);
+    await this.processResults([result]);
+
+    if (this.scheduler) {
+      this.scheduler.markChecked([url], result.error ? [url] : []);
+      this.scheduler.save();
+    }
+    return result;
+  }
+
+  /**
+   * 产品ID探测模式：探测已知最大ID之上尚未上架的产品
+   */
+  async probeProductIds(): Promise<IdProbeResult> {
+    const prober = new SgpmIdProber(this.config, this.logger, this.browserManager);
+    return prober.probe();
+  }
+
+  /**
+   * 发售时段密集检查模式：对即将发售的产品每隔几秒刷新一次
+   */
+  async runBurstMode(entries: WatchlistEntry[]): Promise<BurstResult> {
+    const burstMonitor = new SgpmBurstMonitor(this.config, this.logger, this.browserManager, this.statusTracker);
+    return burstMonitor.run(entries);
+  }
+
   /**
    * 获取性能统计
    */
@@ -817,12 +908,16 @@ export class OptimizedSgpmService {
     success: boolean;
     title: string;
     inStock: boolean;
+    stockState: StockState;
     price?: string;
     availability?: string;
+    source?: StockDetectionSource;
+    skus?: PopMartSkuInfo[];
     error?: string;
   }> {
     let page: Page | null = null;
     let browserId: string | null = null;
+    const apiInterceptor = new PopMartApiInterceptor(this.logger);
 
     try {
       this.logger.info(`🌐 启动浏览器检查: ${url}`);
@@ -887,6 +982,9 @@ export class OptimizedSgpmService {
           }
         }
 
+        // 导航前挂载接口拦截器
+        apiInterceptor.attach(page, url);
+
         await page.goto(url, {
           waitUntil: 'domcontentloaded',
           timeout: 30000
@@ -908,6 +1006,7 @@ export class OptimizedSgpmService {
             await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36');
 
             // 重新尝试导航
+            apiInterceptor.attach(page, url);
             await page.goto(url, {
               waitUntil: 'domcontentloaded',
               timeout: 30000
@@ -921,7 +1020,8 @@ export class OptimizedSgpmService {
               success: true,
               title: this.extractTitleFromUrl(url),
               inStock: false,
-              availability: 'Page connection failed after retry - assumed out of stock',
+              stockState: StockState.UNKNOWN,
+              availability: 'Page connection failed after retry',
               error: `${gotoError.message} | Retry: ${retryError}`
             };
           }
@@ -940,6 +1040,23 @@ export class OptimizedSgpmService {
         this.logger.info('✅ Cookie 同意处理完成，后续页面将跳过此步骤');
       }
 
+      // 优先使用拦截到的 PopMart 接口数据
+      await apiInterceptor.waitForProductData(3000);
+      const apiResult = apiInterceptor.toCheckResult(url);
+      if (apiResult) {
+        this.logger.info('✅ 使用 PopMart 接口数据判断库存');
+        return {
+          success: true,
+          title: apiResult.title,
+          inStock: apiResult.inStock,
+          stockState: apiResult.stockState,
+          price: apiResult.price,
+          availability: apiResult.availability,
+          source: 'api',
+          skus: apiResult.skus
+        };
+      }
+
       // 获取页面内容
       const html = await page.content();
       const title = await page.title();
@@ -952,7 +1069,7 @@ export class OptimizedSgpmService {
       const directResult = this.extractProductInfoFromBrowserHTML(html, title, url);
 
       // 如果直接解析成功且有明确的库存信息，就使用直接解析结果
-      if (this.hasDefinitiveStockInfo(html)) {
+      if (this.hasDefinitiveStockInfo(html, url)) {
         this.logger.info('✅ 检测到明确的库存信息，使用直接解析结果');
         return directResult;
       }
@@ -978,16 +1095,19 @@ export class OptimizedSgpmService {
         // 再次尝试直接解析
         const retryResult = this.extractProductInfoFromBrowserHTML(newHtml, newTitle, url);
 
-        if (this.hasDefinitiveStockInfo(newHtml)) {
+        if (this.hasDefinitiveStockInfo(newHtml, url)) {
           this.logger.info('✅ 重试后检测到明确的库存信息，使用直接解析结果');
           return retryResult;
         } else if (this.isAntiCrawlerPage(newHtml)) {
           this.logger.warn('🚫 仍然是反爬虫页面，使用智能推断');
+          const inferredState = this.intelligentStockInference(newHtml);
           return {
             success: true,
             title: this.extractTitleFromUrl(url),
-            inStock: this.intelligentStockInference(newHtml),
-            availability: 'Detected via intelligent inference'
+            inStock: inferredState === StockState.IN_STOCK,
+            stockState: inferredState,
+            availability: 'Detected via intelligent inference',
+            source: 'inference'
           };
         } else {
           // 成功绕过反爬虫
@@ -1002,14 +1122,15 @@ export class OptimizedSgpmService {
     } catch (error: any) {
       this.logger.error(`❌ 浏览器检查失败: ${url}`, error);
 
-      // 特殊处理 TargetCloseError - 保守策略，默认为缺货
+      // 特殊处理 TargetCloseError - 连接中断时无法判断库存
       if (error.name === 'TargetCloseError' || error.message?.includes('Target closed')) {
-        this.logger.warn('🔄 检测到浏览器连接中断，采用保守策略判断为缺货');
+        this.logger.warn('🔄 检测到浏览器连接中断，库存状态标记为未知');
         return {
           success: true,
           title: this.extractTitleFromUrl(url),
-          inStock: false, // 保守策略：连接失败时默认为缺货
-          availability: 'Browser connection failed - assumed out of stock',
+          inStock: false,
+          stockState: StockState.UNKNOWN,
+          availability: 'Browser connection failed',
           error: 'Browser connection interrupted'
         };
       }
@@ -1018,9 +1139,12 @@ export class OptimizedSgpmService {
         success: false,
         title: this.extractTitleFromUrl(url),
         inStock: false,
+        stockState: StockState.UNKNOWN,
         error: error.message || 'Browser check failed'
       };
     } finally {
+      apiInterceptor.detach();
+
       // 安全清理资源
       if (page) {
         try {
@@ -1125,7 +1249,12 @@ export class OptimizedSgpmService {
   /**
    * 检查是否有明确的库存信息
    */
-  private hasDefinitiveStockInfo(html: string): boolean {
+  private hasDefinitiveStockInfo(html: string, url: string): boolean {
+    // 页面内嵌的产品数据本身就是明确的库存信息
+    if (parsePopMartPageData(html, { targetUrl: url })) {
+      return true;
+    }
+
     const htmlLower = html.toLowerCase();
 
     // 明确的库存指示器
@@ -1155,8 +1284,11 @@ export class OptimizedSgpmService {
     success: boolean;
     title: string;
     inStock: boolean;
+    stockState: StockState;
     price?: string;
     availability?: string;
+    source: StockDetectionSource;
+    skus?: PopMartSkuInfo[];
   } {
     // 使用现有的HTML解析逻辑
     const productInfo = this.extractProductInfoFromHTML(html, url);
@@ -1171,8 +1303,11 @@ export class OptimizedSgpmService {
       success: true,
       title: finalTitle,
       inStock: productInfo.inStock,
+      stockState: productInfo.stockState,
       price: productInfo.price,
-      availability: productInfo.availability
+      availability: productInfo.availability,
+      source: productInfo.source,
+      skus: productInfo.skus
     };
   }
 
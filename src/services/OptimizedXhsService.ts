@@ -2,7 +2,11 @@ import { XhsScraper } from '../scrapers/XhsScraper';
 import { XhsPostData } from '../types';
 import { LoggerInstance } from '../utils/logger';
 import { StatusManager } from '../utils/statusManager';
-import { sendTelegramMessage } from '../utils/sendTelegramMessage';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
+import { buildXhsPostNotification } from '../notifiers/notifications';
+import { getMqttPublisher } from './MqttPublisher';
+import { buildPostAlertKeyboard } from '../utils/alertActions';
+import { metrics } from '../utils/metrics';
 import { globalCache, httpCache } from '../utils/OptimizedCacheManager';
 
 /**
@@ -129,6 +133,7 @@ export class OptimizedXhsService {
       // 重置统计
       this.resetStats();
       this.stats.totalPosts = posts.length;
+      metrics.xhsPosts.inc({ stage: 'scraped' }, posts.length);
 
       // 预热缓存
       await this.warmupCache(posts);
@@ -222,21 +227,25 @@ export class OptimizedXhsService {
       // 1. 去重检查（优化：使用Set进行O(1)查找）
       if (this.isDuplicate(post.url, seenPosts)) {
         this.stats.duplicatePosts++;
+        metrics.xhsPosts.inc({ stage: 'duplicate' });
         return null;
       }
 
       // 2. 时间过滤（缓存优化）
       if (!post.publishTime || !(await this.isPostWithin1HourCached(post.publishTime))) {
         this.stats.timeFiltered++;
+        metrics.xhsPosts.inc({ stage: 'time_filtered' });
         return null;
       }
 
       // 3. 关键词匹配（缓存优化）
       if (!(await this.matchesKeywordsCached(post.previewTitle))) {
+        metrics.xhsPosts.inc({ stage: 'keyword_unmatched' });
         return null;
       }
 
       this.stats.keywordMatches++;
+      metrics.xhsPosts.inc({ stage: 'keyword_matched' });
       return post;
 
     } catch (error) {
@@ -315,6 +324,7 @@ export class OptimizedXhsService {
         await this.sendNotification(post);
         seenPosts.push(post.url);
         newPostsSent++;
+        metrics.xhsPosts.inc({ stage: 'sent' });
         this.logger.success(`✅ 帖子推送成功: ${post.previewTitle}`);
       } catch (error) {
         this.logger.error(`❌ 推送帖子失败: ${post.previewTitle}`, error);
@@ -480,7 +490,10 @@ export class OptimizedXhsService {
    */
   private async sendNotification(post: XhsPostData): Promise<void> {
     const message = this.formatMessage(post);
-    await sendTelegramMessage(message);
+    await getNotifierRegistry(this.logger).notify(
+      buildXhsPostNotification(post, message, { replyMarkup: buildPostAlertKeyboard(post.url) })
+    );
+    getMqttPublisher(this.logger).publishXhsPost(post);
   }
 
   /**
@@ -1,16 +1,20 @@
 import { PopMartScraper } from '../scrapers/PopMartScraper';
 import { LoggerInstance } from '../utils/logger';
 import { StatusManager } from '../utils/statusManager';
-import { sendTelegramMessage } from '../utils/sendTelegramMessage';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
 import { httpCache, productCache } from '../utils/OptimizedCacheManager';
+import { StockState } from '../types';
+import { detectSpecialStockState, extractVisibleText, stockStateFromBoolean, resolveStockState, isStockChange, getStockStateLabel } from '../utils/stockState';
+import { getProductKey } from '../utils/productIdentity';
 
 /**
- * PopMart产品状态接口
+ * PopMart产品状态接口（以规范化产品键为键，旧记录以URL为键）
  */
 interface ProductStatus {
-  [url: string]: {
+  [productKey: string]: {
     title: string;
     inStock: boolean;
+    stockState?: StockState;
     lastChecked: number;
   };
 }
@@ -40,28 +44,40 @@ export class PopMartService {
   /**
    * 处理产品检查结果
    */
-  async processProductResult(url: string, result: { title: string; inStock: boolean }): Promise<void> {
-    const { title, inStock } = result;
+  async processProductResult(url: string, result: { title: string; inStock: boolean; stockState: StockState }): Promise<void> {
+    const { title, inStock, stockState } = result;
     
     this.logger.info(`商品：${title}`);
     this.logger.debug(`链接：${url}`);
-    this.logger.info(`状态：${inStock ? '✅ 有货' : '❌ 缺货'}`);
+    this.logger.info(`状态：${getStockStateLabel(stockState)}`);
 
+    // 未知状态不覆盖上次的已知状态
+    if (stockState === StockState.UNKNOWN) {
+      this.logger.warn('库存状态未知，保留上次状态');
+      return;
+    }
+
+    const key = getProductKey(url);
     const currentStatus = this.statusManager.get();
-    const previousStatus = currentStatus[url];
-    const statusChanged = !previousStatus || previousStatus.inStock !== inStock;
+    const previousStatus = currentStatus[key] || currentStatus[url];
+    const previousState = previousStatus ? resolveStockState(previousStatus) : undefined;
+    const statusChanged = isStockChange(previousState, stockState);
 
-    // 更新状态
-    currentStatus[url] = {
+    // 更新状态（旧的URL键记录迁移到产品键）
+    if (key !== url) {
+      delete currentStatus[url];
+    }
+    currentStatus[key] = {
       title,
       inStock,
+      stockState,
       lastChecked: Date.now()
     };
 
     if (inStock) {
       this.logger.info('检测到有货商品，发送通知');
       try {
-        await this.sendNotification({ title, inStock, url });
+        await this.sendNotification({ title, stockState, url });
         this.logger.success('✅ 有货通知发送成功');
       } catch (error) {
         this.logger.error('通知发送失败:', error);
@@ -72,9 +88,9 @@ export class PopMartService {
     }
 
     if (statusChanged) {
-      this.logger.info(`状态变化: ${previousStatus?.inStock ? '有货' : '缺货'} → ${inStock ? '有货' : '缺货'}`);
+      this.logger.info(`状态变化: ${previousState ? getStockStateLabel(previousState) : '无记录'} → ${getStockStateLabel(stockState)}`);
     } else {
-      this.logger.debug(`状态无变化 (${inStock ? '有货' : '缺货'})`);
+      this.logger.debug(`状态无变化 (${getStockStateLabel(stockState)})`);
     }
 
     // 保存状态
@@ -93,7 +109,7 @@ export class PopMartService {
   /**
    * 简化的产品检查方法（用于GitHub Actions环境或备用方案）
    */
-  async checkProductSimple(url: string): Promise<{ title: string; inStock: boolean }> {
+  async checkProductSimple(url: string): Promise<{ title: string; inStock: boolean; stockState: StockState }> {
     this.logger.info('使用简化检查方法作为备用方案');
 
     // 检查产品缓存
@@ -101,11 +117,12 @@ export class PopMartService {
     const cached = productCache.get(cacheKey);
     if (cached) {
       this.logger.debug('使用缓存的产品信息');
-      return cached;
+      return { ...cached, stockState: cached.stockState || stockStateFromBoolean(cached.inStock) };
     }
 
     let title: string;
     let inStock: boolean;
+    let stockState: StockState;
 
     // 尝试通过HTTP请求获取页面标题
     try {
@@ -164,40 +181,43 @@ export class PopMartService {
         }
 
         // 检查库存状态 - 使用与完整检查相同的逻辑
-        inStock = this.checkStockFromHTML(html);
-        this.logger.info(`最终库存状态: ${inStock ? '有货' : '缺货'}`);
+        stockState = this.checkStockFromHTML(html);
+        this.logger.info(`最终库存状态: ${getStockStateLabel(stockState)}`);
         
         // 如果检测为缺货但URL看起来应该有货，使用更宽松的检测
-        if (!inStock && this.shouldBeInStock(url)) {
-          inStock = true;
+        if (stockState === StockState.OUT_OF_STOCK && this.shouldBeInStock(url)) {
+          stockState = StockState.IN_STOCK;
           this.logger.info('基于URL模式判断，覆盖为有货状态');
         }
       } else {
-        // HTTP请求失败，使用URL备选方案
+        // HTTP请求失败，使用URL备选方案，库存状态无法判断
         title = this.extractTitleFromUrl(url);
-        inStock = false;
+        stockState = StockState.UNKNOWN;
         this.logger.warn(`HTTP请求失败 (${response.status})，使用URL提取标题`);
       }
     } catch (error) {
-      // 网络错误，使用URL备选方案
+      // 网络错误，使用URL备选方案，库存状态无法判断
       title = this.extractTitleFromUrl(url);
-      inStock = false;
+      stockState = StockState.UNKNOWN;
       this.logger.warn(`网络请求失败，使用URL提取标题: ${error}`);
     }
 
     // 如果上面的HTTP请求方法失败，使用传统的URL解析方法
     if (!title) {
       title = this.extractTitleFromUrl(url);
-      inStock = false;
+      stockState = StockState.UNKNOWN;
       this.logger.info('HTTP方法失败，使用URL方法提取标题');
     }
 
-    const result = { title, inStock };
+    inStock = stockState === StockState.IN_STOCK;
+    const result = { title, inStock, stockState };
 
-    // 缓存结果
-    productCache.set(cacheKey, result);
+    // 缓存结果（未知状态不缓存）
+    if (stockState !== StockState.UNKNOWN) {
+      productCache.set(cacheKey, result);
+    }
 
-    this.logger.info(`简化检查结果 - 标题: ${title}, 状态: ${inStock ? '有货' : '缺货'}`);
+    this.logger.info(`简化检查结果 - 标题: ${title}, 状态: ${getStockStateLabel(stockState)}`);
     return result;
   }
 
@@ -222,7 +242,7 @@ export class PopMartService {
   /**
    * 从HTML内容检测库存状态
    */
-  private checkStockFromHTML(html: string): boolean {
+  private checkStockFromHTML(html: string): StockState {
     // 检查缺货指示器
     const outOfStockIndicators = [
       'out of stock',
@@ -231,8 +251,6 @@ export class PopMartService {
       'not available',
       'coming soon',
       'notify me when available',
-      'in-app purchase only',
-      'app purchase only',
       '缺货',
       '售罄',
       '暂无库存',
@@ -298,17 +316,22 @@ export class PopMartService {
     // 检查是否有价格信息
     const hasPricePattern = pricePatterns.some(pattern => pattern.test(html));
 
+    // App专享、地区限制、预售等特殊状态（只看可见文本，且在购买按钮之后）
+    const specialState = detectSpecialStockState(extractVisibleText(html));
+
     // 判断库存状态
     if (hasShakeButton) {
-      return true; // 有盲盒抽取按钮，判断为有货
+      return StockState.IN_STOCK; // 有盲盒抽取按钮，判断为有货
+    } else if (specialState) {
+      return specialState;
     } else if (hasInStockIndicator && !hasOutOfStockIndicator) {
-      return true; // 有有货指示器且无缺货指示器
+      return StockState.IN_STOCK; // 有有货指示器且无缺货指示器
     } else if (hasPricePattern && !hasOutOfStockIndicator) {
-      return true; // 有价格信息且无缺货指示器
+      return StockState.IN_STOCK; // 有价格信息且无缺货指示器
     } else if (hasOutOfStockIndicator) {
-      return false; // 有缺货指示器
+      return StockState.OUT_OF_STOCK; // 有缺货指示器
     } else {
-      return false; // 默认缺货
+      return StockState.UNKNOWN; // 无法判断
     }
   }
 
@@ -327,17 +350,30 @@ export class PopMartService {
   /**
    * 发送通知
    */
-  private async sendNotification(product: { title: string; inStock: boolean; url: string }): Promise<void> {
-    const message = this.formatMessage(product);
-    await sendTelegramMessage(message);
+  private async sendNotification(product: { title: string; stockState: StockState; url: string }): Promise<void> {
+    const status = getStockStateLabel(product.stockState);
+    await getNotifierRegistry(this.logger).notify({
+      event: 'sgpm_stock',
+      title: '🛍️ PopMart 商品状态更新',
+      text: this.formatMessage(product),
+      fields: [
+        { name: '📦 商品', value: product.title, inline: false },
+        { name: '📊 状态', value: status }
+      ],
+      url: product.url,
+      urlLabel: '🛒 打开产品',
+      level: product.stockState === StockState.IN_STOCK ? 'success' : 'info',
+      timestamp: Date.now()
+    });
   }
 
   /**
    * 格式化消息
    */
-  private formatMessage(product: { title: string; inStock: boolean; url: string }): string {
-    const status = product.inStock ? '✅ 有货' : '❌ 缺货';
-    
+  private formatMessage(product: { title: string; stockState: StockState; url: string }): string {
+    const status = getStockStateLabel(product.stockState);
+
+
     let message = `🛍️ PopMart 商品状态更新\n\n`;
     message += `📦 商品: ${product.title}\n`;
     message += `📊 状态: ${status}\n`;
@@ -0,0 +1,53 @@
+import { LoggerInstance } from '../utils/logger';
+import { getProductKey } from '../utils/productIdentity';
+import { SgpmStatusTracker, SgpmStockAlert } from './SgpmStatusTracker';
+import { getWatchlistManager, isAlertMuted } from './WatchlistManager';
+import { getSgpmEscalationService } from './SgpmEscalationService';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
+import { Notification, ProductMute } from '../types';
+
+/**
+ * SGPM 库存提醒发送
+ *
+ * 定时检查的各入口共用同一套规则：静音的产品跳过提醒，静音到下次补货的产品发送补货提醒后取消静音；
+ * 至少一个渠道收到提醒后才记录发送时间（开始冷却），并交给升级服务跟踪。
+ */
+export class SgpmAlertDispatcher {
+  private statusTracker: SgpmStatusTracker;
+  private mutedProducts: Record<string, ProductMute>;
+  private logger: LoggerInstance;
+
+  constructor(statusTracker: SgpmStatusTracker, mutedProducts: Record<string, ProductMute>, logger: LoggerInstance) {
+    this.statusTracker = statusTracker;
+    this.mutedProducts = mutedProducts;
+    this.logger = logger;
+  }
+
+  /**
+   * 发送提醒
+   * @returns 是否至少有一个渠道收到提醒（静音时返回 false）
+   * @throws 通知发送失败时抛出错误
+   */
+  async dispatch(alert: SgpmStockAlert, notification: Notification): Promise<boolean> {
+    const mute = this.mutedProducts[getProductKey(alert.url)];
+    if (isAlertMuted(mute, alert.type)) {
+      this.logger.info(`🔕 ${alert.title}: 已静音，跳过提醒 (${alert.type})`);
+      return false;
+    }
+    if (mute?.untilRestock) {
+      // 静音到下次补货：本次补货提醒照常发送，之后取消静音
+      const watchlist = getWatchlistManager(this.logger);
+      watchlist.setMutedUntil(alert.url, undefined);
+      watchlist.save();
+    }
+
+    const delivered = await getNotifierRegistry(this.logger).notify(notification);
+    if (delivered.length === 0) {
+      return false;
+    }
+
+    this.statusTracker.markNotified(alert);
+    getSgpmEscalationService(this.logger).track(alert, notification);
+    return true;
+  }
+}
@@ -0,0 +1,319 @@
+import { Browser, Page } from 'puppeteer';
+import { LoggerInstance } from '../utils/logger';
+import { buildProductAlertKeyboard } from '../utils/alertActions';
+import { getProductKey } from '../utils/productIdentity';
+import { parsePopMartPageData, formatPopMartPrice } from '../utils/popMartPageData';
+import { detectSpecialStockState, stockStateFromBoolean, getStockStateLabel } from '../utils/stockState';
+import { OptimizedBrowserManager } from '../core/OptimizedBrowserManager';
+import { SgpmStatusTracker, SgpmStockAlert } from './SgpmStatusTracker';
+import { getEntryMute, getWatchlistManager, isAlertMuted } from './WatchlistManager';
+import { getSgpmEscalationService } from './SgpmEscalationService';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
+import { getMqttPublisher } from './MqttPublisher';
+import { buildStockAlertNotification } from '../notifiers/notifications';
+import { SgpmConfig, StockState, WatchlistEntry, StockDetectionSource, PopMartSkuInfo } from '../types';
+
+/**
+ * 密集检查结果
+ */
+export interface BurstResult {
+  products: number;
+  checks: number;
+  alerts: number;
+  inStock: string[]; // 发售时段内检测到有货的产品URL
+}
+
+/**
+ * 单个产品的发售时段
+ */
+interface BurstWindow {
+  entry: WatchlistEntry;
+  start: number;
+  end: number;
+  page: Page | null;
+  loaded: boolean; // 页面已打开过，之后只刷新
+  done: boolean; // 已检测到有货，不再检查
+}
+
+interface BurstCheck {
+  title: string;
+  stockState: StockState;
+  price?: string;
+  availability?: string;
+  skus?: PopMartSkuInfo[];
+  source: StockDetectionSource;
+}
+
+const PURCHASE_KEYWORDS = ['add to cart', 'buy now', 'pick one to shake', 'buy multiple boxes', 'order now'];
+const SOLD_OUT_KEYWORDS = ['notify me when available', 'out of stock', 'sold out', 'unavailable', 'coming soon'];
+
+// 正处于发售时段的产品键，定时检查跳过这些产品
+const activeBurstProducts = new Set<string>();
+
+/**
+ * 产品是否正在密集检查中（处于发售时段且尚未检测到有货）
+ */
+export function isInBurst(url: string): boolean {
+  return activeBurstProducts.has(getProductKey(url));
+}
+
+/**
+ * SGPM 发售时段密集检查
+ *
+ * PopMart SG 的新品在公布的时间准时开售，通常几分钟内售罄，5分钟一次的定时检查赶不上。
+ * 对设置了发售时间的产品，在发售前 leadMinutes 到发售后 tailMinutes 之间保持页面常驻，
+ * 每隔几秒（带随机抖动）刷新一次，购买按钮一出现立即提醒。
+ * 处于发售时段的产品由 isInBurst 标记，定时检查期间跳过，其他产品照常检查。
+ */
+export class SgpmBurstMonitor {
+  private config: SgpmConfig;
+  private logger: LoggerInstance;
+  private browserManager: OptimizedBrowserManager;
+  private statusTracker: SgpmStatusTracker;
+
+  constructor(config: SgpmConfig, logger: LoggerInstance, browserManager: OptimizedBrowserManager, statusTracker: SgpmStatusTracker) {
+    this.config = config;
+    this.logger = logger;
+    this.browserManager = browserManager;
+    this.statusTracker = statusTracker;
+  }
+
+  /**
+   * 对给定条目执行密集检查，直到所有发售时段结束或全部检测到有货
+   */
+  async run(entries: WatchlistEntry[]): Promise<BurstResult> {
+    const { leadMinutes, tailMinutes } = this.config.burst;
+    const windows: BurstWindow[] = entries
+      .filter(entry => entry.releaseAt !== undefined)
+      .map(entry => ({
+        entry,
+        start: entry.releaseAt! - leadMinutes * 60 * 1000,
+        end: entry.releaseAt! + tailMinutes * 60 * 1000,
+        page: null,
+        loaded: false,
+        done: false
+      }));
+
+    const result: BurstResult = { products: windows.length, checks: 0, alerts: 0, inStock: [] };
+    if (windows.length === 0) {
+      return result;
+    }
+
+    windows.forEach(window => {
+      this.logger.info(`⏰ 发售时段: ${window.entry.label || window.entry.url} ${this.formatTime(window.start)} - ${this.formatTime(window.end)}`);
+    });
+
+    const { browser, page } = await this.browserManager.getBrowser();
+    const extraPages: Page[] = [];
+
+    try {
+      while (true) {
+        const now = Date.now();
+        const active = windows.filter(window => !window.done && window.start <= now && now < window.end);
+        const pending = windows.filter(window => !window.done && now < window.start);
+        this.markActive(windows, active);
+
+        if (active.length === 0) {
+          if (pending.length === 0) {
+            break;
+          }
+          const nextStart = Math.min(...pending.map(window => window.start));
+          this.logger.info(`⏳ 等待进入发售时段 (${Math.ceil((nextStart - now) / 1000)} 秒)`);
+          await this.sleep(nextStart - now);
+          continue;
+        }
+
+        for (const window of active) {
+          if (!window.page) {
+            // 第一个产品复用浏览器默认页面，其余产品各开一个页面，之后只刷新不重新打开
+            window.page = windows.some(other => other.page === page) ? await this.openPage(browser, extraPages) : page;
+          }
+
+          result.checks++;
+          try {
+            const check = await this.checkPage(window);
+            if (check.stockState === StockState.IN_STOCK) {
+              window.done = true;
+              result.inStock.push(window.entry.url);
+            }
+
+            const alert = this.statusTracker.record({
+              url: window.entry.url,
+              title: check.title,
+              stockState: check.stockState,
+              price: check.price,
+              availability: check.availability,
+              variants: check.skus,
+              detectionSource: check.source
+            });
+            const mqtt = getMqttPublisher(this.logger);
+            mqtt.publishProductState({ url: window.entry.url, title: check.title, stockState: check.stockState, price: check.price });
+            if (alert) {
+              mqtt.publishProductEvent(alert);
+            }
+            if (alert && await this.notify(alert, window.entry, check)) {
+              this.statusTracker.markNotified(alert);
+              result.alerts++;
+            }
+          } catch (error) {
+            // 高频刷新时偶发的超时不影响后续检查
+            this.logger.warn(`⚠️ 密集检查失败: ${window.entry.url}`, error);
+          }
+        }
+
+        this.statusTracker.save();
+        await this.sleep(this.getNextDelay());
+      }
+    } finally {
+      this.markActive(windows, []);
+      await Promise.all(extraPages.map(extraPage => extraPage.close().catch(() => undefined)));
+      this.browserManager.releaseBrowser();
+      this.statusTracker.save();
+    }
+
+    this.logger.info(`✅ 密集检查结束: ${result.products} 个产品, ${result.checks} 次检查, ${result.alerts} 个提醒`);
+    return result;
+  }
+
+  /**
+   * 更新正在密集检查的产品：只标记当前处于发售时段的产品
+   */
+  private markActive(windows: BurstWindow[], active: BurstWindow[]): void {
+    for (const window of windows) {
+      const key = getProductKey(window.entry.url);
+      if (active.includes(window)) {
+        activeBurstProducts.add(key);
+      } else {
+        activeBurstProducts.delete(key);
+      }
+    }
+  }
+
+  private async openPage(browser: Browser, extraPages: Page[]): Promise<Page> {
+    const page = await browser.newPage();
+    extraPages.push(page);
+    return page;
+  }
+
+  /**
+   * 刷新产品页并判断库存：优先读取页面内嵌数据，其次读取购买按钮文字
+   */
+  private async checkPage(window: BurstWindow): Promise<BurstCheck> {
+    const page = window.page!;
+    if (window.loaded) {
+      await page.reload({ waitUntil: 'domcontentloaded', timeout: this.config.timeout });
+    } else {
+      await page.goto(window.entry.url, { waitUntil: 'domcontentloaded', timeout: this.config.timeout });
+      window.loaded = true;
+    }
+
+    const fallbackTitle = window.entry.label || window.entry.url;
+    const data = parsePopMartPageData(await page.content(), { defaultCurrency: 'SGD', targetUrl: window.entry.url });
+    if (data) {
+      return {
+        title: data.title || fallbackTitle,
+        stockState: stockStateFromBoolean(data.inStock),
+        price: data.price !== undefined ? formatPopMartPrice(data.price, data.currency) : undefined,
+        availability: data.inStock ? 'In Stock' : 'Out of Stock',
+        skus: data.skus,
+        source: data.source
+      };
+    }
+
+    const buttonText = await page.evaluate(() =>
+      Array.from(document.querySelectorAll('button, .ant-btn, [role="button"]'))
+        .filter(element => (element as HTMLElement).offsetParent !== null)
+        .map(element => element.textContent?.trim() || '')
+        .filter(text => text.length > 0 && text.length < 100)
+        .join(' | ')
+    );
+
+    return {
+      title: (await page.title()) || fallbackTitle,
+      stockState: this.judgeButtonText(buttonText),
+      availability: buttonText || undefined,
+      source: 'button'
+    };
+  }
+
+  private judgeButtonText(buttonText: string): StockState {
+    const textLower = buttonText.toLowerCase();
+    const specialState = detectSpecialStockState(textLower);
+    if (specialState) {
+      return specialState;
+    }
+    if (SOLD_OUT_KEYWORDS.some(keyword => textLower.includes(keyword))) {
+      return StockState.OUT_OF_STOCK;
+    }
+    if (PURCHASE_KEYWORDS.some(keyword => textLower.includes(keyword))) {
+      return StockState.IN_STOCK;
+    }
+    return StockState.UNKNOWN;
+  }
+
+  /**
+   * 发送发售提醒
+   * @returns 是否发送成功
+   */
+  private async notify(alert: SgpmStockAlert, entry: WatchlistEntry, check: BurstCheck): Promise<boolean> {
+    const mute = getEntryMute(entry);
+    if (isAlertMuted(mute, alert.type)) {
+      this.logger.info(`🔕 ${check.title}: 已静音，跳过发售提醒`);
+      return false;
+    }
+    if (mute?.untilRestock) {
+      const watchlist = getWatchlistManager(this.logger);
+      watchlist.setMutedUntil(entry.url, undefined);
+      watchlist.save();
+    }
+
+    const variantLines = SgpmStatusTracker.formatAlertVariants(alert);
+    const message = `⚡ SGPM发售提醒
+
+${SgpmStatusTracker.getAlertHeadline(alert)}
+
+📦 商品名称: ${check.title}
+💰 价格: ${SgpmStatusTracker.formatAlertPrice(alert) || '未知'}
+📊 状态: ${getStockStateLabel(check.stockState)}
+${variantLines ? `🎯 有货款式:\n${variantLines}\n` : ''}🔗 购买链接: ${entry.url}
+⏰ 发售时间: ${this.formatTime(entry.releaseAt!)}
+🕐 检测时间: ${this.formatTime(Date.now())} (新加坡时间)`;
+
+    const notification = buildStockAlertNotification(alert, message, {
+      event: 'sgpm_release',
+      stockState: check.stockState,
+      fields: [{ name: '⏰ 发售时间', value: this.formatTime(entry.releaseAt!) }],
+      telegram: { replyMarkup: buildProductAlertKeyboard(entry.url) }
+    });
+
+    try {
+      const delivered = await getNotifierRegistry(this.logger).notify(notification);
+      if (delivered.length === 0) {
+        return false;
+      }
+      getSgpmEscalationService(this.logger).track(alert, notification);
+      this.logger.success(`✅ 发售提醒发送成功 (${alert.type})`);
+      return true;
+    } catch (error) {
+      this.logger.error('❌ 发售提醒发送失败:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 下次检查前的等待时间：固定间隔加随机抖动，避免请求节奏过于规律
+   */
+  private getNextDelay(): number {
+    const { intervalSeconds, jitterSeconds } = this.config.burst;
+    const jitter = (Math.random() * 2 - 1) * jitterSeconds;
+    return Math.max(1, intervalSeconds + jitter) * 1000;
+  }
+
+  private formatTime(time: number): string {
+    return new Date(time).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore', hour12: false });
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,258 @@
+import { Page } from 'puppeteer';
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { parseProductIdentity, getProductKey } from '../utils/productIdentity';
+import { OptimizedBrowserManager } from '../core/OptimizedBrowserManager';
+import { getWatchlistManager } from './WatchlistManager';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
+import { SgpmConfig, DiscoveredProduct, DiscoveryCatalog } from '../types';
+
+/**
+ * 列表页中抓取到的产品链接
+ */
+interface ListingItem {
+  url: string;
+  title: string;
+}
+
+/**
+ * 单次新品发现的结果
+ */
+export interface DiscoveryResult {
+  scannedPages: number;
+  matched: number; // 匹配关键词的产品数
+  newProducts: DiscoveredProduct[];
+  baseline: boolean; // 首次运行只建立目录，不发送提醒
+}
+
+/**
+ * SGPM 新品发现服务
+ *
+ * 定期抓取 PopMart SG 的新品、系列和搜索列表页，按关键词筛选产品，
+ * 与已知目录（发现目录 + 监控列表 + 默认产品）对比，发现新上架产品时发送提醒，
+ * 可选自动加入监控列表。
+ */
+export class SgpmDiscoveryService {
+  private config: SgpmConfig;
+  private logger: LoggerInstance;
+  private browserManager: OptimizedBrowserManager;
+  private catalogManager: StatusManager<DiscoveryCatalog>;
+
+  constructor(config: SgpmConfig, logger: LoggerInstance) {
+    this.config = config;
+    this.logger = logger;
+    this.browserManager = new OptimizedBrowserManager(logger);
+    this.catalogManager = new StatusManager<DiscoveryCatalog>(config.discovery.catalogFile, logger, {});
+  }
+
+  /**
+   * 执行一次新品发现
+   */
+  async discover(now: number = Date.now()): Promise<DiscoveryResult> {
+    const listingUrls = this.getListingUrls();
+    this.logger.info(`🔎 开始新品发现: ${listingUrls.length} 个列表页, 关键词 [${this.config.discovery.keywords.join(', ')}]`);
+
+    const found = new Map<string, DiscoveredProduct>();
+    let scannedPages = 0;
+
+    const { page } = await this.browserManager.getBrowser();
+    try {
+      for (const listingUrl of listingUrls) {
+        try {
+          const items = await this.scrapeListing(page, listingUrl);
+          scannedPages++;
+
+          const matched = items.filter(item => this.matchesKeywords(item));
+          this.logger.info(`📄 ${listingUrl}: ${items.length} 个产品, ${matched.length} 个匹配`);
+
+          for (const item of matched) {
+            const key = getProductKey(item.url);
+            if (!found.has(key)) {
+              found.set(key, {
+                key,
+                url: item.url,
+                title: item.title,
+                sourceUrl: listingUrl,
+                firstSeenAt: now,
+                lastSeenAt: now
+              });
+            }
+          }
+        } catch (error) {
+          this.logger.warn(`⚠️ 列表页抓取失败: ${listingUrl}`, error);
+        }
+      }
+    } finally {
+      this.browserManager.releaseBrowser();
+    }
+
+    const catalog = this.catalogManager.get();
+    const baseline = Object.keys(catalog).length === 0;
+    const knownKeys = this.getKnownKeys(catalog);
+    const newProducts: DiscoveredProduct[] = [];
+
+    for (const product of found.values()) {
+      const existing = catalog[product.key];
+      if (existing) {
+        catalog[product.key] = { ...existing, title: product.title || existing.title, lastSeenAt: now };
+        continue;
+      }
+
+      catalog[product.key] = product;
+      if (!baseline && !knownKeys.has(product.key)) {
+        newProducts.push(product);
+      }
+    }
+
+    this.catalogManager.set(catalog);
+
+    if (baseline) {
+      this.logger.info(`📚 首次运行，建立新品目录基线: ${found.size} 个产品（不发送提醒）`);
+    } else if (newProducts.length > 0) {
+      this.logger.info(`🆕 发现 ${newProducts.length} 个新上架产品`);
+      await this.notifyNewProducts(newProducts);
+      if (this.config.discovery.autoAddToWatchlist) {
+        this.addToWatchlist(newProducts);
+      }
+    } else {
+      this.logger.info('📭 没有发现新产品');
+    }
+
+    this.catalogManager.save();
+    return { scannedPages, matched: found.size, newProducts, baseline };
+  }
+
+  /**
+   * 清理浏览器资源
+   */
+  async cleanup(): Promise<void> {
+    try {
+      await OptimizedBrowserManager.closeAll();
+      this.logger.info('✅ 新品发现服务资源清理完成');
+    } catch (error) {
+      this.logger.error('❌ 新品发现服务资源清理失败:', error);
+    }
+  }
+
+  /**
+   * 需要抓取的列表页：配置的列表页 + 每个关键词的搜索页
+   */
+  private getListingUrls(): string[] {
+    const { listingUrls, searchUrlTemplate, keywords } = this.config.discovery;
+    const searchUrls = keywords.map(keyword => searchUrlTemplate.replace('{keyword}', encodeURIComponent(keyword)));
+    return [...new Set([...listingUrls, ...searchUrls])];
+  }
+
+  /**
+   * 抓取单个列表页中的产品链接
+   */
+  private async scrapeListing(page: Page, listingUrl: string): Promise<ListingItem[]> {
+    await page.goto(listingUrl, { waitUntil: 'networkidle2', timeout: this.config.timeout });
+
+    // 滚动加载懒加载的商品卡片
+    for (let i = 0; i < this.config.discovery.maxScrolls; i++) {
+      const before = await page.evaluate(() => {
+        window.scrollTo(0, document.body.scrollHeight);
+        return document.body.scrollHeight;
+      });
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      const after = await page.evaluate(() => document.body.scrollHeight);
+      if (after <= before) {
+        break;
+      }
+    }
+
+    const links = await page.evaluate(() => {
+      const anchors = Array.from(document.querySelectorAll('a[href*="/products/"], a[href*="/pop-now/set/"]'));
+      return anchors.map(anchor => {
+        const image = anchor.querySelector('img');
+        const text = (anchor.textContent || '').replace(/\s+/g, ' ').trim();
+        return {
+          href: (anchor as HTMLAnchorElement).href,
+          title: text || anchor.getAttribute('title') || image?.getAttribute('alt') || ''
+        };
+      });
+    });
+
+    const items = new Map<string, ListingItem>();
+    for (const link of links) {
+      const identity = parseProductIdentity(link.href);
+      if (!identity) {
+        continue;
+      }
+
+      const title = link.title || identity.slug || `#${identity.id}`;
+      const existing = items.get(identity.key);
+      // 同一产品可能有图片和标题两个链接，保留信息更多的标题
+      if (!existing || title.length > existing.title.length) {
+        items.set(identity.key, { url: link.href.split('?')[0], title });
+      }
+    }
+
+    return [...items.values()];
+  }
+
+  /**
+   * 产品标题或URL名称是否匹配关键词
+   */
+  private matchesKeywords(item: ListingItem): boolean {
+    const slug = parseProductIdentity(item.url)?.slug || '';
+    const text = `${item.title} ${slug}`.toLowerCase();
+    return this.config.discovery.keywords.some(keyword => text.includes(keyword.toLowerCase()));
+  }
+
+  /**
+   * 已知产品：发现目录 + 监控列表 + 默认产品
+   */
+  private getKnownKeys(catalog: DiscoveryCatalog): Set<string> {
+    const watchlistUrls = getWatchlistManager(this.logger).list().map(entry => entry.url);
+    return new Set([
+      ...Object.keys(catalog),
+      ...[...watchlistUrls, ...this.config.productUrls].map(url => getProductKey(url))
+    ]);
+  }
+
+  /**
+   * 发送新品提醒
+   */
+  private async notifyNewProducts(products: DiscoveredProduct[]): Promise<void> {
+    const lines = products.map(product => `• ${product.title}\n${product.url}`);
+    const message = `🆕 PopMart SG 新品上架 (${products.length})
+
+${lines.join('\n\n')}
+
+🕐 发现时间: ${new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Singapore' })}`;
+
+    try {
+      const delivered = await getNotifierRegistry(this.logger).notify({
+        event: 'sgpm_new_product',
+        title: `🆕 PopMart SG 新品上架 (${products.length})`,
+        text: message,
+        fields: products.map(product => ({ name: product.title, value: product.url, inline: false })),
+        level: 'info',
+        timestamp: Date.now()
+      });
+      if (delivered.length === 0) {
+        return;
+      }
+      this.logger.success('✅ 新品提醒发送成功');
+    } catch (error) {
+      this.logger.error('❌ 新品提醒发送失败:', error);
+    }
+  }
+
+  /**
+   * 新品自动加入监控列表
+   */
+  private addToWatchlist(products: DiscoveredProduct[]): void {
+    const watchlist = getWatchlistManager(this.logger);
+    const { added, skipped } = watchlist.import(products.map(product => ({
+      url: product.url,
+      label: product.title,
+      tags: ['discovered']
+    })));
+    skipped.forEach(item => this.logger.warn(`   跳过: ${item}`));
+    this.logger.info(`📋 已自动加入监控列表: ${added} 个产品`);
+    watchlist.save();
+  }
+}
@@ -0,0 +1,196 @@
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { buildProductAlertKeyboard } from '../utils/alertActions';
+import { getProductKey } from '../utils/productIdentity';
+import { resolveStockState } from '../utils/stockState';
+import { SgpmStockAlert, getSgpmStatusTracker } from './SgpmStatusTracker';
+import { getEntryMute, getWatchlistManager } from './WatchlistManager';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
+import { sgpmConfig } from '../config-sgpm';
+import { Notification, SgpmEscalation, SgpmEscalationConfig, SgpmEscalationResolution, StockState } from '../types';
+
+// 已结束的升级记录保留时长
+const RESOLVED_RETENTION = 24 * 60 * 60 * 1000;
+
+const RESOLUTION_LABELS: Record<SgpmEscalationResolution, string> = {
+  acknowledged: '已确认',
+  sold_out: '已售罄',
+  muted: '已静音',
+  max_reached: '已达最大升级次数',
+  superseded: '已有新的补货提醒'
+};
+
+/**
+ * 未确认补货提醒的升级服务
+ *
+ * 补货提醒发出后 afterSeconds 内没有人点"确认"时，重新发送提醒（开启通知声音）到升级聊天并提及指定用户，
+ * 之后每隔 afterSeconds 再次发送，直到提醒被确认、产品售罄、产品被静音或达到最大升级次数。
+ * 升级状态以提醒ID（产品键:发送时间）保存在 sgpm-escalations.json 中，重启后继续升级。
+ * 升级事件 sgpm_escalation 只路由到 Telegram（见 TELEGRAM_ONLY_EVENTS），提及只写在 Telegram 消息正文中。
+ */
+export class SgpmEscalationService {
+  private config: SgpmEscalationConfig;
+  private logger: LoggerInstance;
+  private statusManager: StatusManager<Record<string, SgpmEscalation>>;
+
+  constructor(config: SgpmEscalationConfig, logger: LoggerInstance) {
+    this.config = config;
+    this.logger = logger;
+    this.statusManager = new StatusManager<Record<string, SgpmEscalation>>(config.stateFile, logger, {});
+  }
+
+  /**
+   * 记录已发送的提醒，只有补货提醒需要升级
+   * 同一产品之前未结束的升级由新的提醒取代
+   * 发送时间取提醒生成的时间：各渠道发送期间已经点了确认的，同样结束升级
+   */
+  track(alert: SgpmStockAlert, notification: Notification, now: number = notification.timestamp ?? Date.now()): void {
+    if (!this.config.enabled || alert.type !== 'back_in_stock') {
+      return;
+    }
+
+    const productKey = getProductKey(alert.url);
+    const escalations = { ...this.statusManager.get() };
+    for (const escalation of Object.values(escalations)) {
+      if (escalation.productKey === productKey && !escalation.resolvedAt) {
+        escalations[escalation.id] = { ...escalation, resolvedAt: now, resolution: 'superseded' };
+      }
+    }
+
+    const id = `${productKey}:${now}`;
+    escalations[id] = { id, productKey, url: alert.url, title: alert.title, notification, sentAt: now, escalations: 0 };
+    this.statusManager.set(escalations);
+    this.statusManager.save();
+  }
+
+  /**
+   * 获取未结束的升级
+   */
+  getPending(): SgpmEscalation[] {
+    return Object.values(this.statusManager.get()).filter(escalation => !escalation.resolvedAt);
+  }
+
+  /**
+   * 检查所有未结束的升级：已确认/售罄/静音的结束升级，到期的重新发送
+   * @returns 本次发送的升级消息数
+   */
+  async check(now: number = Date.now()): Promise<number> {
+    const pending = this.getPending();
+    if (pending.length === 0) {
+      this.prune(now);
+      return 0;
+    }
+
+    // 与确认操作和 SGPM 任务共用状态跟踪器，能立即看到确认和售罄
+    const tracker = getSgpmStatusTracker(sgpmConfig, this.logger);
+    const watchlist = getWatchlistManager(this.logger);
+    let sent = 0;
+
+    for (const escalation of pending) {
+      const status = tracker.getProductStatus(escalation.url);
+      const entry = watchlist.find(escalation.url);
+      const state = status ? resolveStockState(status) : StockState.UNKNOWN;
+
+      if (status?.acknowledgedAt && status.acknowledgedAt >= escalation.sentAt) {
+        this.resolve(escalation, 'acknowledged', now);
+      } else if (state !== StockState.IN_STOCK && state !== StockState.UNKNOWN) {
+        this.resolve(escalation, 'sold_out', now);
+      } else if (entry && getEntryMute(entry, now)) {
+        this.resolve(escalation, 'muted', now);
+      } else if (now >= (escalation.lastEscalatedAt || escalation.sentAt) + this.config.afterSeconds * 1000) {
+        if (await this.escalate(escalation, now)) {
+          sent++;
+        }
+      }
+    }
+
+    this.prune(now);
+    this.statusManager.save();
+    return sent;
+  }
+
+  /**
+   * 重新发送提醒（Telegram 发送到所有升级聊天）
+   * @returns 是否发送成功
+   */
+  private async escalate(escalation: SgpmEscalation, now: number): Promise<boolean> {
+    const count = escalation.escalations + 1;
+    const headline = `🚨 补货提醒未确认（第${count}次升级）`;
+    const mentions = this.config.mentions.map(mention => this.formatMention(mention)).join(' ');
+    const original = escalation.notification;
+
+    try {
+      const delivered = await getNotifierRegistry(this.logger).notify({
+        ...original,
+        event: 'sgpm_escalation',
+        title: `${headline} ${original.title}`,
+        text: `${headline}${mentions ? `\n${mentions}` : ''}\n\n${original.text}`,
+        level: 'alert',
+        timestamp: now,
+        telegram: {
+          chatIds: this.config.chatIds,
+          disableNotification: false,
+          replyMarkup: buildProductAlertKeyboard(escalation.url)
+        }
+      });
+      if (delivered.length === 0) {
+        return false;
+      }
+    } catch (error) {
+      // 发送失败时不计入升级次数，下次检查重试
+      this.logger.error('❌ 升级提醒发送失败:', error);
+      return false;
+    }
+
+    this.logger.warn(`🚨 补货提醒未确认，已升级 (${count}/${this.config.maxEscalations}): ${escalation.title}`);
+    const updated: SgpmEscalation = { ...escalation, escalations: count, lastEscalatedAt: now };
+    this.statusManager.set({ ...this.statusManager.get(), [escalation.id]: updated });
+    if (count >= this.config.maxEscalations) {
+      this.resolve(updated, 'max_reached', now);
+    }
+    return true;
+  }
+
+  private resolve(escalation: SgpmEscalation, resolution: SgpmEscalationResolution, now: number): void {
+    this.logger.info(`✅ 补货提醒升级结束（${RESOLUTION_LABELS[resolution]}）: ${escalation.title}`);
+    this.statusManager.set({
+      ...this.statusManager.get(),
+      [escalation.id]: { ...escalation, resolvedAt: now, resolution }
+    });
+  }
+
+  /**
+   * 删除超过保留时长的已结束记录
+   */
+  private prune(now: number): void {
+    const escalations = this.statusManager.get();
+    const kept = Object.fromEntries(Object.entries(escalations).filter(([, escalation]) =>
+      !escalation.resolvedAt || now - escalation.resolvedAt < RESOLVED_RETENTION
+    ));
+    if (Object.keys(kept).length !== Object.keys(escalations).length) {
+      this.statusManager.set(kept);
+    }
+  }
+
+  /**
+   * @用户名 原样发送，数字用户ID转换为 HTML 提及链接
+   */
+  private formatMention(mention: string): string {
+    return /^\d+$/.test(mention) ? `<a href="tg://user?id=${mention}">${mention}</a>` : mention;
+  }
+}
+
+/**
+ * 全局升级服务实例
+ */
+let globalEscalationService: SgpmEscalationService | null = null;
+
+/**
+ * 获取全局升级服务
+ */
+export function getSgpmEscalationService(logger: LoggerInstance): SgpmEscalationService {
+  if (!globalEscalationService) {
+    globalEscalationService = new SgpmEscalationService(sgpmConfig.escalation, logger);
+  }
+  return globalEscalationService;
+}
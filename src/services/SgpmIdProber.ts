@@ -0,0 +1,246 @@
+import { Page } from 'puppeteer';
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { parsePopMartPageData } from '../utils/popMartPageData';
+import { parseProductIdentity } from '../utils/productIdentity';
+import { OptimizedBrowserManager } from '../core/OptimizedBrowserManager';
+import { getWatchlistManager } from './WatchlistManager';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
+import { SgpmConfig, DiscoveryCatalog, ProbeIdRecord, ProbeIdStatus, ProbedProductId } from '../types';
+
+/**
+ * 单次ID探测的结果
+ */
+export interface IdProbeResult {
+  highestKnownId: number;
+  requests: number; // 实际发出的请求数
+  probed: ProbedProductId[];
+  newIds: ProbedProductId[]; // 本次首次发现存在的ID
+}
+
+/**
+ * SGPM 产品ID探测器
+ *
+ * PopMart SG 的产品ID是连续分配的，新产品通常在出现在列表之前就已经可以通过ID访问。
+ * 探测器在已知最大ID之上的窗口内逐个访问产品页，记录每个ID的状态和首次发现时间，
+ * 发现标题匹配关键词的新ID时发送提醒。已存在但未上架的ID会轮流重新探测，直到确认上架。
+ * 每次运行的请求数严格受 maxRequests 限制。
+ */
+export class SgpmIdProber {
+  private config: SgpmConfig;
+  private logger: LoggerInstance;
+  private browserManager: OptimizedBrowserManager;
+  private stateManager: StatusManager<ProbeIdRecord>;
+
+  private static readonly REGION = 'sg';
+
+  constructor(config: SgpmConfig, logger: LoggerInstance, browserManager: OptimizedBrowserManager) {
+    this.config = config;
+    this.logger = logger;
+    this.browserManager = browserManager;
+    this.stateManager = new StatusManager<ProbeIdRecord>(config.idProbe.stateFile, logger, {});
+  }
+
+  /**
+   * 执行一次ID探测
+   */
+  async probe(now: number = Date.now()): Promise<IdProbeResult> {
+    const { windowSize, maxRequests, requestDelay } = this.config.idProbe;
+    const listedIds = this.getListedIds();
+    const state = this.stateManager.get();
+
+    // 已确认存在的探测ID也计入已知范围，窗口随之上移
+    const existingProbedIds = Object.values(state).filter(record => record.status !== 'not-found').map(record => record.id);
+    const highestKnownId = Math.max(0, ...listedIds, ...existingProbedIds);
+    if (highestKnownId === 0) {
+      throw new Error('没有已知的产品ID，无法确定探测范围');
+    }
+
+    // 已出现在列表中的未上架ID不需要请求即可确认上架
+    for (const record of Object.values(state)) {
+      if (record.status === 'exists-unlisted' && listedIds.has(record.id)) {
+        this.logger.info(`🔄 #${record.id}: exists-unlisted → live (已出现在列表中)`);
+        state[record.id] = { ...record, status: 'live' };
+      }
+    }
+
+    const candidates = this.getCandidates(highestKnownId, windowSize, state).slice(0, maxRequests);
+    this.logger.info(`🕵️ 开始ID探测: 已知最大ID #${highestKnownId}, 窗口 ${windowSize}, 本次请求 ${candidates.length}/${maxRequests}`);
+
+    const probed: ProbedProductId[] = [];
+    const newIds: ProbedProductId[] = [];
+    let requests = 0;
+
+    const { page } = await this.browserManager.getBrowser();
+    try {
+      for (const id of candidates) {
+        if (requests >= maxRequests) {
+          break;
+        }
+        if (requests > 0) {
+          await new Promise(resolve => setTimeout(resolve, requestDelay));
+        }
+
+        requests++;
+        const previous = state[id];
+        let detected: { status: ProbeIdStatus; title?: string };
+        try {
+          detected = await this.probeId(page, id, listedIds);
+        } catch (error) {
+          // 请求失败时保留上次状态
+          this.logger.warn(`⚠️ 探测 #${id} 失败`, error);
+          continue;
+        }
+
+        const record: ProbedProductId = {
+          ...previous,
+          id,
+          status: detected.status,
+          title: detected.title || previous?.title,
+          lastProbedAt: now
+        };
+
+        const isNew = detected.status !== 'not-found' && !previous?.firstSeenAt;
+        if (isNew) {
+          record.firstSeenAt = now;
+          newIds.push(record);
+        }
+
+        if (previous?.status !== record.status) {
+          this.logger.info(`🔄 #${id}: ${previous?.status || '未探测'} → ${record.status}${record.title ? ` (${record.title})` : ''}`);
+        }
+
+        state[id] = record;
+        probed.push(record);
+      }
+    } finally {
+      this.browserManager.releaseBrowser();
+    }
+
+    const matching = newIds.filter(record => this.matchesKeywords(record.title));
+    if (matching.length > 0 && await this.notifyNewIds(matching)) {
+      matching.forEach(record => { state[record.id].notifiedAt = now; });
+    }
+
+    this.stateManager.set(state);
+    this.stateManager.save();
+
+    this.logger.info(`✅ ID探测完成: ${requests} 次请求, 新发现 ${newIds.length} 个ID, 其中 ${matching.length} 个匹配关键词`);
+    return { highestKnownId, requests, probed, newIds };
+  }
+
+  /**
+   * 本次探测的候选ID：窗口内从未探测的ID优先，其次按最久未探测排序的不存在ID和已存在但未上架的ID
+   * 未上架的ID会把窗口推到它之上，需要单独重新探测才能发现它上架
+   */
+  private getCandidates(highestKnownId: number, windowSize: number, state: ProbeIdRecord): number[] {
+    const ids: number[] = [];
+    for (let id = highestKnownId + 1; id <= highestKnownId + windowSize; id++) {
+      // 已上架的ID不再重复探测
+      if (state[id] && state[id].status === 'live') {
+        continue;
+      }
+      ids.push(id);
+    }
+
+    for (const record of Object.values(state)) {
+      if (record.status === 'exists-unlisted' && !ids.includes(record.id)) {
+        ids.push(record.id);
+      }
+    }
+
+    return ids.sort((a, b) => {
+      const probedA = state[a]?.lastProbedAt ?? -1;
+      const probedB = state[b]?.lastProbedAt ?? -1;
+      return probedA - probedB || a - b;
+    });
+  }
+
+  /**
+   * 访问单个产品ID并判断状态
+   */
+  private async probeId(page: Page, id: number, listedIds: Set<number>): Promise<{ status: ProbeIdStatus; title?: string }> {
+    const url = `https://www.popmart.com/${SgpmIdProber.REGION}/products/${id}`;
+    const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: this.config.timeout });
+
+    if (!response || response.status() === 404) {
+      return { status: 'not-found' };
+    }
+
+    // 不存在的ID可能返回200的空白页或跳转到首页，只接受ID一致的产品数据
+    const data = parsePopMartPageData(await page.content(), { defaultCurrency: 'SGD', targetUrl: url });
+    if (!data) {
+      return { status: 'not-found' };
+    }
+
+    const isLive = listedIds.has(id) || data.inStock;
+    return { status: isLive ? 'live' : 'exists-unlisted', title: data.title };
+  }
+
+  /**
+   * 已出现在列表中的产品ID：默认产品 + 监控列表 + 新品发现目录
+   */
+  private getListedIds(): Set<number> {
+    const catalog = new StatusManager<DiscoveryCatalog>(this.config.discovery.catalogFile, this.logger, {}).get();
+    const urls = [
+      ...this.config.productUrls,
+      ...getWatchlistManager(this.logger).list().map(entry => entry.url),
+      ...Object.values(catalog).map(product => product.url)
+    ];
+
+    const ids = new Set<number>();
+    for (const url of urls) {
+      const identity = parseProductIdentity(url);
+      if (identity && identity.kind === 'product' && identity.region === SgpmIdProber.REGION) {
+        ids.add(parseInt(identity.id));
+      }
+    }
+    return ids;
+  }
+
+  private matchesKeywords(title?: string): boolean {
+    if (!title) {
+      return false;
+    }
+    const titleLower = title.toLowerCase();
+    return this.config.discovery.keywords.some(keyword => titleLower.includes(keyword.toLowerCase()));
+  }
+
+  /**
+   * 发送新ID提醒
+   * @returns 是否发送成功
+   */
+  private async notifyNewIds(records: ProbedProductId[]): Promise<boolean> {
+    const lines = records.map(record =>
+      `• #${record.id} ${record.title} (${record.status === 'live' ? '已上架' : '未上架'})\nhttps://www.popmart.com/${SgpmIdProber.REGION}/products/${record.id}`
+    );
+    const message = `🕵️ 探测到新的产品ID (${records.length})
+
+${lines.join('\n\n')}
+
+🕐 发现时间: ${new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Singapore' })}`;
+
+    try {
+      const delivered = await getNotifierRegistry(this.logger).notify({
+        event: 'sgpm_new_product',
+        title: `🕵️ 探测到新的产品ID (${records.length})`,
+        text: message,
+        fields: records.map(record => ({
+          name: `#${record.id} ${record.status === 'live' ? '已上架' : '未上架'}`,
+          value: `${record.title}\nhttps://www.popmart.com/${SgpmIdProber.REGION}/products/${record.id}`,
+          inline: false
+        })),
+        level: 'info',
+        timestamp: Date.now()
+      });
+      if (delivered.length === 0) {
+        return false;
+      }
+      this.logger.success('✅ 新ID提醒发送成功');
+      return true;
+    } catch (error) {
+      this.logger.error('❌ 新ID提醒发送失败:', error);
+      return false;
+    }
+  }
+}
@@ -1,23 +1,40 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import { logger } from '../utils/logger';
+import { PopMartApiInterceptor } from '../scrapers/PopMartApiInterceptor';
+import { SgpmConfig, StockDetectionSource, StockState, PopMartSkuInfo } from '../types';
+import { formatPopMartPrice } from '../utils/popMartPageData';
+import { detectSpecialStockState, stockStateFromBoolean, getStockStateLabel } from '../utils/stockState';
+import { sgpmConfig } from '../config-sgpm';
+import { SgpmStatusTracker, SgpmStockAlert, getSgpmStatusTracker } from './SgpmStatusTracker';
+import { SgpmAlertDispatcher } from './SgpmAlertDispatcher';
+import { buildProductAlertKeyboard } from '../utils/alertActions';
+import { buildStockAlertNotification } from '../notifiers/notifications';
+import { getMqttPublisher } from './MqttPublisher';
 
 interface ProductInfo {
   title: string;
   price: string | null;
   inStock: boolean;
+  stockState: StockState;
   buttonText: string;
+  source: StockDetectionSource;
+  skus?: PopMartSkuInfo[];
 }
 
 export class SgpmMonitorService {
   private browser: Browser | null = null;
   private page: Page | null = null; // 复用页面实例
-  private botToken: string;
-  private chatId: string;
   private sessionEstablished: boolean = false; // 会话状态
+  private apiInterceptor = new PopMartApiInterceptor(logger); // PopMart 接口响应拦截
+  private statusTracker: SgpmStatusTracker; // 状态持久化与提醒策略
+  private alertDispatcher: SgpmAlertDispatcher; // 静音、发送、升级跟踪与冷却
 
-  constructor(botToken?: string, chatId?: string) {
-    this.botToken = botToken || process.env.SGPM_BOT_TOKEN || '';
-    this.chatId = chatId || process.env.SGPM_CHAT_ID || '';
+  /**
+   * @param config - SGPM 配置（款式订阅和静音来自监控列表，见 getWatchlistSgpmConfig）
+   */
+  constructor(config: SgpmConfig = sgpmConfig) {
+    this.statusTracker = getSgpmStatusTracker(config, logger, config.variantSubscriptions);
+    this.alertDispatcher = new SgpmAlertDispatcher(this.statusTracker, config.mutedProducts, logger);
   }
 
   /**
@@ -428,7 +445,7 @@ export class SgpmMonitorService {
   /**
    * 检测库存状态
    */
-  private async detectStockStatus(page: Page): Promise<{ inStock: boolean; buttonText: string }> {
+  private async detectStockStatus(page: Page): Promise<{ inStock: boolean; stockState: StockState; buttonText: string }> {
     logger.info('🔍 开始检测库存状态...');
 
     // 等待页面完全稳定（优化）
@@ -520,7 +537,7 @@ export class SgpmMonitorService {
   /**
    * 备用按钮检测方法
    */
-  private async fallbackButtonDetection(page: Page): Promise<{ inStock: boolean; buttonText: string }> {
+  private async fallbackButtonDetection(page: Page): Promise<{ inStock: boolean; stockState: StockState; buttonText: string }> {
     logger.info('🔄 使用备用按钮检测方法...');
 
     try {
@@ -561,18 +578,49 @@ export class SgpmMonitorService {
         return this.judgeStockStatus(allButtonText);
       }
 
-      return { inStock: false, buttonText: '未找到任何按钮' };
+      return { inStock: false, stockState: StockState.UNKNOWN, buttonText: '未找到任何按钮' };
 
     } catch (error) {
       logger.error('❌ 备用按钮检测失败:', error);
-      return { inStock: false, buttonText: '检测失败' };
+      return { inStock: false, stockState: StockState.UNKNOWN, buttonText: '检测失败' };
+    }
+  }
+
+  /**
+   * 检测单盒 / 多盒购买按钮，作为款式库存
+   * POP NOW 与盲盒产品页分别提供 "Pick One to Shake" 和 "Buy Multiple Boxes" 两个按钮
+   */
+  private async detectButtonVariants(page: Page): Promise<PopMartSkuInfo[]> {
+    const variantButtons = [
+      { skuId: 'single', title: '单盒 (Pick One to Shake)', selector: 'button[class*="chooseRandomlyBtn"]' },
+      { skuId: 'multiple', title: '多盒 (Buy Multiple Boxes)', selector: 'button[class*="chooseMulitityBtn"]' }
+    ];
+
+    const variants: PopMartSkuInfo[] = [];
+    for (const { skuId, title, selector } of variantButtons) {
+      try {
+        const button = await page.$(selector);
+        if (!button) continue;
+
+        const { text, disabled } = await page.evaluate(el => ({
+          text: el.textContent?.trim() || '',
+          disabled: (el as HTMLButtonElement).disabled || el.className.includes('disabled')
+        }), button);
+
+        const textState = text ? detectSpecialStockState(text) : null;
+        variants.push({ skuId, title, inStock: !disabled && !textState });
+        logger.info(`🎯 款式按钮 ${title}: ${!disabled && !textState ? '可购买' : '不可购买'}`);
+      } catch (error) {
+        continue;
+      }
     }
+    return variants;
   }
 
   /**
    * 判断库存状态的通用方法
    */
-  private judgeStockStatus(buttonText: string): { inStock: boolean; buttonText: string } {
+  private judgeStockStatus(buttonText: string): { inStock: boolean; stockState: StockState; buttonText: string } {
     const buttonTextLower = buttonText.toLowerCase();
 
     // 有货关键词
@@ -584,15 +632,21 @@ export class SgpmMonitorService {
     // 缺货关键词
     const outOfStockKeywords = [
       'notify me when available', 'out of stock', 'sold out',
-      'in-app purchase only', 'unavailable', 'coming soon',
-      'this item is not available in your region'
+      'unavailable', 'coming soon'
     ];
 
+    // App专享、地区限制、预售优先识别
+    const specialState = detectSpecialStockState(buttonText);
+    if (specialState) {
+      logger.info(`🚫 检测到特殊库存状态: ${getStockStateLabel(specialState)}`);
+      return { inStock: false, stockState: specialState, buttonText };
+    }
+
     // 检查缺货关键词
     for (const keyword of outOfStockKeywords) {
       if (buttonTextLower.includes(keyword)) {
         logger.info(`❌ 检测到缺货: "${keyword}"`);
-        return { inStock: false, buttonText };
+        return { inStock: false, stockState: StockState.OUT_OF_STOCK, buttonText };
       }
     }
 
@@ -600,13 +654,13 @@ export class SgpmMonitorService {
     for (const keyword of inStockKeywords) {
       if (buttonTextLower.includes(keyword)) {
         logger.info(`✅ 检测到有货: "${keyword}"`);
-        return { inStock: true, buttonText };
+        return { inStock: true, stockState: StockState.IN_STOCK, buttonText };
       }
     }
 
     // 默认缺货
-    logger.info(`⚠️ 未匹配关键词，默认缺货: "${buttonText}"`);
-    return { inStock: false, buttonText };
+    logger.info(`❓ 未匹配关键词，库存状态未知: "${buttonText}"`);
+    return { inStock: false, stockState: StockState.UNKNOWN, buttonText };
   }
 
   /**
@@ -615,6 +669,28 @@ export class SgpmMonitorService {
   private async extractProductInfo(page: Page): Promise<ProductInfo> {
     logger.info('📊 开始提取产品信息...');
 
+    // 优先使用拦截到的 PopMart 接口数据，按钮检测仅作为兜底
+    const apiData = await this.apiInterceptor.waitForProductData(2000);
+    if (apiData) {
+      const price = apiData.price !== undefined ? formatPopMartPrice(apiData.price, apiData.currency) : null;
+      const availableSkus = apiData.skus.filter(sku => sku.inStock).map(sku => sku.title || sku.skuId);
+      const buttonText = apiData.inStock
+        ? `接口显示有货${availableSkus.length > 0 ? `: ${availableSkus.join(', ')}` : ''}`
+        : '接口显示缺货';
+
+      logger.info(`📊 产品信息提取完成(接口): ${apiData.title} | ${price || '未知'} | ${apiData.inStock ? '有货' : '缺货'}`);
+      return {
+        title: apiData.title,
+        price,
+        inStock: apiData.inStock,
+        stockState: stockStateFromBoolean(apiData.inStock),
+        buttonText,
+        source: 'api',
+        skus: apiData.skus
+      };
+    }
+    logger.info('ℹ️ 未拦截到产品接口数据，使用页面按钮检测');
+
     // 调试：输出页面HTML结构
     try {
       const htmlStructure = await page.evaluate(() => {
@@ -702,10 +778,19 @@ export class SgpmMonitorService {
     }
 
     // 检测库存状态
-    const { inStock, buttonText } = await this.detectStockStatus(page);
-
-    logger.info(`📊 产品信息提取完成: ${title} | ${price || '未知'} | ${inStock ? '有货' : '缺货'}`);
-    return { title, price, inStock, buttonText };
+    const { inStock, stockState, buttonText } = await this.detectStockStatus(page);
+    const variants = await this.detectButtonVariants(page);
+
+    logger.info(`📊 产品信息提取完成: ${title} | ${price || '未知'} | ${getStockStateLabel(stockState)}`);
+    return {
+      title,
+      price,
+      inStock,
+      stockState,
+      buttonText,
+      source: 'button',
+      skus: variants.length > 0 ? variants : undefined
+    };
   }
 
   /**
@@ -722,6 +807,9 @@ export class SgpmMonitorService {
 
       logger.info(`🌐 访问产品页面: ${url}`);
 
+      // 导航前挂载接口拦截器
+      this.apiInterceptor.attach(this.page!, url);
+
       // 导航到页面
       await this.page!.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
 
@@ -742,56 +830,51 @@ export class SgpmMonitorService {
       // 提取产品信息
       const productInfo = await this.extractProductInfo(this.page!);
 
-      logger.info(`📊 ${productInfo.title}: ${productInfo.inStock ? '✅ 有货' : '❌ 缺货'} | 价格: ${productInfo.price || '未知'}`);
+      logger.info(`📊 ${productInfo.title}: ${getStockStateLabel(productInfo.stockState)} | 价格: ${productInfo.price || '未知'} [${productInfo.source}]`);
 
       return { ...productInfo, url };
 
     } catch (error) {
       logger.error(`❌ 检查产品失败 ${url}:`, error);
       throw error;
+    } finally {
+      this.apiInterceptor.detach();
     }
   }
 
   /**
-   * 发送Telegram通知
+   * 发送库存提醒到已配置的通知渠道（静音的产品不发送）
+   * @returns 是否至少有一个渠道收到提醒
    */
-  async sendTelegramNotification(product: ProductInfo & { url: string }): Promise<void> {
-    if (!this.botToken || !this.chatId) {
-      logger.warn('⚠️ Telegram未配置，跳过通知');
-      return;
-    }
+  async sendNotification(product: ProductInfo & { url: string }, alert: SgpmStockAlert): Promise<boolean> {
+    const footer = alert.type === 'sold_out' ? '⌛ <b>下次补货时会再次提醒</b>' : '🚀 <b>快去抢购吧！</b>';
+    const variantLines = SgpmStatusTracker.formatAlertVariants(alert);
 
     // 优化的Telegram消息格式
-    const message = `🎉 <b>PopMart 有货提醒！</b>
+    const message = `<b>${SgpmStatusTracker.getAlertHeadline(alert)}</b>
 
 📦 <b>商品名称:</b> ${product.title}
-💰 <b>价格:</b> <code>${product.price || '未知'}</code>
-📊 <b>库存状态:</b> <i>${product.buttonText}</i>
-🔗 <b>商品链接:</b> <a href="${product.url}">立即购买</a>
+💰 <b>价格:</b> <code>${SgpmStatusTracker.formatAlertPrice(alert) || product.price || '未知'}</code>
+📊 <b>库存状态:</b> ${getStockStateLabel(product.stockState)} <i>${product.buttonText}</i>
+${variantLines ? `🎯 <b>有货款式:</b>\n${variantLines}\n` : ''}🔗 <b>商品链接:</b> <a href="${product.url}">立即购买</a>
 ⏰ <b>检测时间:</b> ${new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })}
 
-🚀 <b>快去抢购吧！</b>`;
+${footer}`;
 
     try {
-      const response = await fetch(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: this.chatId,
-          text: message,
-          parse_mode: 'HTML',
-          disable_web_page_preview: false
-        })
-      });
-
-      if (response.ok) {
-        logger.info('📱 Telegram通知发送成功');
-      } else {
-        logger.error('❌ Telegram通知发送失败:', await response.text());
+      const sent = await this.alertDispatcher.dispatch(alert, buildStockAlertNotification(alert, message, {
+        stockState: product.stockState,
+        availability: product.buttonText,
+        telegram: { replyMarkup: buildProductAlertKeyboard(product.url) }
+      }));
+      if (sent) {
+        logger.info(`📱 通知发送成功 (${alert.type})`);
       }
+      return sent;
     } catch (error) {
-      logger.error('❌ Telegram通知发送错误:', error);
+      logger.error('❌ 通知发送错误:', error);
     }
+    return false;
   }
 
   /**
@@ -807,9 +890,23 @@ export class SgpmMonitorService {
       try {
         const productInfo = await this.checkProduct(url);
 
-        // 如果有货，发送通知
-        if (productInfo.inStock) {
-          await this.sendTelegramNotification(productInfo);
+        // 只在库存变化（或持续有货提醒到期）时发送通知
+        const alert = this.statusTracker.record({
+          url,
+          title: productInfo.title,
+          stockState: productInfo.stockState,
+          price: productInfo.price || undefined,
+          availability: productInfo.buttonText,
+          variants: productInfo.skus,
+          detectionSource: productInfo.source
+        });
+        const mqtt = getMqttPublisher(logger);
+        mqtt.publishProductState({ url, title: productInfo.title, stockState: productInfo.stockState, price: productInfo.price || undefined });
+        if (alert) {
+          mqtt.publishProductEvent(alert);
+        }
+        if (alert) {
+          await this.sendNotification(productInfo, alert);
         }
 
         // 优化：大幅减少产品间延迟
@@ -819,6 +916,7 @@ export class SgpmMonitorService {
 
       } catch (error) {
         logger.error(`❌ 检查产品失败 ${url}:`, error);
+        this.statusTracker.recordFailure(url, url, error instanceof Error ? error.message : String(error));
         // 错误时也要短暂延迟，避免过快重试
         if (i < urls.length - 1) {
           await this.delay(300); // 减少错误延迟
@@ -826,6 +924,7 @@ export class SgpmMonitorService {
       }
     }
 
+    this.statusTracker.save();
     logger.info('✅ 高效监控完成');
   }
 }
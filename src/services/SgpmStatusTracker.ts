@@ -0,0 +1,557 @@
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { formatDuration } from '../utils/helpers';
+import path from 'path';
+import { StockState, StockDetectionSource, SgpmAlertSettings, SgpmConfig, SgpmProductStatus, SgpmStatusFile, SgpmStatusRecord, SgpmVariantStatus, PopMartSkuInfo, PriceInfo, PriceHistoryEntry, SgpmEventType } from '../types';
+import { resolveStockState, isStockChange, getStockStateLabel, stockStateFromBoolean } from '../utils/stockState';
+import { formatPopMartPrice } from '../utils/popMartPageData';
+import { getProductKey, parseProductIdentity } from '../utils/productIdentity';
+import { SgpmEventLog } from '../utils/eventLog';
+import { metrics } from '../utils/metrics';
+import { parseMoney, formatMoney, getPriceInfoFromSkus, isSamePrice, getPriceDropPercent } from '../utils/money';
+import { SGPM_STATUS_SCHEMA_VERSION, createEmptySgpmStatus, migrateSgpmStatus } from '../utils/sgpmStatusMigration';
+
+/**
+ * 库存提醒类型
+ * - back_in_stock: 缺货 → 有货
+ * - sold_out: 有货 → 缺货（补货提醒之后的跟进消息）
+ * - still_in_stock: 持续有货的定期提醒
+ * - price_drop: 降价达到配置的百分比
+ * - sale_started: 出现促销价（原价 → 折扣价）
+ */
+export type SgpmAlertType = 'back_in_stock' | 'sold_out' | 'still_in_stock' | 'price_drop' | 'sale_started';
+
+/**
+ * 单次检查中需要记录的产品信息
+ */
+export interface SgpmTrackedResult {
+  url: string;
+  title: string;
+  stockState: StockState;
+  price?: string;
+  priceInfo?: PriceInfo; // 结构化价格，未提供时从款式明细或价格文本解析
+  availability?: string;
+  variants?: PopMartSkuInfo[]; // 款式明细（SKU / 盲盒 / 单盒整套）
+  detectionSource?: StockDetectionSource;
+}
+
+/**
+ * 两次检查之间的价格变化
+ */
+export interface SgpmPriceChange {
+  previous: PriceInfo;
+  current: PriceInfo;
+  dropPercent: number | null; // 降价百分比（涨价为负数），币种不同时为 null
+  saleStarted: boolean; // 本次出现了促销价
+}
+
+/**
+ * 提醒中列出的款式
+ */
+export interface SgpmAlertVariant {
+  id: string;
+  title: string;
+  price?: string;
+}
+
+/**
+ * 需要发送的库存提醒
+ */
+export interface SgpmStockAlert {
+  type: SgpmAlertType;
+  url: string;
+  title: string;
+  stockState: StockState;
+  previousState?: StockState;
+  price?: string;
+  availability?: string;
+  inStockDuration?: number; // 有货持续时长（毫秒）
+  variants?: SgpmAlertVariant[]; // 变为有货（或仍有货）的款式
+  priceChange?: SgpmPriceChange;
+}
+
+/**
+ * SGPM 产品状态跟踪器
+ *
+ * 负责持久化产品状态，并根据状态变化决定是否需要提醒：
+ * 只在库存变化时提醒，同一产品的补货提醒受冷却时间限制，持续有货时按间隔再次提醒。
+ * 状态以规范化产品键保存，同一产品的不同URL共用一条记录。
+ * 库存变化、价格变化和检查失败会追加写入事件日志。
+ */
+export class SgpmStatusTracker {
+  private logger: LoggerInstance;
+  private statusManager: StatusManager<SgpmStatusFile>;
+  private settings: SgpmAlertSettings;
+  private variantSubscriptions: Record<string, string[]>;
+  private eventLog?: SgpmEventLog;
+
+  constructor(
+    statusFile: string,
+    logger: LoggerInstance,
+    settings: SgpmAlertSettings,
+    variantSubscriptions: Record<string, string[]> = {},
+    eventLog?: SgpmEventLog
+  ) {
+    this.logger = logger;
+    this.eventLog = eventLog;
+    this.settings = settings;
+    this.variantSubscriptions = {};
+    this.setVariantSubscriptions(variantSubscriptions);
+    this.statusManager = new StatusManager<SgpmStatusFile>(statusFile, logger, createEmptySgpmStatus(), {
+      version: SGPM_STATUS_SCHEMA_VERSION,
+      migrate: migrateSgpmStatus
+    });
+  }
+
+  /**
+   * 更新提醒设置
+   */
+  setAlertSettings(settings: SgpmAlertSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * 更新款式订阅（产品URL → 款式）
+   */
+  setVariantSubscriptions(variantSubscriptions: Record<string, string[]>): void {
+    this.variantSubscriptions = {};
+    for (const [url, variants] of Object.entries(variantSubscriptions)) {
+      this.variantSubscriptions[getProductKey(url)] = variants;
+    }
+  }
+
+  /**
+   * 记录一次检查结果，返回需要发送的提醒（无需提醒时返回 null）
+   */
+  record(result: SgpmTrackedResult, now: number = Date.now()): SgpmStockAlert | null {
+    const { url, title, price, availability } = result;
+    const key = getProductKey(url);
+
+    metrics.sgpmChecks.inc({ product: key, state: result.stockState });
+    if (result.detectionSource) {
+      metrics.sgpmDetections.inc({ source: result.detectionSource });
+    }
+
+    // 未知状态不覆盖上次的已知状态
+    if (result.stockState === StockState.UNKNOWN) {
+      this.logger.warn(`❓ ${title}: 库存状态未知，保留上次状态`);
+      return null;
+    }
+
+    const currentStatus = this.getStatus();
+    const previous: SgpmProductStatus | undefined = currentStatus[key];
+
+    // 有款式订阅时，产品状态只由订阅的款式决定
+    const trackedVariants = this.getTrackedVariants(key, title, result.variants);
+    let stockState = result.stockState;
+    if (trackedVariants && trackedVariants.length > 0) {
+      const anyInStock = trackedVariants.some(variant => variant.inStock);
+      stockState = anyInStock
+        ? StockState.IN_STOCK
+        : (stockState === StockState.IN_STOCK ? StockState.OUT_OF_STOCK : stockState);
+    }
+
+    const priceInfo = result.priceInfo || this.resolvePriceInfo(result);
+    const priceChange = previous?.priceInfo && priceInfo && !isSamePrice(previous.priceInfo, priceInfo)
+      ? this.buildPriceChange(previous.priceInfo, priceInfo)
+      : undefined;
+
+    const previousState = previous ? resolveStockState(previous) : undefined;
+    const changed = isStockChange(previousState, stockState);
+    const isInStock = stockState === StockState.IN_STOCK;
+    const wasInStock = previousState === StockState.IN_STOCK;
+
+    const next: SgpmProductStatus = {
+      ...previous,
+      title,
+      url,
+      inStock: isInStock,
+      stockState,
+      lastChecked: now,
+      price,
+      priceInfo: priceInfo || previous?.priceInfo,
+      priceHistory: this.appendPriceHistory(previous, priceInfo, now),
+      availability,
+      variants: result.variants ? this.buildVariantStatuses(result.variants, now) : previous?.variants
+    };
+
+    // 新变为有货的款式（之前没有款式记录时，所有有货款式都算新的）
+    const availableVariants = (trackedVariants || []).filter(variant => variant.inStock);
+    const newlyAvailable = availableVariants.filter(variant =>
+      previous?.variants?.[variant.skuId]?.stockState !== StockState.IN_STOCK
+    );
+
+    let alert: SgpmStockAlert | null = null;
+
+    if (changed) {
+      this.logger.info(`🔄 状态变化: ${title} ${previousState ? getStockStateLabel(previousState) : '无记录'} → ${getStockStateLabel(stockState)}`);
+      this.eventLog?.append({
+        ...this.eventBase(key, url, title, now, 'stock_change'),
+        oldState: previousState,
+        newState: stockState,
+        detectionSource: result.detectionSource
+      });
+    }
+
+    if (isInStock && !wasInStock) {
+      next.inStockSince = now;
+      if (this.isCoolingDown(previous, now)) {
+        this.logger.info(`⏳ ${title}: 补货提醒冷却中，跳过`);
+      } else {
+        alert = {
+          type: 'back_in_stock', url, title, stockState, previousState, price, availability,
+          variants: this.toAlertVariants(availableVariants)
+        };
+      }
+    } else if (isInStock && wasInStock) {
+      if (previous?.variants && newlyAvailable.length > 0 && !this.isCoolingDown(previous, now)) {
+        // 产品已有货，但又有新的款式补货
+        this.logger.info(`🔄 ${title}: 新款式有货 ${newlyAvailable.map(variant => variant.title || variant.skuId).join(', ')}`);
+        alert = {
+          type: 'back_in_stock', url, title, stockState, previousState, price, availability,
+          variants: this.toAlertVariants(newlyAvailable)
+        };
+      } else if (this.isReminderDue(previous!, now)) {
+        alert = {
+          type: 'still_in_stock', url, title, stockState, previousState, price, availability,
+          inStockDuration: previous!.inStockSince ? now - previous!.inStockSince : undefined,
+          variants: this.toAlertVariants(availableVariants)
+        };
+      }
+    } else if (!isInStock && wasInStock) {
+      const inStockSince = previous!.inStockSince;
+      next.inStockSince = undefined;
+      // 只有本轮有货期间发过补货提醒，才发送售罄跟进
+      const notifiedThisRun = !!(previous!.lastNotifiedAt && inStockSince && previous!.lastNotifiedAt >= inStockSince);
+      if (this.settings.notifySoldOut && notifiedThisRun) {
+        alert = {
+          type: 'sold_out', url, title, stockState, previousState, price, availability,
+          inStockDuration: inStockSince ? now - inStockSince : undefined
+        };
+      }
+    }
+
+    if (priceChange) {
+      this.logger.info(`💲 价格变化: ${title} ${SgpmStatusTracker.formatPriceChange(priceChange)}`);
+      this.eventLog?.append({
+        ...this.eventBase(key, url, title, now, 'price_change'),
+        oldPrice: formatMoney(priceChange.previous.current),
+        newPrice: formatMoney(priceChange.current.current),
+        detectionSource: result.detectionSource
+      });
+      if (alert) {
+        alert.priceChange = priceChange;
+      } else if (this.isPriceAlertDue(priceChange)) {
+        alert = {
+          type: priceChange.saleStarted ? 'sale_started' : 'price_drop',
+          url, title, stockState, previousState, price, availability, priceChange
+        };
+      }
+    }
+
+    currentStatus[key] = next;
+    this.setStatus(currentStatus);
+    return alert;
+  }
+
+  /**
+   * 记录一次检查失败（只写入事件日志，不改变状态）
+   */
+  recordFailure(url: string, title: string, error: string, now: number = Date.now()): void {
+    metrics.sgpmChecks.inc({ product: getProductKey(url), state: 'error' });
+    this.eventLog?.append({
+      ...this.eventBase(getProductKey(url), url, title, now, 'check_failed'),
+      error
+    });
+  }
+
+  /**
+   * 标记提醒已发送
+   * 价格提醒不计入库存提醒的冷却时间
+   */
+  markNotified(alert: SgpmStockAlert, now: number = Date.now()): void {
+    if (alert.type === 'price_drop' || alert.type === 'sale_started') {
+      return;
+    }
+
+    const key = getProductKey(alert.url);
+    const currentStatus = this.getStatus();
+    if (currentStatus[key]) {
+      currentStatus[key].lastNotifiedAt = now;
+      this.setStatus(currentStatus);
+    }
+  }
+
+  /**
+   * 确认本次有货，之后不再发送"仍有库存"提醒（下次补货时自动失效）
+   * @returns 产品没有状态记录时返回 false
+   */
+  acknowledge(url: string, now: number = Date.now()): boolean {
+    const key = getProductKey(url);
+    const currentStatus = this.getStatus();
+    if (!currentStatus[key]) {
+      return false;
+    }
+    currentStatus[key] = { ...currentStatus[key], acknowledgedAt: now };
+    this.setStatus(currentStatus);
+    return true;
+  }
+
+  /**
+   * 设置单个产品的提醒参数（写入状态记录），值为 undefined 的字段恢复为默认配置
+   * @returns 产品没有状态记录时返回 false
+   */
+  setProductAlertSettings(url: string, settings: Pick<SgpmProductStatus, 'cooldownMinutes' | 'reminderIntervalMinutes'>): boolean {
+    const key = getProductKey(url);
+    const currentStatus = this.getStatus();
+    if (!currentStatus[key]) {
+      return false;
+    }
+    currentStatus[key] = { ...currentStatus[key], ...settings };
+    this.setStatus(currentStatus);
+    return true;
+  }
+
+  /**
+   * 获取当前状态记录（以规范化产品键为键）
+   */
+  getStatus(): SgpmStatusRecord {
+    // 命令行工具（如 watchlist alerts）可能在常驻进程运行时修改状态文件
+    this.statusManager.reloadIfChanged();
+    return this.statusManager.get().products;
+  }
+
+  /**
+   * 获取单个产品的状态记录
+   */
+  getProductStatus(url: string): SgpmProductStatus | undefined {
+    return this.getStatus()[getProductKey(url)];
+  }
+
+  /**
+   * 立即保存状态
+   */
+  save(): void {
+    this.statusManager.save();
+  }
+
+  /**
+   * 只读读取状态文件中的产品记录（不迁移写回、不注册退出保存）
+   */
+  static readStatus(statusFile: string, logger: LoggerInstance): SgpmStatusRecord {
+    return StatusManager.read<SgpmStatusFile>(statusFile, logger, createEmptySgpmStatus(), {
+      version: SGPM_STATUS_SCHEMA_VERSION,
+      migrate: migrateSgpmStatus
+    }).products;
+  }
+
+  /**
+   * 提醒标题
+   */
+  static getAlertHeadline(alert: SgpmStockAlert): string {
+    switch (alert.type) {
+      case 'back_in_stock':
+        return '🎉 补货提醒：商品有货！';
+      case 'still_in_stock':
+        return `🔔 仍有库存${alert.inStockDuration !== undefined ? `（已持续 ${formatDuration(alert.inStockDuration)}）` : ''}`;
+      case 'sold_out':
+        return `😢 再次售罄${alert.inStockDuration !== undefined ? `（有货 ${formatDuration(alert.inStockDuration)} 后）` : ''}`;
+      case 'price_drop':
+        return `💸 降价提醒${alert.priceChange?.dropPercent ? `：价格下降 ${alert.priceChange.dropPercent.toFixed(1)}%` : ''}`;
+      case 'sale_started':
+        return '🏷️ 促销提醒：商品开始打折';
+    }
+  }
+
+  /**
+   * 提醒中的价格文本：有价格变化时显示 "S$37.90 → S$29.90"
+   */
+  static formatAlertPrice(alert: SgpmStockAlert): string | undefined {
+    return alert.priceChange ? SgpmStatusTracker.formatPriceChange(alert.priceChange) : alert.price;
+  }
+
+  /**
+   * 价格变化文本，如 "S$37.90 → S$29.90 (-21.1%)"
+   */
+  static formatPriceChange(change: SgpmPriceChange): string {
+    const percent = change.dropPercent !== null && Math.abs(change.dropPercent) >= 0.05
+      ? ` (${change.dropPercent > 0 ? '-' : '+'}${Math.abs(change.dropPercent).toFixed(1)}%)`
+      : '';
+    const original = change.current.original ? `，原价 ${formatMoney(change.current.original)}` : '';
+    return `${formatMoney(change.previous.current)} → ${formatMoney(change.current.current)}${percent}${original}`;
+  }
+
+  /**
+   * 提醒中的款式列表文本
+   */
+  static formatAlertVariants(alert: SgpmStockAlert): string {
+    if (!alert.variants || alert.variants.length === 0) {
+      return '';
+    }
+    return alert.variants
+      .map(variant => `• ${variant.title || variant.id}${variant.price ? ` (${variant.price})` : ''}`)
+      .join('\n');
+  }
+
+  /**
+   * 获取参与判断的款式：有订阅时只返回订阅的款式
+   */
+  private getTrackedVariants(key: string, title: string, variants?: PopMartSkuInfo[]): PopMartSkuInfo[] | undefined {
+    if (!variants || variants.length === 0) {
+      return undefined;
+    }
+
+    const subscription = this.variantSubscriptions[key];
+    if (!subscription || subscription.length === 0) {
+      return variants;
+    }
+
+    const matched = variants.filter(variant => subscription.some(target =>
+      variant.skuId === target || (variant.title && variant.title.toLowerCase().includes(target.toLowerCase()))
+    ));
+    if (matched.length === 0) {
+      this.logger.warn(`⚠️ ${title}: 订阅的款式 [${subscription.join(', ')}] 未在页面数据中找到`);
+      return undefined;
+    }
+    return matched;
+  }
+
+  private setStatus(products: SgpmStatusRecord): void {
+    this.statusManager.set({ schemaVersion: SGPM_STATUS_SCHEMA_VERSION, products });
+  }
+
+  /**
+   * 款式明细转换为持久化的款式状态
+   */
+  private buildVariantStatuses(variants: PopMartSkuInfo[], now: number): Record<string, SgpmVariantStatus> {
+    const statuses: Record<string, SgpmVariantStatus> = {};
+    for (const variant of variants) {
+      statuses[variant.skuId] = {
+        title: variant.title,
+        stockState: stockStateFromBoolean(variant.inStock),
+        price: variant.price !== undefined ? formatPopMartPrice(variant.price, variant.currency) : undefined,
+        lastChecked: now
+      };
+    }
+    return statuses;
+  }
+
+  private toAlertVariants(variants: PopMartSkuInfo[]): SgpmAlertVariant[] | undefined {
+    if (variants.length === 0) {
+      return undefined;
+    }
+    return variants.map(variant => ({
+      id: variant.skuId,
+      title: variant.title,
+      price: variant.price !== undefined ? formatPopMartPrice(variant.price, variant.currency) : undefined
+    }));
+  }
+
+  private eventBase(key: string, url: string, title: string, at: number, type: SgpmEventType) {
+    return { at, type, productKey: key, productId: parseProductIdentity(url)?.id, url, title };
+  }
+
+  /**
+   * 解析本次检查的价格：优先使用款式明细中的数值价格，其次解析价格文本
+   */
+  private resolvePriceInfo(result: SgpmTrackedResult): PriceInfo | undefined {
+    const fromSkus = result.variants ? getPriceInfoFromSkus(result.variants) : undefined;
+    if (fromSkus) {
+      return fromSkus;
+    }
+    const current = result.price ? parseMoney(result.price) : null;
+    return current ? { current } : undefined;
+  }
+
+  private buildPriceChange(previous: PriceInfo, current: PriceInfo): SgpmPriceChange {
+    return {
+      previous,
+      current,
+      dropPercent: getPriceDropPercent(previous.current, current.current),
+      saleStarted: !previous.original && !!current.original
+    };
+  }
+
+  /**
+   * 价格与上一条历史记录不同时追加一条记录
+   */
+  private appendPriceHistory(previous: SgpmProductStatus | undefined, priceInfo: PriceInfo | undefined, now: number): PriceHistoryEntry[] | undefined {
+    const history = previous?.priceHistory || [];
+    if (!priceInfo) {
+      return previous?.priceHistory;
+    }
+
+    const last = history[history.length - 1];
+    if (last && isSamePrice(last, priceInfo)) {
+      return history;
+    }
+    return [...history, { at: now, ...priceInfo }];
+  }
+
+  /**
+   * 价格变化是否需要单独提醒：出现促销价，或降价达到配置的百分比
+   */
+  private isPriceAlertDue(change: SgpmPriceChange): boolean {
+    if (change.saleStarted) {
+      return true;
+    }
+    return this.settings.priceDropPercent > 0
+      && change.dropPercent !== null
+      && change.dropPercent >= this.settings.priceDropPercent;
+  }
+
+  /**
+   * 是否处于补货提醒冷却期
+   */
+  private isCoolingDown(previous: SgpmProductStatus | undefined, now: number): boolean {
+    if (!previous?.lastNotifiedAt) {
+      return false;
+    }
+    const cooldownMinutes = previous.cooldownMinutes ?? this.settings.cooldownMinutes;
+    return now - previous.lastNotifiedAt < cooldownMinutes * 60 * 1000;
+  }
+
+  /**
+   * 是否需要发送"仍有库存"提醒
+   */
+  private isReminderDue(previous: SgpmProductStatus, now: number): boolean {
+    const intervalMinutes = previous.reminderIntervalMinutes ?? this.settings.reminderIntervalMinutes;
+    if (intervalMinutes <= 0) {
+      return false;
+    }
+    if (previous.acknowledgedAt && previous.inStockSince && previous.acknowledgedAt >= previous.inStockSince) {
+      return false;
+    }
+    const lastNotified = previous.lastNotifiedAt || previous.inStockSince || previous.lastChecked;
+    return now - lastNotified >= intervalMinutes * 60 * 1000;
+  }
+}
+
+/**
+ * 全局状态跟踪器实例（按状态文件）
+ */
+const globalStatusTrackers = new Map<string, SgpmStatusTracker>();
+
+/**
+ * 获取状态文件对应的全局状态跟踪器
+ *
+ * 同一进程中读写同一状态文件的服务共用一个实例，避免各自保存过期的内存副本互相覆盖。
+ * 每次获取时更新提醒设置；传入款式订阅时一并更新（监控列表可能在运行中修改）。
+ */
+export function getSgpmStatusTracker(
+  config: SgpmConfig,
+  logger: LoggerInstance,
+  variantSubscriptions?: Record<string, string[]>
+): SgpmStatusTracker {
+  const key = path.resolve(config.statusFile);
+  let tracker = globalStatusTrackers.get(key);
+  if (!tracker) {
+    tracker = new SgpmStatusTracker(config.statusFile, logger, config.alerts, {}, new SgpmEventLog(config.eventLogFile, logger));
+    globalStatusTrackers.set(key, tracker);
+  }
+  tracker.setAlertSettings(config.alerts);
+  if (variantSubscriptions) {
+    tracker.setVariantSubscriptions(variantSubscriptions);
+  }
+  return tracker;
+}
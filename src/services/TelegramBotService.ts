@@ -0,0 +1,489 @@
+import { LoggerInstance } from '../utils/logger';
+import { callTelegramApi } from '../utils/sendTelegramMessage';
+import { delay, parseDuration } from '../utils/helpers';
+import { getStockStateLabel } from '../utils/stockState';
+import { getProductKey } from '../utils/productIdentity';
+import { AlertCallback, parseAlertCallback } from '../utils/alertActions';
+import { getWatchlistManager } from './WatchlistManager';
+import { getXhsKeywordManager } from './XhsKeywordManager';
+import { DashboardService } from './DashboardService';
+import { getSgpmStatusTracker } from './SgpmStatusTracker';
+import { sgpmConfig } from '../config-sgpm';
+import { xhsConfig } from '../config';
+import { ProductCheckResult, TelegramBotConfig, TelegramBotRole, TelegramReplyMarkup, WatchlistEntry } from '../types';
+
+interface TelegramUser {
+  id: number;
+  username?: string;
+  first_name?: string;
+}
+
+interface TelegramMessage {
+  message_id: number;
+  date: number; // 秒
+  text?: string;
+  entities?: unknown[]; // 格式信息，编辑消息时原样传回以保留 HTML 格式
+  reply_markup?: TelegramReplyMarkup;
+  chat: { id: number };
+  from?: TelegramUser;
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+/**
+ * 需要与定时 SGPM 任务互斥执行的产品操作（由常驻进程提供）
+ */
+export interface SgpmProductActions {
+  checkProductNow: (url: string) => Promise<ProductCheckResult>;
+}
+
+interface BotCommand {
+  role: TelegramBotRole; // 最低权限
+  usage: string;
+  description: string;
+  run: (args: string[], role: TelegramBotRole) => string | Promise<string>;
+}
+
+// getUpdates 失败后的等待时间
+const RETRY_DELAY = 5 * 1000;
+// Telegram 单条消息长度上限
+const MAX_MESSAGE_LENGTH = 4096;
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Telegram 命令机器人
+ *
+ * 通过 getUpdates 长轮询接收命令，只处理白名单中的聊天或用户发来的消息：
+ * - viewer: /status、/keywords、/help
+ * - admin: 另外可用 /watch、/unwatch、/check、/mute
+ * 启动前积压的命令会被忽略，避免重启后执行过期的修改。
+ *
+ * 同时处理提醒消息上的按钮（见 alertActions.ts）：静音、确认、重新检查，
+ * 操作结果追加到原消息末尾，注明操作人。确认对 viewer 开放，其他按钮需要 admin。
+ * 命令和按钮不排队等待，立即检查等耗时操作不会阻塞之后收到的命令。
+ */
+export class TelegramBotService {
+  private config: TelegramBotConfig;
+  private logger: LoggerInstance;
+  private actions: SgpmProductActions;
+  private commands: Map<string, BotCommand> = new Map();
+  private dashboard: DashboardService;
+  private running: boolean = false;
+  private offset: number = 0;
+  private startedAt: number = 0;
+  private handling: Set<Promise<void>> = new Set();
+
+  constructor(config: TelegramBotConfig, logger: LoggerInstance, actions: SgpmProductActions) {
+    this.config = config;
+    this.logger = logger;
+    this.actions = actions;
+    this.dashboard = new DashboardService(sgpmConfig, xhsConfig, logger);
+    this.registerCommands();
+  }
+
+  /**
+   * 开始接收命令
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.startedAt = Math.floor(Date.now() / 1000);
+    this.pollLoop();
+    this.logger.info(`🤖 Telegram 命令已启用（管理员 ${this.config.adminIds.length} 个，只读 ${this.config.viewerIds.length} 个）`);
+  }
+
+  /**
+   * 停止接收命令，等待正在处理的命令完成
+   * 进行中的长轮询请求不会被中断，其返回的命令不再处理
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    await Promise.all(this.handling);
+    this.logger.info('🤖 Telegram 命令已停止');
+  }
+
+  private registerCommands(): void {
+    const watchlist = getWatchlistManager(this.logger);
+
+    this.commands.set('help', {
+      role: 'viewer',
+      usage: '/help',
+      description: '查看可用命令',
+      run: (_args, role) => [...this.commands.values()]
+        .filter(command => role === 'admin' || command.role === 'viewer')
+        .map(command => `${command.usage} - ${command.description}`)
+        .join('\n')
+    });
+
+    this.commands.set('status', {
+      role: 'viewer',
+      usage: '/status',
+      description: '监控产品及当前库存状态',
+      run: () => this.formatStatus()
+    });
+
+    this.commands.set('keywords', {
+      role: 'viewer',
+      usage: '/keywords',
+      description: '小红书搜索词与匹配关键词',
+      run: () => {
+        const { searchKeywords, matchKeywords } = getXhsKeywordManager(this.logger).get();
+        return `🔍 搜索词: ${searchKeywords.join(', ')}\n🎯 匹配关键词（标题包含任一即推送，不区分大小写）: ${matchKeywords.join(', ')}`;
+      }
+    });
+
+    this.commands.set('watch', {
+      role: 'admin',
+      usage: '/watch <url> [名称]',
+      description: '添加监控产品',
+      run: (args) => {
+        if (args.length === 0) {
+          throw new Error('用法: /watch <url> [名称]');
+        }
+        const entry = watchlist.add(args[0], { label: args.slice(1).join(' ') || undefined });
+        watchlist.save();
+        return `➕ 已添加: ${entry.label || entry.url}\n🔑 ${getProductKey(entry.url)}`;
+      }
+    });
+
+    this.commands.set('unwatch', {
+      role: 'admin',
+      usage: '/unwatch <序号|产品键|url>',
+      description: '删除监控产品',
+      run: (args) => {
+        const entry = watchlist.remove(this.requireEntry(args[0], '/unwatch <序号|产品键|url>').url);
+        watchlist.save();
+        return `➖ 已删除: ${entry.label || entry.url}`;
+      }
+    });
+
+    this.commands.set('check', {
+      role: 'admin',
+      usage: '/check <序号|产品键|url>',
+      description: '立即检查库存',
+      run: async (args) => {
+        const entry = this.requireEntry(args[0], '/check <序号|产品键|url>');
+        const result = await this.actions.checkProductNow(entry.url);
+        if (result.error) {
+          return `❌ 检查失败: ${entry.label || entry.url}\n${result.error}`;
+        }
+        return [
+          `📦 ${result.title}`,
+          `📊 状态: ${getStockStateLabel(result.stockState)}`,
+          `💰 价格: ${result.price || '未知'}`,
+          `🔗 ${result.url}`
+        ].join('\n');
+      }
+    });
+
+    this.commands.set('mute', {
+      role: 'admin',
+      usage: '/mute <序号|产品键|url> <30m|2h|1d|off>',
+      description: '静音产品提醒（off 取消静音）',
+      run: (args) => {
+        const usage = '/mute <序号|产品键|url> <30m|2h|1d|off>';
+        const entry = this.requireEntry(args[0], usage);
+        if (args[1]?.toLowerCase() === 'off') {
+          watchlist.setMutedUntil(entry.url, undefined);
+          watchlist.save();
+          return `🔔 已取消静音: ${entry.label || entry.url}`;
+        }
+
+        const duration = args[1] ? parseDuration(args[1]) : null;
+        if (!duration) {
+          throw new Error(`用法: ${usage}`);
+        }
+        const mutedUntil = Date.now() + duration;
+        watchlist.setMutedUntil(entry.url, mutedUntil);
+        watchlist.save();
+        return `🔕 已静音: ${entry.label || entry.url}\n⏰ 至 ${this.formatTime(mutedUntil)} (新加坡时间)`;
+      }
+    });
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (this.running) {
+      try {
+        const updates = await callTelegramApi<TelegramUpdate[]>('getUpdates', {
+          offset: this.offset,
+          timeout: this.config.pollTimeout,
+          allowed_updates: ['message', 'callback_query']
+        }, (this.config.pollTimeout + 10) * 1000);
+
+        for (const update of updates) {
+          if (!this.running) {
+            break;
+          }
+          this.offset = update.update_id + 1;
+          if (update.message) {
+            this.trackHandling(this.handleMessage(update.message));
+          } else if (update.callback_query) {
+            this.trackHandling(this.handleCallback(update.callback_query));
+          }
+        }
+      } catch (error) {
+        if (!this.running) {
+          break;
+        }
+        this.logger.warn('⚠️ 获取 Telegram 命令失败，稍后重试:', error);
+        await delay(RETRY_DELAY);
+      }
+    }
+  }
+
+  /**
+   * 记录处理中的命令，停止时等待它们完成
+   */
+  private trackHandling(handling: Promise<void>): void {
+    const tracked: Promise<void> = handling
+      .catch(error => this.logger.error('❌ 处理 Telegram 更新失败:', error))
+      .finally(() => this.handling.delete(tracked));
+    this.handling.add(tracked);
+  }
+
+  private async handleMessage(message: TelegramMessage): Promise<void> {
+    const text = message.text?.trim();
+    if (!text || !text.startsWith('/') || message.date < this.startedAt) {
+      return;
+    }
+
+    const [rawCommand, ...args] = text.split(/\s+/);
+    const name = rawCommand.slice(1).split('@')[0].toLowerCase();
+
+    const role = this.getRole(message.chat.id, message.from?.id);
+    if (!role) {
+      this.logger.warn(`🚫 忽略未授权的 Telegram 命令: /${name} (chat ${message.chat.id}, user ${message.from?.id ?? '-'})`);
+      return;
+    }
+
+    this.logger.info(`🤖 收到 Telegram 命令: /${name} (${role}${message.from?.username ? ` @${message.from.username}` : ''})`);
+
+    let reply: string;
+    const command = this.commands.get(name);
+    if (!command) {
+      reply = `未知命令: /${name}\n发送 /help 查看可用命令`;
+    } else if (command.role === 'admin' && role !== 'admin') {
+      reply = '🚫 该命令需要管理员权限';
+    } else {
+      try {
+        reply = await command.run(args, role);
+      } catch (error) {
+        reply = `❌ ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    try {
+      await this.sendReply(message.chat.id, reply);
+    } catch (error) {
+      this.logger.error('❌ 回复 Telegram 命令失败:', error);
+    }
+  }
+
+  private async handleCallback(query: TelegramCallbackQuery): Promise<void> {
+    const role = this.getRole(query.message?.chat.id, query.from.id);
+    if (!role) {
+      this.logger.warn(`🚫 忽略未授权的按钮操作: ${query.data} (user ${query.from.id})`);
+      await this.answerCallback(query.id, '🚫 未授权');
+      return;
+    }
+
+    const callback = query.data ? parseAlertCallback(query.data) : null;
+    if (!callback) {
+      await this.answerCallback(query.id, '未知操作');
+      return;
+    }
+    if (callback.action !== 'ack' && role !== 'admin') {
+      await this.answerCallback(query.id, '🚫 该操作需要管理员权限');
+      return;
+    }
+
+    this.logger.info(`🤖 收到按钮操作: ${query.data} (${role} ${this.formatUser(query.from)})`);
+
+    // 重新检查耗时较长，先响应按钮，避免客户端一直显示加载中
+    const answered = callback.action === 'recheck';
+    if (answered) {
+      await this.answerCallback(query.id, '🔍 正在检查...');
+    }
+
+    let note: string;
+    try {
+      note = await this.applyAlertAction(callback);
+    } catch (error) {
+      const message = `❌ ${error instanceof Error ? error.message : String(error)}`;
+      if (answered) {
+        note = message;
+      } else {
+        await this.answerCallback(query.id, message);
+        return;
+      }
+    }
+
+    if (!answered) {
+      await this.answerCallback(query.id, note);
+    }
+    if (query.message) {
+      await this.appendToMessage(query.message, `${note} — ${this.formatUser(query.from)} ${this.formatTime(Date.now())}`);
+    }
+  }
+
+  /**
+   * 执行按钮操作，返回追加到原消息的说明
+   */
+  private async applyAlertAction({ action, productKey }: AlertCallback): Promise<string> {
+    if (!productKey) {
+      return '✅ 已确认';
+    }
+
+    const watchlist = getWatchlistManager(this.logger);
+    switch (action) {
+      case 'mute_1h':
+      case 'mute_restock': {
+        const entry = watchlist.find(productKey);
+        if (!entry) {
+          throw new Error('产品不在监控列表中，无法静音');
+        }
+        if (action === 'mute_1h') {
+          const mutedUntil = Date.now() + HOUR;
+          watchlist.setMutedUntil(entry.url, mutedUntil);
+          watchlist.save();
+          return `🔕 已静音1小时（至 ${this.formatTime(mutedUntil)}）`;
+        }
+        watchlist.setMuteUntilRestock(entry.url);
+        watchlist.save();
+        return '🔕 已静音到下次补货';
+      }
+      case 'ack': {
+        // 确认只修改共享的状态跟踪器，不需要等待 SGPM 任务
+        const tracker = getSgpmStatusTracker(sgpmConfig, this.logger);
+        const acknowledged = tracker.acknowledge(this.resolveProductUrl(productKey));
+        tracker.save();
+        return acknowledged ? '✅ 已确认，本次有货期间不再重复提醒' : '✅ 已确认';
+      }
+      case 'recheck': {
+        const result = await this.actions.checkProductNow(this.resolveProductUrl(productKey));
+        return result.error
+          ? `❌ 重新检查失败: ${result.error}`
+          : `🔍 重新检查: ${getStockStateLabel(result.stockState)}${result.price ? ` ${result.price}` : ''}`;
+      }
+    }
+  }
+
+  /**
+   * 产品键对应的URL：优先使用监控列表，其次使用状态记录（默认产品不在监控列表中）
+   */
+  private resolveProductUrl(productKey: string): string {
+    const url = getWatchlistManager(this.logger).find(productKey)?.url
+      || getSgpmStatusTracker(sgpmConfig, this.logger).getStatus()[productKey]?.url;
+    if (!url) {
+      throw new Error(`找不到该产品: ${productKey}`);
+    }
+    return url;
+  }
+
+  /**
+   * 在原消息末尾追加一行，保留原有格式和按钮
+   */
+  private async appendToMessage(message: TelegramMessage, line: string): Promise<void> {
+    if (!message.text) {
+      return;
+    }
+
+    try {
+      await callTelegramApi('editMessageText', {
+        chat_id: message.chat.id,
+        message_id: message.message_id,
+        text: `${message.text}\n\n${line}`.substring(0, MAX_MESSAGE_LENGTH),
+        entities: message.entities,
+        reply_markup: message.reply_markup,
+        disable_web_page_preview: true
+      }, 10000);
+    } catch (error) {
+      this.logger.warn('⚠️ 更新提醒消息失败:', error);
+    }
+  }
+
+  private async answerCallback(callbackQueryId: string, text: string): Promise<void> {
+    try {
+      await callTelegramApi('answerCallbackQuery', { callback_query_id: callbackQueryId, text: text.substring(0, 200) }, 10000);
+    } catch (error) {
+      this.logger.warn('⚠️ 响应按钮操作失败:', error);
+    }
+  }
+
+  /**
+   * 按聊天ID或用户ID判断权限，两者任一在白名单中即可
+   */
+  private getRole(chatId: number | undefined, userId: number | undefined): TelegramBotRole | null {
+    const ids = [chatId, userId].filter(id => id !== undefined).map(String);
+    if (ids.some(id => this.config.adminIds.includes(id))) {
+      return 'admin';
+    }
+    if (ids.some(id => this.config.viewerIds.includes(id))) {
+      return 'viewer';
+    }
+    return null;
+  }
+
+  private requireEntry(id: string | undefined, usage: string): WatchlistEntry {
+    if (!id) {
+      throw new Error(`用法: ${usage}`);
+    }
+    const entry = getWatchlistManager(this.logger).find(id);
+    if (!entry) {
+      throw new Error(`监控列表中没有该条目: ${id}`);
+    }
+    return entry;
+  }
+
+  private formatStatus(): string {
+    const { products } = this.dashboard.getOverview();
+    if (products.length === 0) {
+      return '📋 监控列表为空';
+    }
+
+    const lines = products.map((product, index) => {
+      const state = product.stockState ? getStockStateLabel(product.stockState) : '未检查';
+      const price = product.price ? ` ${product.price}` : '';
+      const mute = product.mute ? ` 🔕至${product.mute.untilRestock ? '下次补货' : this.formatTime(product.mute.until!)}` : '';
+      const flags = `${product.enabled ? '' : ' ⏸️'}${mute}`;
+      const checked = product.lastChecked ? ` · 检查于 ${this.formatTime(product.lastChecked)}` : '';
+      return `${index + 1}. [${state}] ${product.title}${price}${flags}\n   ${product.key}${checked}`;
+    });
+
+    return `📦 监控产品 (${products.length})\n\n${lines.join('\n')}`;
+  }
+
+  private async sendReply(chatId: number, text: string): Promise<void> {
+    await callTelegramApi('sendMessage', {
+      chat_id: chatId,
+      text: text.length > MAX_MESSAGE_LENGTH ? text.substring(0, MAX_MESSAGE_LENGTH - 3) + '...' : text,
+      disable_web_page_preview: true
+    }, 10000);
+  }
+
+  private formatUser(user: TelegramUser): string {
+    return user.username ? `@${user.username}` : user.first_name || String(user.id);
+  }
+
+  private formatTime(time: number): string {
+    return new Date(time).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore', hour12: false });
+  }
+}
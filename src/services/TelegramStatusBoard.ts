@@ -0,0 +1,157 @@
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { callTelegramApi, getTelegramConfig } from '../utils/sendTelegramMessage';
+import { getStockStateLabel } from '../utils/stockState';
+import { DashboardService } from './DashboardService';
+import { sgpmConfig } from '../config-sgpm';
+import { xhsConfig } from '../config';
+import { TelegramBoardConfig, TelegramBoardMessage, XhsRunStats } from '../types';
+
+// Telegram 单条消息长度上限
+const MAX_MESSAGE_LENGTH = 4096;
+// 状态板中的更新时间行，比较内容是否变化时忽略
+const UPDATED_AT_PREFIX = '🕐 更新于';
+
+/**
+ * Telegram 置顶状态板
+ *
+ * 每个聊天保留一条置顶消息，定时通过 editMessageText 更新为最新的产品状态和小红书运行情况，
+ * 库存变化仍然单独发送提醒。状态板的 message_id 保存在 telegram-board.json 中，重启后继续编辑同一条消息；
+ * 消息被删除时重新发送并置顶。
+ */
+export class TelegramStatusBoard {
+  private config: TelegramBoardConfig;
+  private logger: LoggerInstance;
+  private statusManager: StatusManager<Record<string, TelegramBoardMessage>>;
+  private dashboard: DashboardService;
+
+  constructor(config: TelegramBoardConfig, logger: LoggerInstance) {
+    this.config = config;
+    this.logger = logger;
+    this.statusManager = new StatusManager<Record<string, TelegramBoardMessage>>(config.stateFile, logger, {});
+    this.dashboard = new DashboardService(sgpmConfig, xhsConfig, logger);
+  }
+
+  /**
+   * 更新所有聊天中的状态板
+   * @throws 任一聊天更新失败时抛出错误（其他聊天照常更新）
+   */
+  async update(xhsStats: XhsRunStats | null, now: number = Date.now()): Promise<void> {
+    const text = this.render(xhsStats, now);
+    const chatIds = this.config.chatIds.length > 0 ? this.config.chatIds : [getTelegramConfig().chatId];
+    const failed: string[] = [];
+
+    for (const chatId of chatIds) {
+      try {
+        await this.updateChat(chatId, text, now);
+      } catch (error) {
+        this.logger.error(`❌ 更新状态板失败 (chat ${chatId}):`, error);
+        failed.push(chatId);
+      }
+    }
+
+    this.statusManager.save();
+    if (failed.length > 0) {
+      throw new Error(`状态板更新失败: ${failed.join(', ')}`);
+    }
+  }
+
+  /**
+   * 生成状态板内容
+   */
+  render(xhsStats: XhsRunStats | null, now: number = Date.now()): string {
+    const { products } = this.dashboard.getOverview(now);
+    const watched = products.filter(product => product.enabled);
+
+    const lines = watched.map(product => {
+      const state = product.stockState ? getStockStateLabel(product.stockState) : '⏳ 未检查';
+      const price = product.price ? ` · ${product.price}` : '';
+      const checked = product.lastChecked ? ` · ${this.formatAgo(product.lastChecked, now)}` : '';
+      return `${state} · ${product.title}${price}${checked}${product.mute ? ' 🔕' : ''}`;
+    });
+
+    const xhsLine = xhsStats
+      ? `📝 小红书: ${this.formatTime(xhsStats.finishedAt)} · 抓取 ${xhsStats.totalPosts} · 匹配 ${xhsStats.keywordMatches} · 新推送 ${xhsStats.newPostsSent}`
+      : '📝 小红书: 暂无运行记录';
+
+    const text = [
+      '📌 Labubu 监控状态板',
+      `${UPDATED_AT_PREFIX} ${this.formatTime(now)} (新加坡时间)`,
+      '',
+      `📦 SGPM (${watched.length})`,
+      ...(lines.length > 0 ? lines : ['监控列表为空']),
+      '',
+      xhsLine
+    ].join('\n');
+
+    return text.length > MAX_MESSAGE_LENGTH ? text.substring(0, MAX_MESSAGE_LENGTH - 3) + '...' : text;
+  }
+
+  private async updateChat(chatId: string, text: string, now: number): Promise<void> {
+    const boards = this.statusManager.get();
+    const board = boards[chatId];
+
+    if (board) {
+      if (this.stripUpdatedAt(board.text) === this.stripUpdatedAt(text)) {
+        return;
+      }
+
+      try {
+        await callTelegramApi('editMessageText', {
+          chat_id: chatId,
+          message_id: board.messageId,
+          text,
+          disable_web_page_preview: true
+        });
+        this.statusManager.set({ ...boards, [chatId]: { ...board, text, updatedAt: now } });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (message.includes('message is not modified')) {
+          this.statusManager.set({ ...boards, [chatId]: { ...board, text, updatedAt: now } });
+          return;
+        }
+        if (!message.includes('message to edit not found') && !message.includes('MESSAGE_ID_INVALID')) {
+          throw error;
+        }
+        this.logger.warn(`⚠️ 状态板消息已被删除，重新发送 (chat ${chatId})`);
+      }
+    }
+
+    const sent = await callTelegramApi<{ message_id: number }>('sendMessage', {
+      chat_id: chatId,
+      text,
+      disable_web_page_preview: true,
+      disable_notification: true
+    });
+    this.statusManager.set({ ...this.statusManager.get(), [chatId]: { messageId: sent.message_id, text, updatedAt: now } });
+
+    try {
+      await callTelegramApi('pinChatMessage', { chat_id: chatId, message_id: sent.message_id, disable_notification: true });
+      this.logger.success(`📌 状态板已发送并置顶 (chat ${chatId})`);
+    } catch (error) {
+      // 群组中没有置顶权限时仍然保留状态板消息
+      this.logger.warn(`⚠️ 状态板置顶失败 (chat ${chatId}):`, error);
+    }
+  }
+
+  /**
+   * 去掉更新时间行，只比较产品状态和小红书运行情况
+   */
+  private stripUpdatedAt(text: string): string {
+    return text.split('\n').filter(line => !line.startsWith(UPDATED_AT_PREFIX)).join('\n');
+  }
+
+  private formatAgo(at: number, now: number): string {
+    const minutes = Math.max(0, Math.floor((now - at) / 60000));
+    if (minutes < 1) return '刚刚';
+    if (minutes < 60) return `${minutes}分钟前`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) return `${hours}小时前`;
+    return `${Math.floor(hours / 24)}天前`;
+  }
+
+  private formatTime(time: number): string {
+    return new Date(time).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore', hour12: false });
+  }
+}
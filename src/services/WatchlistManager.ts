@@ -0,0 +1,328 @@
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { ProductMute, SgpmConfig, WatchlistEntry, WatchlistPriority } from '../types';
+import type { SgpmAlertType } from './SgpmStatusTracker';
+import { sgpmConfig, validateSgpmProductUrl } from '../config-sgpm';
+import { getProductKey, isSameProduct } from '../utils/productIdentity';
+
+/**
+ * 添加条目时的可选信息
+ */
+export interface WatchlistEntryOptions {
+  label?: string;
+  priority?: WatchlistPriority;
+  tags?: string[];
+  variants?: string[];
+  enabled?: boolean;
+  releaseAt?: number;
+}
+
+const PRIORITY_ORDER: Record<WatchlistPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export const WATCHLIST_PRIORITIES: WatchlistPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * SGPM 监控列表管理器
+ *
+ * 监控列表持久化在 sgpm-watchlist.json 中，所有 SGPM 入口都从这里读取产品URL；
+ * 列表为空时回退到 config-sgpm.ts 中的默认产品。
+ * 每次读写前检查文件是否被其他进程修改，常驻进程运行时命令行工具的修改不会被覆盖。
+ */
+export class WatchlistManager {
+  private logger: LoggerInstance;
+  private statusManager: StatusManager<WatchlistEntry[]>;
+
+  constructor(filePath: string, logger: LoggerInstance) {
+    this.logger = logger;
+    this.statusManager = new StatusManager<WatchlistEntry[]>(filePath, logger, []);
+  }
+
+  /**
+   * 当前条目，文件被命令行工具等其他进程修改后先重新加载
+   */
+  private getEntries(): WatchlistEntry[] {
+    this.statusManager.reloadIfChanged();
+    return this.statusManager.get();
+  }
+
+  /**
+   * 获取所有条目（按优先级排序）
+   */
+  list(): WatchlistEntry[] {
+    return [...this.getEntries()].sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.addedAt - b.addedAt
+    );
+  }
+
+  /**
+   * 获取需要监控的产品URL，列表为空时使用默认URL
+   */
+  getProductUrls(fallbackUrls: string[] = sgpmConfig.productUrls): string[] {
+    const entries = this.list();
+    if (entries.length === 0) {
+      this.logger.info(`📋 监控列表为空，使用默认的 ${fallbackUrls.length} 个产品`);
+      return fallbackUrls;
+    }
+    return entries.filter(entry => entry.enabled).map(entry => entry.url);
+  }
+
+  /**
+   * 获取条目中的款式订阅（产品URL → 款式）
+   */
+  getVariantSubscriptions(): Record<string, string[]> {
+    const subscriptions: Record<string, string[]> = {};
+    for (const entry of this.getEntries()) {
+      if (entry.enabled && entry.variants && entry.variants.length > 0) {
+        subscriptions[entry.url] = entry.variants;
+      }
+    }
+    return subscriptions;
+  }
+
+  /**
+   * 按URL、规范化产品键或序号（从1开始，对应 list() 的顺序）查找条目
+   */
+  find(urlOrIndex: string): WatchlistEntry | undefined {
+    const entries = this.list();
+    if (/^\d+$/.test(urlOrIndex)) {
+      return entries[parseInt(urlOrIndex) - 1];
+    }
+    return entries.find(entry => getProductKey(entry.url) === urlOrIndex || isSameProduct(entry.url, urlOrIndex));
+  }
+
+  /**
+   * 添加条目
+   * @throws URL无效或已存在时抛出错误
+   */
+  add(url: string, options: WatchlistEntryOptions = {}): WatchlistEntry {
+    const trimmedUrl = url.trim();
+    const urlError = validateSgpmProductUrl(trimmedUrl);
+    if (urlError) {
+      throw new Error(`URL ${urlError}`);
+    }
+
+    const entries = this.getEntries();
+    if (entries.some(entry => isSameProduct(entry.url, trimmedUrl))) {
+      throw new Error(`产品已在监控列表中: ${trimmedUrl}`);
+    }
+
+    if (options.priority && !WATCHLIST_PRIORITIES.includes(options.priority)) {
+      throw new Error(`优先级无效: ${options.priority} (可选: ${WATCHLIST_PRIORITIES.join(', ')})`);
+    }
+
+    const entry: WatchlistEntry = {
+      url: trimmedUrl,
+      label: options.label,
+      priority: options.priority || 'normal',
+      tags: options.tags || [],
+      enabled: options.enabled ?? true,
+      variants: options.variants && options.variants.length > 0 ? options.variants : undefined,
+      releaseAt: options.releaseAt,
+      addedAt: Date.now()
+    };
+
+    this.statusManager.set([...entries, entry]);
+    this.logger.info(`➕ 已添加: ${entry.label || trimmedUrl}`);
+    return entry;
+  }
+
+  /**
+   * 删除条目
+   */
+  remove(urlOrIndex: string): WatchlistEntry {
+    const entry = this.requireEntry(urlOrIndex);
+    this.statusManager.set(this.getEntries().filter(item => item.url !== entry.url));
+    this.logger.info(`➖ 已删除: ${entry.label || entry.url}`);
+    return entry;
+  }
+
+  /**
+   * 修改条目的名称、优先级、标签、款式等信息（未提供的字段保持不变）
+   */
+  update(urlOrIndex: string, options: WatchlistEntryOptions): WatchlistEntry {
+    const entry = this.requireEntry(urlOrIndex);
+    if (options.priority && !WATCHLIST_PRIORITIES.includes(options.priority)) {
+      throw new Error(`优先级无效: ${options.priority} (可选: ${WATCHLIST_PRIORITIES.join(', ')})`);
+    }
+
+    const updated: WatchlistEntry = {
+      ...entry,
+      label: options.label ?? entry.label,
+      priority: options.priority ?? entry.priority,
+      tags: options.tags ?? entry.tags,
+      enabled: options.enabled ?? entry.enabled,
+      variants: options.variants ? (options.variants.length > 0 ? options.variants : undefined) : entry.variants,
+      releaseAt: options.releaseAt ?? entry.releaseAt
+    };
+    this.statusManager.set(this.getEntries().map(item => item.url === entry.url ? updated : item));
+    this.logger.info(`✏️ 已修改: ${updated.label || entry.url}`);
+    return updated;
+  }
+
+  /**
+   * 启用/停用条目
+   */
+  setEnabled(urlOrIndex: string, enabled: boolean): WatchlistEntry {
+    const entry = this.requireEntry(urlOrIndex);
+    const updated = { ...entry, enabled };
+    this.statusManager.set(this.getEntries().map(item => item.url === entry.url ? updated : item));
+    this.logger.info(`${enabled ? '▶️ 已启用' : '⏸️ 已停用'}: ${entry.label || entry.url}`);
+    return updated;
+  }
+
+  /**
+   * 设置或清除发售时间
+   */
+  setReleaseTime(urlOrIndex: string, releaseAt: number | undefined): WatchlistEntry {
+    const entry = this.requireEntry(urlOrIndex);
+    const updated = { ...entry, releaseAt };
+    this.statusManager.set(this.getEntries().map(item => item.url === entry.url ? updated : item));
+    this.logger.info(releaseAt
+      ? `⏰ 已设置发售时间: ${entry.label || entry.url} → ${new Date(releaseAt).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore' })}`
+      : `⏰ 已清除发售时间: ${entry.label || entry.url}`);
+    return updated;
+  }
+
+  /**
+   * 设置或清除静音（静音期间照常检查、记录状态，但不发送提醒）
+   * 会覆盖"静音到下次补货"
+   */
+  setMutedUntil(urlOrIndex: string, mutedUntil: number | undefined): WatchlistEntry {
+    const entry = this.requireEntry(urlOrIndex);
+    const updated = { ...entry, mutedUntil, muteUntilRestock: undefined };
+    this.statusManager.set(this.getEntries().map(item => item.url === entry.url ? updated : item));
+    this.logger.info(mutedUntil
+      ? `🔕 已静音: ${entry.label || entry.url} → ${new Date(mutedUntil).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore' })}`
+      : `🔔 已取消静音: ${entry.label || entry.url}`);
+    return updated;
+  }
+
+  /**
+   * 静音到下次补货：补货提醒照常发送，发送后自动取消静音
+   */
+  setMuteUntilRestock(urlOrIndex: string): WatchlistEntry {
+    const entry = this.requireEntry(urlOrIndex);
+    const updated = { ...entry, mutedUntil: undefined, muteUntilRestock: true };
+    this.statusManager.set(this.getEntries().map(item => item.url === entry.url ? updated : item));
+    this.logger.info(`🔕 已静音到下次补货: ${entry.label || entry.url}`);
+    return updated;
+  }
+
+  /**
+   * 获取仍在静音中的产品（产品键 → 静音设置）
+   */
+  getMutedProducts(now: number = Date.now()): Record<string, ProductMute> {
+    const muted: Record<string, ProductMute> = {};
+    for (const entry of this.getEntries()) {
+      const mute = getEntryMute(entry, now);
+      if (mute) {
+        muted[getProductKey(entry.url)] = mute;
+      }
+    }
+    return muted;
+  }
+
+  /**
+   * 获取发售时段尚未结束、且在 withinMs 内开始的已启用条目
+   * @param leadMs - 发售前提前进入的时长
+   * @param tailMs - 发售后持续的时长
+   */
+  getUpcomingReleases(leadMs: number, tailMs: number, withinMs: number, now: number = Date.now()): WatchlistEntry[] {
+    return this.list()
+      .filter(entry => entry.enabled && entry.releaseAt !== undefined)
+      .filter(entry => entry.releaseAt! + tailMs > now && entry.releaseAt! - leadMs <= now + withinMs)
+      .sort((a, b) => a.releaseAt! - b.releaseAt!);
+  }
+
+  /**
+   * 批量导入，无效或重复的URL会被跳过
+   */
+  import(items: Array<string | (WatchlistEntryOptions & { url: string })>): { added: number; skipped: string[] } {
+    let added = 0;
+    const skipped: string[] = [];
+
+    for (const item of items) {
+      const { url, ...options } = typeof item === 'string' ? { url: item } : item;
+      try {
+        this.add(url, options);
+        added++;
+      } catch (error) {
+        skipped.push(`${url} (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+
+    return { added, skipped };
+  }
+
+  /**
+   * 立即保存
+   */
+  save(): void {
+    this.statusManager.save();
+  }
+
+  private requireEntry(urlOrIndex: string): WatchlistEntry {
+    const entry = this.find(urlOrIndex);
+    if (!entry) {
+      throw new Error(`监控列表中没有该条目: ${urlOrIndex}`);
+    }
+    return entry;
+  }
+}
+
+/**
+ * 条目当前生效的静音设置，未静音或已过期时返回 undefined
+ */
+export function getEntryMute(entry: Pick<WatchlistEntry, 'mutedUntil' | 'muteUntilRestock'>, now: number = Date.now()): ProductMute | undefined {
+  if (entry.muteUntilRestock) {
+    return { untilRestock: true };
+  }
+  if (entry.mutedUntil && entry.mutedUntil > now) {
+    return { until: entry.mutedUntil };
+  }
+  return undefined;
+}
+
+/**
+ * 静音设置是否屏蔽该类型的提醒（静音到下次补货时只放行补货提醒）
+ */
+export function isAlertMuted(mute: ProductMute | undefined, alertType: SgpmAlertType, now: number = Date.now()): boolean {
+  if (!mute) {
+    return false;
+  }
+  if (mute.untilRestock) {
+    return alertType !== 'back_in_stock';
+  }
+  return mute.until !== undefined && mute.until > now;
+}
+
+/**
+ * 全局监控列表实例
+ */
+let globalWatchlistManager: WatchlistManager | null = null;
+
+/**
+ * 获取全局监控列表管理器
+ */
+export function getWatchlistManager(logger: LoggerInstance): WatchlistManager {
+  if (!globalWatchlistManager) {
+    globalWatchlistManager = new WatchlistManager(sgpmConfig.watchlistFile, logger);
+  }
+  return globalWatchlistManager;
+}
+
+/**
+ * 生成使用监控列表的 SGPM 配置（产品URL、款式订阅与静音来自监控列表）
+ */
+export function getWatchlistSgpmConfig(logger: LoggerInstance): SgpmConfig {
+  const watchlist = getWatchlistManager(logger);
+  return {
+    ...sgpmConfig,
+    productUrls: watchlist.getProductUrls(),
+    variantSubscriptions: {
+      ...sgpmConfig.variantSubscriptions,
+      ...watchlist.getVariantSubscriptions()
+    },
+    mutedProducts: watchlist.getMutedProducts()
+  };
+}
@@ -0,0 +1,133 @@
+import { LoggerInstance } from '../utils/logger';
+import { StatusManager } from '../utils/statusManager';
+import { XhsConfig, XhsKeywordKind, XhsKeywordSettings } from '../types';
+import { xhsConfig } from '../config';
+
+const KIND_LABELS: Record<XhsKeywordKind, string> = { search: '搜索词', match: '匹配关键词' };
+
+/**
+ * 小红书关键词管理器
+ *
+ * 搜索词和匹配关键词持久化在 xhs-keywords.json 中，文件不存在时使用 config.ts 中的默认值。
+ * 两个列表都不能为空。
+ */
+export class XhsKeywordManager {
+  private logger: LoggerInstance;
+  private statusManager: StatusManager<XhsKeywordSettings>;
+
+  constructor(filePath: string, logger: LoggerInstance) {
+    this.logger = logger;
+    this.statusManager = new StatusManager<XhsKeywordSettings>(filePath, logger, {
+      searchKeywords: [xhsConfig.searchKeyword],
+      matchKeywords: [...xhsConfig.matchKeywords]
+    });
+  }
+
+  get(): XhsKeywordSettings {
+    const settings = this.statusManager.get();
+    return { searchKeywords: [...settings.searchKeywords], matchKeywords: [...settings.matchKeywords] };
+  }
+
+  /**
+   * 添加关键词
+   * @throws 关键词为空或已存在时抛出错误
+   */
+  add(kind: XhsKeywordKind, keyword: string): XhsKeywordSettings {
+    const trimmed = keyword.trim();
+    if (!trimmed) {
+      throw new Error(`${KIND_LABELS[kind]}不能为空`);
+    }
+
+    const list = this.getList(kind);
+    if (list.includes(trimmed)) {
+      throw new Error(`${KIND_LABELS[kind]}已存在: ${trimmed}`);
+    }
+
+    this.setList(kind, [...list, trimmed]);
+    this.logger.info(`➕ 已添加${KIND_LABELS[kind]}: ${trimmed}`);
+    return this.get();
+  }
+
+  /**
+   * 删除关键词
+   * @throws 关键词不存在或删除后列表为空时抛出错误
+   */
+  remove(kind: XhsKeywordKind, keyword: string): XhsKeywordSettings {
+    const list = this.getList(kind);
+    if (!list.includes(keyword)) {
+      throw new Error(`没有该${KIND_LABELS[kind]}: ${keyword}`);
+    }
+    if (list.length === 1) {
+      throw new Error(`至少需要保留一个${KIND_LABELS[kind]}`);
+    }
+
+    this.setList(kind, list.filter(item => item !== keyword));
+    this.logger.info(`➖ 已删除${KIND_LABELS[kind]}: ${keyword}`);
+    return this.get();
+  }
+
+  /**
+   * 整体替换
+   * @throws 任一列表为空时抛出错误
+   */
+  replace(settings: XhsKeywordSettings): XhsKeywordSettings {
+    const normalize = (list: string[]) => [...new Set(list.map(item => item.trim()).filter(Boolean))];
+    const searchKeywords = normalize(settings.searchKeywords);
+    const matchKeywords = normalize(settings.matchKeywords);
+
+    if (searchKeywords.length === 0 || matchKeywords.length === 0) {
+      throw new Error('搜索词和匹配关键词都不能为空');
+    }
+
+    this.statusManager.set({ searchKeywords, matchKeywords });
+    this.logger.info(`✏️ 已更新小红书关键词: ${searchKeywords.length} 个搜索词, ${matchKeywords.length} 个匹配关键词`);
+    return this.get();
+  }
+
+  /**
+   * 立即保存
+   */
+  save(): void {
+    this.statusManager.save();
+  }
+
+  private getList(kind: XhsKeywordKind): string[] {
+    const settings = this.statusManager.get();
+    return kind === 'search' ? settings.searchKeywords : settings.matchKeywords;
+  }
+
+  private setList(kind: XhsKeywordKind, list: string[]): void {
+    const settings = this.statusManager.get();
+    this.statusManager.set(kind === 'search'
+      ? { ...settings, searchKeywords: list }
+      : { ...settings, matchKeywords: list });
+  }
+}
+
+/**
+ * 全局关键词管理器实例
+ */
+let globalKeywordManager: XhsKeywordManager | null = null;
+
+/**
+ * 获取全局关键词管理器
+ */
+export function getXhsKeywordManager(logger: LoggerInstance): XhsKeywordManager {
+  if (!globalKeywordManager) {
+    globalKeywordManager = new XhsKeywordManager(xhsConfig.keywordsFile, logger);
+  }
+  return globalKeywordManager;
+}
+
+/**
+ * 生成使用已保存关键词的小红书配置
+ */
+export function getKeywordXhsConfig(logger: LoggerInstance): XhsConfig {
+  const { searchKeywords, matchKeywords } = getXhsKeywordManager(logger).get();
+  return {
+    ...xhsConfig,
+    searchKeyword: searchKeywords[0],
+    searchKeywords,
+    matchKeywords
+  };
+}
@@ -1,8 +1,13 @@
 import { XhsScraper } from '../scrapers/XhsScraper';
-import { XhsPostData } from '../types';
+import { XhsPostData, XhsRunStats } from '../types';
 import { LoggerInstance } from '../utils/logger';
 import { StatusManager } from '../utils/statusManager';
-import { sendTelegramMessage } from '../utils/sendTelegramMessage';
+import { getNotifierRegistry } from '../notifiers/NotifierRegistry';
+import { buildXhsPostNotification } from '../notifiers/notifications';
+import { getMqttPublisher } from './MqttPublisher';
+import { buildPostAlertKeyboard } from '../utils/alertActions';
+import { metrics } from '../utils/metrics';
+import { XhsActivityLog } from '../utils/xhsActivity';
 
 /**
  * 小红书监控服务
@@ -17,15 +22,19 @@ export class XhsService {
     seenPostsFile: string;
     maxSeenPosts: number;
   };
+  private lastRunStats: XhsRunStats | null = null;
+  private activityLog?: XhsActivityLog;
 
   constructor(
     logger: LoggerInstance,
     statusManager: StatusManager<string[]>,
-    config: any
+    config: any,
+    activityLog?: XhsActivityLog
   ) {
     this.logger = logger;
     this.statusManager = statusManager;
     this.config = config;
+    this.activityLog = activityLog;
   }
 
   /**
@@ -33,6 +42,7 @@ export class XhsService {
    */
   async processPosts(posts: XhsPostData[]): Promise<void> {
     this.logger.info(`开始处理 ${posts.length} 个帖子，进行关键词匹配和去重`);
+    metrics.xhsPosts.inc({ stage: 'scraped' }, posts.length);
 
     const seenPosts = this.statusManager.get();
     let newPostsSent = 0;
@@ -58,21 +68,25 @@ export class XhsService {
       // 时间过滤：只处理1小时内的帖子
       if (!this.isPostWithin1Hour(post.publishTime)) {
         this.logger.debug(`帖子超过1小时，跳过: ${post.previewTitle} (${post.publishTime})`);
+        metrics.xhsPosts.inc({ stage: 'time_filtered' });
         continue;
       }
 
       // 关键词匹配
       if (!this.matchesKeywords(post.previewTitle)) {
         this.logger.debug(`帖子不包含关键词，跳过: ${post.previewTitle}`);
+        metrics.xhsPosts.inc({ stage: 'keyword_unmatched' });
         continue;
       }
 
       keywordMatches++;
+      metrics.xhsPosts.inc({ stage: 'keyword_matched' });
 
       // 去重检查
       if (seenPosts.includes(post.url)) {
         this.logger.debug(`帖子已推送过，跳过: ${post.previewTitle}`);
         duplicatePosts++;
+        metrics.xhsPosts.inc({ stage: 'duplicate' });
 
         // 在GitHub Actions环境中输出更详细的重复信息
         if (isGitHubActions) {
@@ -92,6 +106,8 @@ export class XhsService {
         // 添加到已推送列表
         seenPosts.push(post.url);
         newPostsSent++;
+        metrics.xhsPosts.inc({ stage: 'sent' });
+        this.activityLog?.recordPost(post);
 
         this.logger.success(`✅ 帖子推送成功: ${post.previewTitle}`);
 
@@ -122,6 +138,7 @@ export class XhsService {
       const isGitHubActions = process.env.GITHUB_ACTIONS === 'true';
       if (isGitHubActions) {
         this.statusManager.save(); // 强制立即保存
+        this.activityLog?.save();
         this.logger.info(`📝 GitHub Actions环境：强制立即保存状态文件，新增 ${newPostsSent} 条记录`);
 
         // 验证保存是否成功
@@ -149,12 +166,26 @@ export class XhsService {
     }
 
     this.logger.info(`处理完成 - 总帖子: ${posts.length}, 关键词匹配: ${keywordMatches}, 新发送: ${newPostsSent}, 重复: ${duplicatePosts}`);
+    this.lastRunStats = {
+      finishedAt: Date.now(),
+      totalPosts: posts.length,
+      keywordMatches,
+      duplicatePosts,
+      newPostsSent
+    };
 
     if (newPostsSent === 0) {
       this.logger.info('暂无符合条件的新帖子');
     }
   }
 
+  /**
+   * 获取最近一次处理的统计
+   */
+  getLastRunStats(): XhsRunStats | null {
+    return this.lastRunStats;
+  }
+
   /**
    * 检查帖子是否在1小时内
    */
@@ -244,7 +275,10 @@ export class XhsService {
    */
   private async sendNotification(post: XhsPostData): Promise<void> {
     const message = this.formatMessage(post);
-    await sendTelegramMessage(message);
+    await getNotifierRegistry(this.logger).notify(
+      buildXhsPostNotification(post, message, { replyMarkup: buildPostAlertKeyboard(post.url) })
+    );
+    getMqttPublisher(this.logger).publishXhsPost(post);
   }
 
   /**
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+/**
+ * SGPM 新品发现入口
+ *
+ * 抓取 PopMart SG 新品/系列/搜索列表页，发现匹配关键词的新上架产品后发送提醒。
+ * 设置 SGPM_DISCOVERY_AUTO_ADD=true 时自动加入监控列表。
+ */
+
+import dotenv from 'dotenv';
+import { logger } from './utils/logger';
+import { sgpmConfig, validateSgpmConfig } from './config-sgpm';
+import { SgpmDiscoveryService } from './services/SgpmDiscoveryService';
+
+// 加载环境变量
+dotenv.config();
+
+async function main(): Promise<void> {
+  const startTime = Date.now();
+  logger.info('=== SGPM新品发现启动 ===');
+
+  const configValidation = validateSgpmConfig();
+  if (!configValidation.valid) {
+    throw new Error(`SGPM配置验证失败: ${configValidation.errors.join(', ')}`);
+  }
+
+  const discoveryService = new SgpmDiscoveryService(sgpmConfig, logger);
+
+  try {
+    const result = await discoveryService.discover();
+    logger.info(`✅ 新品发现完成: 扫描 ${result.scannedPages} 页, 匹配 ${result.matched} 个, 新品 ${result.newProducts.length} 个, 耗时 ${Date.now() - startTime}ms`);
+  } finally {
+    await discoveryService.cleanup();
+  }
+}
+
+// 运行主程序
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      logger.error('❌ SGPM新品发现失败:', error);
+      process.exit(1);
+    });
+}
+
+export { main as sgpmDiscoveryMain };
@@ -1,52 +1,46 @@
 import dotenv from 'dotenv';
 import { SgpmMonitorService } from './services/SgpmMonitorService';
+import { getWatchlistSgpmConfig } from './services/WatchlistManager';
+import { getNotifierRegistry } from './notifiers/NotifierRegistry';
+import { getMqttPublisher } from './services/MqttPublisher';
 import { logger } from './utils/logger';
 
 // 加载环境变量
 dotenv.config();
 
-// SGPM产品URL列表 (已优化为6个产品)
-const SGPM_PRODUCT_URLS = [
-  'https://www.popmart.com/sg/pop-now/set/64',
-  'https://www.popmart.com/sg/products/5629/THE%20MONSTERS%20Wacky%20Mart%20Series-Earphone%20Case',
-  'https://www.popmart.com/sg/products/5628/LABUBU%20HIDE%20AND%20SEEK%20IN%20SINGAPORE%20SERIES-Vinyl%20Plush%20Doll%20Pendant',
-  'https://www.popmart.com/sg/products/5627/THE%20MONSTERS%20COCA%20COLA%20SERIES-Vinyl%20Face%20Blind%20Box',
-  'https://www.popmart.com/sg/products/5626/THE%20MONSTERS%20FALL%20IN%20WILD%20SERIES-Vinyl%20Plush%20Doll%20Pendant',
-  'https://www.popmart.com/sg/products/5625/THE%20MONSTERS%20FALL%20IN%20WILD%20SERIES-Vinyl%20Plush%20Doll'
-];
-
 async function main(): Promise<void> {
   const startTime = Date.now();
   
   try {
     logger.info('=== SGPM监控系统启动 ===');
     
-    // 检查Telegram配置
-    const botToken = process.env.SGPM_BOT_TOKEN;
-    const chatId = process.env.SGPM_CHAT_ID;
-    
-    if (botToken && chatId) {
-      logger.info('📱 Telegram通知: ✅ 已配置');
+    // 检查通知渠道
+    const channels = getNotifierRegistry(logger).getChannels('sgpm_stock');
+    if (channels.length > 0) {
+      logger.info(`📱 通知渠道: ✅ ${channels.join(', ')}`);
     } else {
-      logger.warn('📱 Telegram通知: ❌ 未配置');
-      logger.warn('⚠️ 需要设置 SGPM_BOT_TOKEN 和 SGPM_CHAT_ID 环境变量');
+      logger.warn('📱 通知渠道: ❌ 未配置');
+      logger.warn('⚠️ 需要设置 SGPM_BOT_TOKEN 和 SGPM_CHAT_ID，或 DISCORD_WEBHOOK_URL / SLACK_WEBHOOK_URL 环境变量');
     }
     
-    logger.info(`📊 监控产品数量: ${SGPM_PRODUCT_URLS.length}`);
+    // 产品列表来自监控列表文件（为空时使用 config-sgpm.ts 中的默认产品）
+    const monitorConfig = getWatchlistSgpmConfig(logger);
+    logger.info(`📊 监控产品数量: ${monitorConfig.productUrls.length}`);
     logger.info(`🌐 运行环境: ${process.env.NODE_ENV || '本地环境'}`);
 
     // 创建监控服务
-    const monitor = new SgpmMonitorService(botToken, chatId);
+    const monitor = new SgpmMonitorService(monitorConfig);
 
     // 初始化浏览器
     await monitor.initBrowser();
 
     // 开始监控
     logger.info('🚀 开始SGPM监控...');
-    await monitor.monitorProducts(SGPM_PRODUCT_URLS);
+    await monitor.monitorProducts(monitorConfig.productUrls);
     
-    // 关闭浏览器
+    // 关闭浏览器和 MQTT 连接
     await monitor.closeBrowser();
+    await getMqttPublisher(logger).close();
     
     const duration = Date.now() - startTime;
     logger.info(`✅ 监控完成，总耗时: ${duration}ms`);
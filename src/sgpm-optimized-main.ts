@@ -14,7 +14,10 @@
 
 import { logger } from './utils/logger';
 import { sgpmConfig, validateSgpmConfig, validateSgpmEnvironment, getSgpmEnvConfig } from './config-sgpm';
+import { validateMqttConfig } from './config';
 import { OptimizedSgpmService } from './services/OptimizedSgpmService';
+import { getMqttPublisher } from './services/MqttPublisher';
+import { getWatchlistManager, getWatchlistSgpmConfig } from './services/WatchlistManager';
 import { getEnhancedResourceManager } from './utils/EnhancedResourceManager';
 import { globalCache, httpCache, productCache } from './utils/OptimizedCacheManager';
 
@@ -132,6 +135,11 @@ async function main(): Promise<void> {
       throw new Error(`SGPM配置验证失败: ${configValidation.errors.join(', ')}`);
     }
 
+    const mqttValidation = validateMqttConfig();
+    if (!mqttValidation.valid) {
+      throw new Error(`MQTT配置验证失败: ${mqttValidation.errors.join(', ')}`);
+    }
+
     // 3. 验证环境变量
     const envValidation = validateSgpmEnvironment();
     const envConfig = getSgpmEnvConfig();
@@ -140,19 +148,21 @@ async function main(): Promise<void> {
       logger.warn(`⚠️ Telegram未配置，将跳过通知: ${envValidation.missing.join(', ')}`);
     }
 
-    logger.info(`📊 监控: ${sgpmConfig.productUrls.length}个产品 | Bot:${envConfig.botToken ? '✅' : '❌'} | Chat:${envConfig.chatId ? '✅' : '❌'}`);
+    // 产品列表来自监控列表文件
+    const monitorConfig = getWatchlistSgpmConfig(logger);
+    logger.info(`📊 监控: ${monitorConfig.productUrls.length}个产品 | Bot:${envConfig.botToken ? '✅' : '❌'} | Chat:${envConfig.chatId ? '✅' : '❌'}`);
 
     // 4. 预热系统缓存
     await globalCache.warmup([
       {
         key: 'sgpm_config',
-        fn: async () => sgpmConfig,
+        fn: async () => monitorConfig,
         ttl: 30 * 60 * 1000
       }
     ]);
 
     // 5. 创建并配置SGPM服务
-    const sgpmService = new OptimizedSgpmService(sgpmConfig, logger);
+    const sgpmService = new OptimizedSgpmService(monitorConfig, logger);
 
     const isGitHubActions = envConfig.isGitHubActions;
     if (isGitHubActions) {
@@ -171,20 +181,39 @@ async function main(): Promise<void> {
       });
     }
 
-    // 6. 执行监控
-    logger.info('🚀 开始SGPM高性能监控...');
-    await sgpmService.checkProducts();
+    // 6. 执行监控（--probe-ids 时改为探测未上架的产品ID，--burst 时对即将发售的产品密集检查）
+    if (process.argv.includes('--probe-ids')) {
+      logger.info('🕵️ 开始SGPM产品ID探测...');
+      await sgpmService.probeProductIds();
+    } else if (process.argv.includes('--burst')) {
+      const { leadMinutes, tailMinutes, maxWaitMinutes } = monitorConfig.burst;
+      const releases = getWatchlistManager(logger).getUpcomingReleases(
+        leadMinutes * 60 * 1000,
+        tailMinutes * 60 * 1000,
+        maxWaitMinutes * 60 * 1000
+      );
+      if (releases.length === 0) {
+        logger.info(`😴 ${maxWaitMinutes} 分钟内没有即将发售的产品`);
+      } else {
+        logger.info(`⚡ 开始发售时段密集检查: ${releases.length} 个产品`);
+        await sgpmService.runBurstMode(releases);
+      }
+    } else {
+      logger.info('🚀 开始SGPM高性能监控...');
+      await sgpmService.checkProducts();
 
-    // 7. 性能统计和清理
-    const serviceStats = sgpmService.getPerformanceStats();
-    const duration = Math.max(serviceStats.endTime - serviceStats.startTime, 1); // 确保正数且至少1ms
-    const efficiency = serviceStats.totalChecks > 0 ? (serviceStats.totalChecks / (duration / 1000)).toFixed(1) : 0;
-    const cacheRate = serviceStats.totalChecks > 0 ? ((serviceStats.cacheHits / serviceStats.totalChecks) * 100).toFixed(1) : 0;
+      // 7. 性能统计
+      const serviceStats = sgpmService.getPerformanceStats();
+      const duration = Math.max(serviceStats.endTime - serviceStats.startTime, 1); // 确保正数且至少1ms
+      const efficiency = serviceStats.totalChecks > 0 ? (serviceStats.totalChecks / (duration / 1000)).toFixed(1) : 0;
+      const cacheRate = serviceStats.totalChecks > 0 ? ((serviceStats.cacheHits / serviceStats.totalChecks) * 100).toFixed(1) : 0;
 
-    logger.info(`✅ 完成: ${efficiency}检查/秒 | 缓存${cacheRate}% | 网络${serviceStats.networkRequests}次 | 耗时${duration}ms`);
+      logger.info(`✅ 完成: ${efficiency}检查/秒 | 缓存${cacheRate}% | 网络${serviceStats.networkRequests}次 | 耗时${duration}ms`);
+    }
 
     // 8. 清理资源
     await sgpmService.cleanup();
+    await getMqttPublisher(logger).close();
     await resourceManager.cleanupAll();
     if (isGitHubActions) {
       httpCache.clear();
@@ -64,6 +64,222 @@ export interface PopMartCheckResult {
   statusChanged: boolean;
 }
 
+/**
+ * 库存状态
+ * - UNKNOWN 表示无法判断（反爬虫、网络失败等），不代表缺货
+ * - APP_ONLY / REGION_LOCKED / PREORDER 均不可在网页直接购买
+ */
+export enum StockState {
+  IN_STOCK = 'IN_STOCK',
+  OUT_OF_STOCK = 'OUT_OF_STOCK',
+  UNKNOWN = 'UNKNOWN',
+  APP_ONLY = 'APP_ONLY',
+  REGION_LOCKED = 'REGION_LOCKED',
+  PREORDER = 'PREORDER'
+}
+
+/**
+ * 库存检测结果的数据来源
+ * - api: 浏览器检查时拦截到的 PopMart 接口响应
+ * - next-data: 页面内嵌的 Next.js 数据（__NEXT_DATA__ / hydration payload）
+ * - button: 页面按钮文字检测
+ * - regex: HTML 正则匹配（最后的兜底方案）
+ * - inference: 反爬虫页面下的智能推断
+ */
+export type StockDetectionSource = 'api' | 'next-data' | 'button' | 'regex' | 'inference';
+
+/**
+ * PopMart SKU 信息（也用于 POP NOW 套装中的单个盒子、单盒/整套等款式）
+ */
+export interface PopMartSkuInfo {
+  skuId: string;
+  title: string;
+  price?: number;
+  originalPrice?: number; // 打折时的原价
+  currency?: string;
+  stock?: number;
+  inStock: boolean;
+}
+
+/**
+ * PopMart 页面结构化产品数据
+ */
+export interface PopMartProductPageData {
+  productId: string;
+  title: string;
+  skus: PopMartSkuInfo[];
+  price?: number;
+  currency?: string;
+  inStock: boolean;
+  source: StockDetectionSource;
+}
+
+/**
+ * SGPM 产品检查结果
+ */
+export interface ProductCheckResult {
+  url: string;
+  title: string;
+  inStock: boolean; // 等价于 stockState === StockState.IN_STOCK
+  stockState: StockState;
+  price?: string;
+  availability?: string;
+  checkTime: number;
+  fromCache: boolean;
+  detectionSource?: StockDetectionSource; // 产生该结果的检测路径
+  skus?: PopMartSkuInfo[];
+  error?: boolean; // 标记是否为错误状态
+}
+
+/**
+ * SGPM 产品持久化状态
+ */
+export interface SgpmProductStatus {
+  title: string;
+  url?: string; // 最近一次检查使用的产品URL
+  inStock: boolean;
+  stockState?: StockState; // 旧状态文件中没有该字段，读取时由 inStock 推导
+  lastChecked: number;
+  price?: string;
+  priceInfo?: PriceInfo; // 解析后的当前价格
+  priceHistory?: PriceHistoryEntry[]; // 价格变化记录（只追加）
+  availability?: string;
+  inStockSince?: number; // 本次有货开始时间
+  lastNotifiedAt?: number; // 最近一次发送提醒的时间
+  cooldownMinutes?: number; // 单个产品的提醒冷却时间，覆盖默认配置
+  reminderIntervalMinutes?: number; // 单个产品的"仍有库存"提醒间隔，覆盖默认配置
+  acknowledgedAt?: number; // 已确认本次有货（不再发送"仍有库存"提醒）的时间
+  variants?: Record<string, SgpmVariantStatus>; // 以款式ID（skuId）为键
+}
+
+/**
+ * 金额
+ */
+export interface Money {
+  amount: number;
+  currency: string; // ISO 币种代码，如 SGD
+}
+
+/**
+ * 产品价格：当前售价，打折时附带原价
+ */
+export interface PriceInfo {
+  current: Money;
+  original?: Money;
+}
+
+/**
+ * 价格历史记录
+ */
+export interface PriceHistoryEntry extends PriceInfo {
+  at: number; // 记录时间
+}
+
+/**
+ * SGPM 产品款式（SKU / 盲盒 / 单盒整套）状态
+ */
+export interface SgpmVariantStatus {
+  title: string;
+  stockState: StockState;
+  price?: string;
+  lastChecked: number;
+}
+
+/**
+ * SGPM 产品状态记录（以规范化的产品键为键，见 productIdentity）
+ */
+export type SgpmStatusRecord = Record<string, SgpmProductStatus>;
+
+/**
+ * SGPM 事件类型
+ * - stock_change: 库存状态变化
+ * - price_change: 价格变化
+ * - check_failed: 产品检查失败
+ */
+export type SgpmEventType = 'stock_change' | 'price_change' | 'check_failed';
+
+/**
+ * SGPM 事件日志记录（JSONL 每行一条）
+ */
+export interface SgpmEvent {
+  at: number;
+  type: SgpmEventType;
+  runId: string; // 产生该事件的运行ID（GitHub Actions run ID 或本地运行标识）
+  productKey: string; // 规范化产品键
+  productId?: string;
+  url: string;
+  title: string;
+  oldState?: StockState;
+  newState?: StockState;
+  oldPrice?: string;
+  newPrice?: string;
+  detectionSource?: StockDetectionSource;
+  error?: string;
+}
+
+/**
+ * 单个产品的补货统计
+ */
+export interface ProductRestockStats {
+  productKey: string;
+  productId?: string;
+  title: string;
+  series: string;
+  restocks: number; // 缺货 → 有货的次数
+  medianInStockMs: number | null; // 有货到再次售罄的时长中位数（尚未售罄的不计入）
+  lastRestockAt?: number;
+}
+
+/**
+ * 单个系列的补货统计
+ */
+export interface SeriesRestockStats {
+  series: string;
+  products: number;
+  restocks: number;
+  medianInStockMs: number | null;
+}
+
+/**
+ * 补货分析报告
+ */
+export interface RestockReport {
+  generatedAt: number;
+  from: number;
+  to: number;
+  timezone: string;
+  totalRestocks: number;
+  products: ProductRestockStats[]; // 按补货次数降序
+  series: SeriesRestockStats[];
+  hourOfDay: number[]; // 24 个小时的补货次数
+  dayOfWeek: number[]; // 周日到周六的补货次数
+  neverRestocked: Array<{ productKey: string; title: string }>;
+}
+
+/**
+ * SGPM 状态文件（带版本号）
+ */
+export interface SgpmStatusFile {
+  schemaVersion: number;
+  products: SgpmStatusRecord;
+}
+
+/**
+ * PopMart 产品身份类型：普通产品或 POP NOW 盲盒套装
+ */
+export type ProductIdentityKind = 'product' | 'pop-now-set';
+
+/**
+ * 从产品URL中解析出的规范化身份
+ */
+export interface ProductIdentity {
+  region: string; // 站点地区，如 sg
+  kind: ProductIdentityKind;
+  id: string; // 产品ID或套装ID
+  key: string; // 规范化键，如 sg:product:5627
+  slug?: string; // URL中的产品名称部分（已解码）
+}
+
 /**
  * 状态管理器接口
  */
@@ -79,20 +295,251 @@ export interface IStatusManager<T> {
  */
 export interface XhsConfig {
   searchKeyword: string;
+  searchKeywords?: string[]; // 依次搜索的关键词，未设置时只搜索 searchKeyword
   matchKeywords: string[];
+  keywordsFile: string; // 通过 API 修改的搜索词和匹配关键词
   seenPostsFile: string;
   cookiesFile: string;
   maxSeenPosts: number;
+  activityFile: string; // 最近推送的帖子和安全验证记录（供看板展示）
+  maxActivityEntries: number;
+}
+
+/**
+ * 可通过 API 修改的小红书关键词
+ */
+export interface XhsKeywordSettings {
+  searchKeywords: string[];
+  matchKeywords: string[];
+}
+
+export type XhsKeywordKind = 'search' | 'match';
+
+/**
+ * 已推送的小红书关键词帖子
+ */
+export interface XhsMatchedPost {
+  url: string;
+  title: string;
+  author?: string;
+  publishTime?: string;
+  location?: string;
+  sentAt: number;
+}
+
+/**
+ * 小红书安全验证（或异常页面）记录
+ */
+export interface XhsSecurityIncident {
+  at: number;
+  reason: string;
+  pageTitle: string;
+  pageUrl: string;
+}
+
+/**
+ * 小红书活动记录文件
+ */
+export interface XhsActivity {
+  recentPosts: XhsMatchedPost[]; // 按时间倒序
+  securityIncidents: XhsSecurityIncident[]; // 按时间倒序
 }
 
 export interface SgpmConfig {
-  productUrls: string[];
+  productUrls: string[]; // 监控列表为空时使用的默认产品
   statusFile: string;
+  watchlistFile: string;
+  eventLogFile: string; // 追加写入的事件日志（JSONL）
   maxRetries: number;
   retryDelay: number;
   timeout: number;
   userAgent: string;
   headers: Record<string, string>;
+  alerts: SgpmAlertSettings;
+  variantSubscriptions: Record<string, string[]>; // 产品URL → 只关注的款式（skuId 或款式名称关键词）
+  mutedProducts: Record<string, ProductMute>; // 产品键 → 静音设置
+  discovery: SgpmDiscoveryConfig;
+  idProbe: SgpmIdProbeConfig;
+  scheduler: SgpmSchedulerConfig;
+  burst: SgpmBurstConfig;
+  escalation: SgpmEscalationConfig;
+}
+
+/**
+ * 未确认补货提醒的升级配置（常驻模式）
+ */
+export interface SgpmEscalationConfig {
+  enabled: boolean;
+  afterSeconds: number; // 补货提醒发出后多久未确认开始升级，之后每隔同样时长再次发送
+  maxEscalations: number; // 每条提醒最多升级次数
+  chatIds: string[]; // 升级消息发送到的聊天，为空时发送到原聊天
+  mentions: string[]; // 升级消息中提及的 Telegram 用户（@用户名 或 数字用户ID），升级只发送到 Telegram
+  stateFile: string;
+}
+
+/**
+ * 升级结束原因
+ */
+export type SgpmEscalationResolution = 'acknowledged' | 'sold_out' | 'muted' | 'max_reached' | 'superseded';
+
+/**
+ * 单条补货提醒的升级状态（以提醒ID为键持久化）
+ */
+export interface SgpmEscalation {
+  id: string; // 产品键:发送时间
+  productKey: string;
+  url: string;
+  title: string;
+  notification: Notification; // 原提醒内容
+  sentAt: number;
+  escalations: number; // 已升级次数
+  lastEscalatedAt?: number;
+  resolvedAt?: number;
+  resolution?: SgpmEscalationResolution;
+}
+
+/**
+ * 产品静音设置
+ */
+export interface ProductMute {
+  until?: number; // 静音截止时间
+  untilRestock?: boolean; // 静音到下次补货
+}
+
+/**
+ * SGPM 发售时段密集检查配置
+ */
+export interface SgpmBurstConfig {
+  leadMinutes: number; // 发售前多少分钟开始
+  tailMinutes: number; // 发售后持续多少分钟
+  intervalSeconds: number; // 检查间隔
+  jitterSeconds: number; // 检查间隔的随机抖动
+  maxWaitMinutes: number; // 每次运行最多等待多久进入发售时段
+}
+
+/**
+ * SGPM 自适应检查调度配置
+ */
+export interface SgpmSchedulerConfig {
+  enabled: boolean; // 默认关闭（SGPM_ADAPTIVE_SCHEDULING=true 开启），关闭时每次运行检查所有产品
+  stateFile: string; // 每个产品的下次检查时间
+  minIntervalMinutes: number; // 热门产品（有货中/近期补货）的检查间隔
+  baseIntervalMinutes: number; // 普通产品的检查间隔
+  maxIntervalMinutes: number; // 长期无补货产品的检查间隔
+  maxChecksPerRun: number; // 每次运行最多检查的产品数（全局请求预算）
+  hotWindowDays: number; // 多少天内补货过算作热门
+  deadAfterDays: number; // 多少天没有补货算作冷门
+}
+
+/**
+ * 单个产品的调度状态
+ */
+export interface ProductSchedule {
+  intervalMinutes: number;
+  nextCheckAt: number;
+  lastCheckedAt?: number;
+  trackedSince: number; // 调度器首次看到该产品的时间
+  reason: string; // 选择该间隔的原因
+}
+
+/**
+ * 调度状态（以规范化产品键为键）
+ */
+export type SchedulerState = Record<string, ProductSchedule>;
+
+/**
+ * SGPM 产品ID探测配置
+ */
+export interface SgpmIdProbeConfig {
+  windowSize: number; // 探测已知最大ID之上的多少个ID
+  maxRequests: number; // 每次运行最多发出的页面请求数（严格上限）
+  requestDelay: number; // 两次请求之间的间隔（毫秒）
+  stateFile: string; // 探测结果文件
+}
+
+/**
+ * 探测到的产品ID状态
+ * - not-found: 产品页不存在
+ * - exists-unlisted: 产品页存在，但尚未出现在任何列表中
+ * - live: 已上架（出现在列表/监控列表中，或可以购买）
+ */
+export type ProbeIdStatus = 'not-found' | 'exists-unlisted' | 'live';
+
+/**
+ * 单个产品ID的探测记录
+ */
+export interface ProbedProductId {
+  id: number;
+  status: ProbeIdStatus;
+  title?: string;
+  firstSeenAt?: number; // 首次发现产品页存在的时间
+  lastProbedAt: number;
+  notifiedAt?: number;
+}
+
+/**
+ * 产品ID探测结果（以产品ID为键）
+ */
+export type ProbeIdRecord = Record<string, ProbedProductId>;
+
+/**
+ * SGPM 新品发现配置
+ */
+export interface SgpmDiscoveryConfig {
+  listingUrls: string[]; // 新品/系列列表页
+  searchUrlTemplate: string; // 搜索页模板，{keyword} 替换为关键词
+  keywords: string[]; // 产品标题需匹配的关键词（不区分大小写）
+  catalogFile: string; // 已发现产品目录
+  autoAddToWatchlist: boolean; // 是否自动把新品加入监控列表
+  maxScrolls: number; // 每个列表页最多滚动次数（加载懒加载商品）
+}
+
+/**
+ * 新品发现目录中的产品
+ */
+export interface DiscoveredProduct {
+  key: string; // 规范化产品键
+  url: string;
+  title: string;
+  sourceUrl: string; // 发现该产品的列表页
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+/**
+ * 新品发现目录（以规范化产品键为键）
+ */
+export type DiscoveryCatalog = Record<string, DiscoveredProduct>;
+
+/**
+ * SGPM 库存提醒策略配置
+ */
+export interface SgpmAlertSettings {
+  cooldownMinutes: number; // 同一产品两次补货提醒的最小间隔
+  reminderIntervalMinutes: number; // 持续有货时的再次提醒间隔，0 表示不提醒
+  notifySoldOut: boolean; // 补货后再次售罄时是否发送跟进消息
+  priceDropPercent: number; // 降价达到该百分比时提醒，0 表示不提醒
+}
+
+/**
+ * 监控列表优先级
+ */
+export type WatchlistPriority = 'high' | 'normal' | 'low';
+
+/**
+ * 监控列表条目
+ */
+export interface WatchlistEntry {
+  url: string;
+  label?: string;
+  priority: WatchlistPriority;
+  tags: string[];
+  enabled: boolean;
+  variants?: string[]; // 只关注的款式（skuId 或款式名称关键词）
+  releaseAt?: number; // 官方公布的发售时间，前后时段进入密集检查模式
+  mutedUntil?: number; // 静音截止时间，期间照常检查但不发送提醒
+  muteUntilRestock?: boolean; // 静音到下次补货，补货提醒照常发送并自动取消静音
+  addedAt: number;
 }
 
 /**
@@ -156,9 +603,232 @@ export interface TaskResult {
 export interface MonitoringTaskConfig {
   name: string;
   enabled: boolean;
-  interval?: number;
-  timeout?: number;
-  retries?: number;
+  interval?: number; // 上次运行结束到下次运行开始的间隔（毫秒）
+  timeout?: number; // 单次运行超时（毫秒）
+  retries?: number; // 失败后的重试次数
+}
+
+/**
+ * 常驻进程中的任务
+ */
+export type DaemonTaskName = 'xhs' | 'sgpm' | 'sgpmDiscovery' | 'sgpmBurst' | 'sgpmEscalation' | 'statusBoard';
+
+/**
+ * 常驻进程配置
+ */
+export interface DaemonConfig {
+  tasks: Record<DaemonTaskName, MonitoringTaskConfig>;
+  shutdownTimeout: number; // 收到退出信号后等待运行中任务结束的时间（毫秒）
+  server: StatusServerConfig;
+  bot: TelegramBotConfig;
+  board: TelegramBoardConfig;
+}
+
+/**
+ * Telegram 置顶状态板配置
+ */
+export interface TelegramBoardConfig {
+  chatIds: string[]; // 为空时使用通知的 CHAT_ID
+  stateFile: string; // 每个聊天的状态板 message_id
+}
+
+/**
+ * 单个聊天中的状态板消息
+ */
+export interface TelegramBoardMessage {
+  messageId: number;
+  text: string; // 最近一次写入的内容，未变化时不编辑
+  updatedAt: number;
+}
+
+/**
+ * Telegram 命令权限
+ * - admin: 所有命令
+ * - viewer: 只读命令（/status、/keywords、/help）
+ */
+export type TelegramBotRole = 'admin' | 'viewer';
+
+/**
+ * Telegram 内联键盘按钮（url 和 callback_data 二选一）
+ */
+export interface TelegramInlineButton {
+  text: string;
+  url?: string;
+  callback_data?: string; // 最长64字节
+}
+
+export interface TelegramReplyMarkup {
+  inline_keyboard: TelegramInlineButton[][];
+}
+
+/**
+ * 发送 Telegram 消息的可选参数
+ */
+export interface TelegramSendOptions {
+  replyMarkup?: TelegramReplyMarkup;
+  chatId?: string; // 发送到指定聊天，默认使用配置的 CHAT_ID
+  disableNotification?: boolean;
+}
+
+/**
+ * 通知事件类型，用于选择接收通知的渠道
+ * - sgpm_stock: SGPM 库存/价格提醒
+ * - sgpm_release: 发售时段密集检查的发售提醒
+ * - sgpm_escalation: 未确认补货提醒的升级（只发送到 Telegram）
+ * - sgpm_new_product: 新品发现与新产品ID
+ * - xhs_post: 小红书新帖子
+ * - report: 补货分析报告
+ */
+export type NotificationEventType = 'sgpm_stock' | 'sgpm_release' | 'sgpm_escalation' | 'sgpm_new_product' | 'xhs_post' | 'report';
+
+/**
+ * 通知渠道
+ */
+export type NotificationChannelName = 'telegram' | 'discord' | 'slack';
+
+/**
+ * 通知级别，决定 Discord embed 颜色等
+ */
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'alert';
+
+/**
+ * 通知中的字段（Discord embed field / Slack section field）
+ */
+export interface NotificationField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+/**
+ * Telegram 渠道的可选参数
+ */
+export interface TelegramNotificationOptions {
+  replyMarkup?: TelegramReplyMarkup;
+  chatIds?: string[]; // 发送到指定的聊天，默认使用配置的 CHAT_ID
+  disableNotification?: boolean;
+}
+
+/**
+ * 与渠道无关的通知内容，由各渠道渲染为自己的消息格式
+ */
+export interface Notification {
+  event: NotificationEventType;
+  title: string;
+  text: string; // 完整消息（Telegram HTML）；其他渠道没有 summary/fields 时转换为纯文本正文
+  summary?: string; // 纯文本摘要
+  fields?: NotificationField[];
+  url?: string;
+  urlLabel?: string;
+  level?: NotificationLevel;
+  timestamp?: number;
+  telegram?: TelegramNotificationOptions;
+}
+
+/**
+ * 通知渠道实现
+ */
+export interface Notifier {
+  readonly channel: NotificationChannelName;
+  /**
+   * 发送通知
+   * @throws 发送失败时抛出错误
+   */
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * 单个通知渠道的配置
+ */
+export interface NotificationChannelConfig {
+  enabled: boolean;
+  events: NotificationEventType[]; // 接收的事件类型，为空时接收所有事件
+  webhookUrl?: string; // Discord / Slack
+}
+
+/**
+ * 通知渠道与路由配置
+ */
+export type NotificationConfig = Record<NotificationChannelName, NotificationChannelConfig>;
+
+/**
+ * MQTT 输出配置（Home Assistant 集成）
+ */
+export interface MqttConfig {
+  enabled: boolean;
+  url: string; // mqtt://host:1883、mqtts://、ws://、wss://
+  username?: string;
+  password?: string;
+  clientId: string;
+  topicPrefix: string; // 状态与事件主题前缀，如 labubu/sgpm/<产品ID>/state
+  discovery: boolean; // 是否发布 Home Assistant MQTT 自动发现配置
+  discoveryPrefix: string;
+}
+
+/**
+ * Telegram 命令机器人配置
+ * 只接受白名单中的聊天或用户ID发来的命令
+ */
+export interface TelegramBotConfig {
+  enabled: boolean;
+  adminIds: string[];
+  viewerIds: string[];
+  pollTimeout: number; // getUpdates 长轮询等待时间（秒）
+}
+
+/**
+ * 内置 HTTP 状态服务配置
+ */
+export interface StatusServerConfig {
+  enabled: boolean;
+  port: number;
+  readyMaxAge: number; // 任务最近一次成功运行距今超过该时长（毫秒）视为未就绪；interval + timeout 更长的任务以后者为准
+  apiToken?: string; // 管理 API 的 Bearer Token，未设置时不开放 /api 接口
+}
+
+/**
+ * 单项就绪检查结果
+ */
+export interface ReadinessCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * 小红书最近一次运行的统计
+ */
+export interface XhsRunStats {
+  finishedAt: number;
+  totalPosts: number;
+  keywordMatches: number;
+  duplicatePosts: number;
+  newPostsSent: number;
+}
+
+/**
+ * 最近的错误日志
+ */
+export interface LoggedError {
+  at: number;
+  message: string;
+  error?: string;
+}
+
+/**
+ * 定时任务运行状态
+ */
+export interface ScheduledTaskStatus {
+  name: string;
+  running: boolean;
+  runs: number;
+  failures: number;
+  lastStartedAt?: number;
+  lastFinishedAt?: number;
+  lastSuccessAt?: number;
+  lastDuration?: number;
+  lastError?: string;
+  nextRunAt?: number;
 }
 
 /**
@@ -14,6 +14,7 @@ declare module 'node-fetch' {
     ok: boolean;
     status: number;
     statusText: string;
+    headers: { get(name: string): string | null };
     text(): Promise<string>;
     json(): Promise<any>;
   }
@@ -1,3 +1,5 @@
+import { ProductCheckResult, StockState } from '../types';
+
 /**
  * 优化的缓存管理器
  * 支持LRU淘汰、统计信息、批量操作等高级功能
@@ -347,7 +349,9 @@ export const httpCache = new OptimizedCacheManager<string>(5 * 60 * 1000, 500, 2
 /**
  * 产品状态缓存
  */
-export const productCache = new OptimizedCacheManager<{ title: string; inStock: boolean }>(2 * 60 * 1000, 200, 5 * 1024 * 1024);
+export const productCache = new OptimizedCacheManager<
+  { title: string; inStock: boolean; stockState?: StockState } & Partial<Pick<ProductCheckResult, 'price' | 'availability' | 'detectionSource' | 'skus'>>
+>(2 * 60 * 1000, 200, 5 * 1024 * 1024);
 
 /**
  * XHS帖子缓存
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { LoggerInstance } from './logger';
 import { httpCache } from './OptimizedCacheManager';
+import { TelegramSendOptions } from '../types';
 
 /**
  * 扩展的 Axios 请求配置，包含元数据
@@ -329,13 +330,18 @@ export class TelegramHttpClient extends OptimizedHttpClient {
 
   /**
    * 发送消息
+   * @returns 消息ID（message_id）
    */
-  async sendMessage(chatId: string, text: string, options?: any): Promise<AxiosResponse> {
-    return this.post('/sendMessage', {
+  async sendMessage(chatId: string, text: string, options: Omit<TelegramSendOptions, 'chatId'> & Record<string, unknown> = {}): Promise<number> {
+    const { replyMarkup, disableNotification, ...rest } = options;
+    const response = await this.post('/sendMessage', {
       chat_id: chatId,
       text,
       parse_mode: 'HTML',
-      ...options
+      disable_notification: disableNotification,
+      reply_markup: replyMarkup,
+      ...rest
     });
+    return response.data.result.message_id;
   }
 }
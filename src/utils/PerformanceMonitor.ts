@@ -3,6 +3,7 @@ import { CacheManagerFactory } from './OptimizedCacheManager';
 import { getNetworkOptimizer } from './NetworkOptimizer';
 import { getConcurrencyController } from './ConcurrencyController';
 import { getEnhancedResourceManager } from './EnhancedResourceManager';
+import { metrics } from './metrics';
 
 /**
  * 性能指标接口
@@ -305,6 +306,7 @@ export class PerformanceMonitor {
 
     benchmark.endTime = Date.now();
     benchmark.duration = benchmark.endTime - benchmark.startTime;
+    metrics.benchmarkDuration.observe({ name }, benchmark.duration / 1000);
 
     this.logger.info(`⏱️ 基准测试完成: ${name} - ${benchmark.duration}ms`);
     return benchmark;
@@ -0,0 +1,87 @@
+import { daemonConfig } from '../config';
+import { getProductKey } from './productIdentity';
+import { TelegramInlineButton, TelegramReplyMarkup } from '../types';
+
+/**
+ * 提醒消息上的按钮操作
+ * - mute_1h: 静音1小时
+ * - mute_restock: 静音到下次补货
+ * - ack: 确认（产品提醒：不再发送本次有货的"仍有库存"提醒）
+ * - recheck: 立即重新检查
+ */
+export type AlertAction = 'mute_1h' | 'mute_restock' | 'ack' | 'recheck';
+
+export interface AlertCallback {
+  action: AlertAction;
+  productKey?: string; // 小红书提醒没有产品键
+}
+
+const ALERT_ACTIONS: AlertAction[] = ['mute_1h', 'mute_restock', 'ack', 'recheck'];
+// Telegram callback_data 最长64字节
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+/**
+ * 按钮由常驻进程中的 Telegram 命令机器人处理，未启用时不附加回调按钮
+ */
+function isCallbackEnabled(): boolean {
+  const { enabled, adminIds, viewerIds } = daemonConfig.bot;
+  return enabled && (adminIds.length > 0 || viewerIds.length > 0);
+}
+
+function callbackData(action: AlertAction, productKey?: string): string {
+  return productKey ? `${action}|${productKey}` : action;
+}
+
+/**
+ * SGPM 提醒的按钮：打开产品、静音1小时、静音到下次补货、确认、重新检查
+ */
+export function buildProductAlertKeyboard(url: string): TelegramReplyMarkup {
+  const openButton = [{ text: '🛒 打开产品', url }];
+  const key = getProductKey(url);
+  if (!isCallbackEnabled() || Buffer.byteLength(callbackData('mute_restock', key)) > MAX_CALLBACK_DATA_BYTES) {
+    return { inline_keyboard: [openButton] };
+  }
+
+  return {
+    inline_keyboard: [
+      openButton,
+      [
+        { text: '🔕 静音1小时', callback_data: callbackData('mute_1h', key) },
+        { text: '🔕 静音到补货', callback_data: callbackData('mute_restock', key) }
+      ],
+      [
+        { text: '✅ 确认', callback_data: callbackData('ack', key) },
+        { text: '🔍 重新检查', callback_data: callbackData('recheck', key) }
+      ]
+    ]
+  };
+}
+
+/**
+ * 小红书提醒的按钮：打开帖子、确认
+ */
+export function buildPostAlertKeyboard(url: string): TelegramReplyMarkup | undefined {
+  // URL 无效时 Telegram 会拒绝整条消息
+  const rows: TelegramInlineButton[][] = /^https?:\/\//.test(url) ? [[{ text: '📖 打开帖子', url }]] : [];
+  if (isCallbackEnabled()) {
+    rows.push([{ text: '✅ 确认', callback_data: callbackData('ack') }]);
+  }
+  return rows.length > 0 ? { inline_keyboard: rows } : undefined;
+}
+
+/**
+ * 解析按钮回调数据，无法识别时返回 null
+ */
+export function parseAlertCallback(data: string): AlertCallback | null {
+  const separator = data.indexOf('|');
+  const action = (separator === -1 ? data : data.slice(0, separator)) as AlertAction;
+  if (!ALERT_ACTIONS.includes(action)) {
+    return null;
+  }
+
+  const productKey = separator === -1 ? undefined : data.slice(separator + 1);
+  if (!productKey && action !== 'ack') {
+    return null;
+  }
+  return { action, productKey };
+}
@@ -0,0 +1,55 @@
+/**
+ * 命令行参数解析工具函数
+ */
+
+export interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string | true>;
+}
+
+/**
+ * 解析命令行参数：位置参数与 --key value 选项
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const key = arg.slice(2);
+      const next = argv[i + 1];
+      if (next !== undefined && !next.startsWith('--')) {
+        options[key] = next;
+        i++;
+      } else {
+        options[key] = true;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, options };
+}
+
+/**
+ * 解析逗号分隔的选项值
+ */
+export function splitList(value: string | true | undefined): string[] | undefined {
+  if (typeof value !== 'string') return undefined;
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * 解析发售时间等时间参数：YYYY-MM-DD [HH:mm] 按新加坡时间解析，其他格式交给 Date.parse
+ * @throws 无法解析时抛出错误
+ */
+export function parseSgDateTime(value: string): number {
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/);
+  const time = match ? Date.parse(`${match[1]}T${match[2] || '00:00'}+08:00`) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`时间格式无效: ${value} (示例: 2026-10-20 10:00，新加坡时间)`);
+  }
+  return time;
+}
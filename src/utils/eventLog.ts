@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { LoggerInstance } from './logger';
+import { SgpmEvent, SgpmEventType } from '../types';
+
+/**
+ * 事件查询条件
+ */
+export interface SgpmEventFilter {
+  product?: string; // 规范化产品键、产品ID，或标题/URL中的关键词
+  from?: number; // 起始时间（含）
+  to?: number; // 结束时间（不含）
+  types?: SgpmEventType[];
+}
+
+/**
+ * 本次运行的ID：GitHub Actions 中为 run ID，本地为启动时间
+ */
+const RUN_ID = process.env.GITHUB_RUN_ID
+  ? `gh-${process.env.GITHUB_RUN_ID}${process.env.GITHUB_RUN_ATTEMPT ? `-${process.env.GITHUB_RUN_ATTEMPT}` : ''}`
+  : `local-${Date.now()}`;
+
+export function getRunId(): string {
+  return RUN_ID;
+}
+
+/**
+ * SGPM 事件日志
+ *
+ * 以 JSONL 格式只追加写入库存变化、价格变化和检查失败事件，
+ * 状态文件只保存最新快照，历史记录以这里为准。
+ */
+export class SgpmEventLog {
+  private filePath: string;
+  private logger: LoggerInstance;
+
+  constructor(filePath: string, logger: LoggerInstance) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * 追加一条事件（写入失败只记录日志，不影响监控流程）
+   */
+  append(event: Omit<SgpmEvent, 'runId'>): void {
+    const record: SgpmEvent = { ...event, runId: RUN_ID };
+    try {
+      const dir = path.dirname(this.filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      this.logger.error(`❌ 写入事件日志失败: ${this.filePath}`, error);
+    }
+  }
+
+  /**
+   * 读取事件，按时间升序返回
+   */
+  read(filter: SgpmEventFilter = {}): SgpmEvent[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const events: SgpmEvent[] = [];
+    const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n');
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        const event: SgpmEvent = JSON.parse(line);
+        if (matchesFilter(event, filter)) {
+          events.push(event);
+        }
+      } catch {
+        // 进程中断可能留下不完整的最后一行
+        this.logger.warn(`⚠️ 跳过无法解析的事件日志第 ${index + 1} 行`);
+      }
+    });
+
+    return events.sort((a, b) => a.at - b.at);
+  }
+}
+
+function matchesFilter(event: SgpmEvent, filter: SgpmEventFilter): boolean {
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) {
+    return false;
+  }
+  if (filter.from !== undefined && event.at < filter.from) {
+    return false;
+  }
+  if (filter.to !== undefined && event.at >= filter.to) {
+    return false;
+  }
+  if (filter.product) {
+    const query = filter.product.toLowerCase();
+    return event.productKey === filter.product
+      || event.productId === filter.product
+      || event.title.toLowerCase().includes(query)
+      || event.url.toLowerCase().includes(query);
+  }
+  return true;
+}
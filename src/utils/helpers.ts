@@ -127,6 +127,24 @@ export function formatDuration(ms: number): string {
   return `${hours}h ${remainingMinutes}m ${remainingSeconds}s`;
 }
 
+/**
+ * 解析持续时间，如 "30m"、"2h"、"1d"、"1h30m"
+ * @returns 毫秒数，格式无效时返回 null
+ */
+export function parseDuration(value: string): number | null {
+  const units: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+  const text = value.trim().toLowerCase();
+  if (!/^(\d+[smhd])+$/.test(text)) {
+    return null;
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+)([smhd])/g)) {
+    total += parseInt(amount) * units[unit];
+  }
+  return total > 0 ? total : null;
+}
+
 /**
  * 获取当前时间戳字符串
  */
@@ -1,7 +1,14 @@
+import { LoggedError } from '../types';
+
+// 保留的最近错误条数（用于状态接口）
+const MAX_RECENT_ERRORS = 50;
+
 /**
  * 增强的日志记录器，支持时间戳、颜色和结构化日志
  */
 export class Logger {
+  private recentErrors: LoggedError[] = [];
+
   private getTimestamp(): string {
     return new Date().toISOString();
   }
@@ -73,6 +80,22 @@ export class Logger {
     }
 
     console.error('\x1b[31m%s\x1b[0m', this.formatMessage('ERROR', message, errorData));
+
+    this.recentErrors.push({
+      at: Date.now(),
+      message,
+      error: typeof errorData === 'string' ? errorData : errorData?.message
+    });
+    if (this.recentErrors.length > MAX_RECENT_ERRORS) {
+      this.recentErrors.shift();
+    }
+  }
+
+  /**
+   * 获取最近的错误日志（按时间倒序）
+   */
+  getRecentErrors(limit: number = MAX_RECENT_ERRORS): LoggedError[] {
+    return this.recentErrors.slice(-limit).reverse();
   }
 
   debug(message: string, data?: any): void {
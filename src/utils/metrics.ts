@@ -0,0 +1,239 @@
+import type { Browser } from 'puppeteer';
+
+type Labels = Record<string, string>;
+
+// 默认直方图分桶（秒）
+const DEFAULT_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30, 60];
+
+/**
+ * Prometheus 标签值转义
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * 指标基类：按标签组合保存数值
+ */
+abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  protected labelNames: string[];
+  protected values: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected abstract render(labels: Labels, value: T): string[];
+
+  /**
+   * 取出（或创建）某个标签组合的数值
+   */
+  protected entry(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const normalized: Labels = {};
+    for (const name of this.labelNames) {
+      normalized[name] = labels[name] ?? '';
+    }
+
+    const key = JSON.stringify(normalized);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: normalized, value: create() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * 清空所有标签组合
+   */
+  reset(): void {
+    this.values.clear();
+  }
+
+  /**
+   * 输出 Prometheus 文本格式
+   */
+  collect(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(...this.render(labels, value));
+    }
+    return lines;
+  }
+}
+
+/**
+ * 只增计数器
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  /**
+   * 同步其他模块自行累计的计数（如缓存的 hits/misses）
+   */
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected render(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+/**
+ * 可设置的当前值
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected render(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * 直方图（累计分桶）
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.value.buckets[i]++;
+      }
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  protected render(labels: Labels, value: HistogramValue): string[] {
+    const lines = this.buckets.map((bound, i) =>
+      `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[i]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+/**
+ * 指标注册表
+ *
+ * 计数器和直方图在事件发生时更新；缓存命中率、浏览器池等当前值
+ * 由 collector 在每次输出前从各模块的 getStats() 读取。
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric<any>> = new Map();
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, () => new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(name, () => new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * 注册输出前执行的采集函数
+   */
+  addCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * 输出所有指标（Prometheus 文本格式）
+   */
+  render(): string {
+    for (const collector of this.collectors) {
+      collector();
+    }
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.collect());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private register<T extends Metric<any>>(name: string, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      return existing as T;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * 全局指标注册表
+ */
+export const metricsRegistry = new MetricsRegistry();
+
+/**
+ * 各模块共用的指标
+ */
+export const metrics = {
+  sgpmChecks: metricsRegistry.counter('labubu_sgpm_checks_total', 'SGPM产品检查次数（按产品和检测结果）', ['product', 'state']),
+  sgpmDetections: metricsRegistry.counter('labubu_sgpm_detection_source_total', 'SGPM库存检测使用的数据来源', ['source']),
+  sgpmCheckDuration: metricsRegistry.histogram('labubu_sgpm_check_duration_seconds', 'SGPM单个产品检查耗时（秒）', ['result']),
+  notifications: metricsRegistry.counter('labubu_notifications_total', '通知发送次数（按渠道和结果）', ['channel', 'result']),
+  browserLaunches: metricsRegistry.counter('labubu_browser_launches_total', '浏览器启动次数', ['manager', 'result']),
+  browserCrashes: metricsRegistry.counter('labubu_browser_crashes_total', '浏览器进程异常退出次数', ['manager']),
+  xhsPosts: metricsRegistry.counter('labubu_xhs_posts_total', '小红书帖子数（按过滤阶段）', ['stage']),
+  benchmarkDuration: metricsRegistry.histogram('labubu_benchmark_duration_seconds', 'PerformanceMonitor 基准耗时（秒）', ['name'])
+};
+
+/**
+ * 记录一次浏览器启动，并在浏览器进程异常退出（非0退出码或被信号终止）时计为崩溃
+ */
+export function recordBrowserLaunch(browser: Browser, manager: string): void {
+  metrics.browserLaunches.inc({ manager, result: 'success' });
+  browser.process()?.once('exit', (code, signal) => {
+    if (code !== 0 || signal) {
+      metrics.browserCrashes.inc({ manager });
+    }
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * 金额解析与比较工具函数
+ */
+
+import { Money, PriceInfo, PopMartSkuInfo } from '../types';
+import { formatPopMartPrice } from './popMartPageData';
+
+// 价格文本中的币种标记（按匹配优先级排列，S$ 要先于 $）
+const CURRENCY_MARKERS: Array<{ pattern: RegExp; currency: string }> = [
+  { pattern: /S\$|SGD/i, currency: 'SGD' },
+  { pattern: /US\$|USD/i, currency: 'USD' },
+  { pattern: /HK\$|HKD/i, currency: 'HKD' },
+  { pattern: /A\$|AUD/i, currency: 'AUD' },
+  { pattern: /RM|MYR/i, currency: 'MYR' }
+];
+
+/**
+ * 从价格文本解析金额，如 "S$37.90"、"SGD 1,299.00"
+ * @param defaultCurrency - 文本中没有币种标记时使用的币种
+ * @returns 无法解析时返回 null
+ */
+export function parseMoney(text: string, defaultCurrency: string = 'SGD'): Money | null {
+  const match = text.match(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/);
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseFloat(match[0].replace(/,/g, ''));
+  if (isNaN(amount)) {
+    return null;
+  }
+
+  const marker = CURRENCY_MARKERS.find(({ pattern }) => pattern.test(text));
+  return { amount, currency: marker ? marker.currency : defaultCurrency };
+}
+
+/**
+ * 格式化金额用于展示，如 S$37.90
+ */
+export function formatMoney(money: Money): string {
+  return formatPopMartPrice(money.amount, money.currency);
+}
+
+/**
+ * 从款式明细中取最低售价（附带该款式的原价）
+ */
+export function getPriceInfoFromSkus(skus: PopMartSkuInfo[], defaultCurrency: string = 'SGD'): PriceInfo | undefined {
+  const priced = skus.filter(sku => sku.price !== undefined);
+  if (priced.length === 0) {
+    return undefined;
+  }
+
+  const cheapest = priced.reduce((min, sku) => sku.price! < min.price! ? sku : min);
+  const currency = cheapest.currency || defaultCurrency;
+  return {
+    current: { amount: cheapest.price!, currency },
+    original: cheapest.originalPrice !== undefined ? { amount: cheapest.originalPrice, currency } : undefined
+  };
+}
+
+/**
+ * 两个价格是否相同（售价和原价都一致）
+ */
+export function isSamePrice(a: PriceInfo, b: PriceInfo): boolean {
+  return isSameMoney(a.current, b.current) && (
+    a.original && b.original ? isSameMoney(a.original, b.original) : !a.original && !b.original
+  );
+}
+
+function isSameMoney(a: Money, b: Money): boolean {
+  return a.currency === b.currency && Math.abs(a.amount - b.amount) < 0.005;
+}
+
+/**
+ * 计算降价百分比（涨价为负数），币种不同时返回 null
+ */
+export function getPriceDropPercent(previous: Money, current: Money): number | null {
+  if (previous.currency !== current.currency || previous.amount <= 0) {
+    return null;
+  }
+  return ((previous.amount - current.amount) / previous.amount) * 100;
+}
@@ -0,0 +1,333 @@
+/**
+ * PopMart 页面结构化数据解析
+ *
+ * PopMart 前端基于 Next.js，产品详情页会把产品/SKU 数据以 JSON 形式内嵌在页面中：
+ * - Pages Router: <script id="__NEXT_DATA__" type="application/json">...</script>
+ * - App Router:   self.__next_f.push([1, "..."]) 形式的 hydration payload
+ *
+ * 这里直接读取这些数据，避免依赖按钮文案和价格正则。
+ */
+
+import { parseProductIdentity } from './productIdentity';
+import { PopMartProductPageData, PopMartSkuInfo, StockDetectionSource } from '../types';
+
+/**
+ * 解析选项
+ */
+export interface PopMartParseOptions {
+  /** 数据中未声明币种时使用的默认币种 */
+  defaultCurrency?: string;
+  /** 数据来源标记 */
+  source?: StockDetectionSource;
+  /** 目标产品URL，只接受产品ID与之一致的产品节点（忽略推荐/相关商品） */
+  targetUrl?: string;
+}
+
+// 遍历 JSON 树时的安全上限，避免超大 payload 拖慢检查
+const MAX_VISITED_NODES = 50000;
+
+// POP NOW 套装数据中的盒子列表与 SKU 列表结构一致，按款式统一处理
+const PRODUCT_ID_KEYS = ['productId', 'spuId', 'setId', 'id'];
+const PRODUCT_TITLE_KEYS = ['title', 'productName', 'spuTitle', 'setName', 'name'];
+const SKU_LIST_KEYS = ['skus', 'skuList', 'skuInfos', 'boxList', 'boxes'];
+const SKU_ID_KEYS = ['skuId', 'boxId', 'id'];
+const SKU_TITLE_KEYS = ['title', 'skuTitle', 'skuName', 'boxName', 'name'];
+// 价格字段以元为单位，带 Cent/Cents/InCents 后缀的同名字段（如 priceCent）以分为单位
+const PRICE_KEYS = ['discountPrice', 'salePrice', 'price'];
+const ORIGINAL_PRICE_KEYS = ['originalPrice', 'marketPrice', 'listPrice', 'orgPrice'];
+const CURRENCY_KEYS = ['currency', 'currencyCode'];
+const CENT_KEY_SUFFIXES = ['Cent', 'Cents', 'InCents'];
+
+/**
+ * 从页面 HTML 中解析 PopMart 产品数据
+ * @returns 结构化产品数据，页面中没有可识别的产品数据时返回 null
+ */
+export function parsePopMartPageData(html: string, options: PopMartParseOptions = {}): PopMartProductPageData | null {
+  const payloads = extractHydrationPayloads(html);
+
+  for (const payload of payloads) {
+    const product = parsePopMartProductPayload(payload, options);
+    if (product) {
+      return product;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 从任意 JSON payload（页面数据或接口响应）中解析产品数据
+ */
+export function parsePopMartProductPayload(payload: unknown, options: PopMartParseOptions = {}): PopMartProductPageData | null {
+  const node = findProductNode(payload, getTargetProductId(options.targetUrl));
+  if (!node) {
+    return null;
+  }
+  return normalizeProductNode(node, options);
+}
+
+/**
+ * 提取页面中所有可能包含产品数据的 JSON payload
+ */
+function extractHydrationPayloads(html: string): unknown[] {
+  const payloads: unknown[] = [];
+
+  // Pages Router: __NEXT_DATA__
+  const nextDataMatch = html.match(/<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i);
+  if (nextDataMatch) {
+    const parsed = tryParseJson(nextDataMatch[1]);
+    if (parsed !== undefined) {
+      payloads.push(parsed);
+    }
+  }
+
+  // App Router: self.__next_f.push([1,"<rsc chunk>"])
+  const flightPattern = /self\.__next_f\.push\(\[\d+,\s*("(?:[^"\\]|\\.)*")\]\)/g;
+  const chunks: string[] = [];
+  let flightMatch: RegExpExecArray | null;
+  while ((flightMatch = flightPattern.exec(html)) !== null) {
+    const chunk = tryParseJson(flightMatch[1]);
+    if (typeof chunk === 'string') {
+      chunks.push(chunk);
+    }
+  }
+
+  if (chunks.length > 0) {
+    // RSC payload 每行形如 "<id>:<json>"
+    for (const line of chunks.join('').split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator <= 0) continue;
+      const body = line.substring(separator + 1);
+      if (!body.startsWith('{') && !body.startsWith('[')) continue;
+      const parsed = tryParseJson(body);
+      if (parsed !== undefined) {
+        payloads.push(parsed);
+      }
+    }
+  }
+
+  return payloads;
+}
+
+/**
+ * 目标URL中的产品ID，POP NOW 套装页的数据ID与URL不一定一致，不做过滤
+ */
+function getTargetProductId(targetUrl?: string): string | null {
+  const identity = targetUrl ? parseProductIdentity(targetUrl) : null;
+  return identity?.kind === 'product' ? identity.id : null;
+}
+
+/**
+ * 广度优先查找产品节点：同时具有 ID、标题和 SKU 列表的对象
+ * @param productId 指定时跳过ID不一致的产品节点（推荐、相关商品等）
+ */
+function findProductNode(root: unknown, productId: string | null): Record<string, any> | null {
+  const queue: unknown[] = [root];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_VISITED_NODES) {
+    const current = queue.shift();
+    visited++;
+
+    if (!current || typeof current !== 'object') {
+      continue;
+    }
+
+    if (Array.isArray(current)) {
+      queue.push(...current);
+      continue;
+    }
+
+    const node = current as Record<string, any>;
+    if (isProductNode(node)) {
+      if (!productId || String(pickFirst(node, PRODUCT_ID_KEYS)) === productId) {
+        return node;
+      }
+      continue; // 其他产品节点下的数据也属于其他产品
+    }
+
+    queue.push(...Object.values(node));
+  }
+
+  return null;
+}
+
+/**
+ * 判断对象是否为产品节点
+ */
+function isProductNode(node: Record<string, any>): boolean {
+  const skus = pickFirst(node, SKU_LIST_KEYS);
+  if (!Array.isArray(skus) || skus.length === 0) {
+    return false;
+  }
+
+  const id = pickFirst(node, PRODUCT_ID_KEYS);
+  const title = pickFirst(node, PRODUCT_TITLE_KEYS);
+  return (typeof id === 'string' || typeof id === 'number') && typeof title === 'string';
+}
+
+/**
+ * 将产品节点规范化为统一结构
+ */
+function normalizeProductNode(node: Record<string, any>, options: PopMartParseOptions): PopMartProductPageData {
+  const productCurrency = pickString(node, CURRENCY_KEYS) || options.defaultCurrency;
+  const rawSkus: any[] = pickFirst(node, SKU_LIST_KEYS);
+
+  const skus: PopMartSkuInfo[] = rawSkus
+    .filter(sku => sku && typeof sku === 'object')
+    .map((sku, index) => normalizeSku(sku, index, productCurrency));
+
+  const skuPrices = skus.map(sku => sku.price).filter((price): price is number => price !== undefined);
+  const price = skuPrices.length > 0 ? Math.min(...skuPrices) : readPrice(node, PRICE_KEYS);
+  const currency = skus.find(sku => sku.currency)?.currency || productCurrency;
+
+  return {
+    productId: String(pickFirst(node, PRODUCT_ID_KEYS)),
+    title: String(pickFirst(node, PRODUCT_TITLE_KEYS)).trim(),
+    skus,
+    price,
+    currency,
+    inStock: skus.some(sku => sku.inStock),
+    source: options.source || 'next-data'
+  };
+}
+
+/**
+ * 规范化单个 SKU
+ */
+function normalizeSku(sku: Record<string, any>, index: number, productCurrency?: string): PopMartSkuInfo {
+  const rawId = pickFirst(sku, SKU_ID_KEYS);
+  const stock = readStock(sku);
+
+  let inStock: boolean;
+  if (stock !== undefined) {
+    inStock = stock > 0;
+  } else if (typeof sku.isSoldOut === 'boolean') {
+    inStock = !sku.isSoldOut;
+  } else if (typeof sku.soldOut === 'boolean') {
+    inStock = !sku.soldOut;
+  } else if (typeof sku.inStock === 'boolean') {
+    inStock = sku.inStock;
+  } else {
+    inStock = false;
+  }
+
+  let title = (pickString(sku, SKU_TITLE_KEYS) || '').trim();
+  if (!title && sku.boxNumber !== undefined) {
+    title = `Box ${sku.boxNumber}`;
+  }
+
+  const price = readPrice(sku, PRICE_KEYS);
+
+  return {
+    skuId: rawId !== undefined ? String(rawId) : String(index),
+    title,
+    price,
+    originalPrice: readOriginalPrice(sku, price),
+    currency: pickString(sku, CURRENCY_KEYS) || productCurrency,
+    stock,
+    inStock
+  };
+}
+
+/**
+ * 读取 SKU 库存数量
+ * PopMart 的 stock 字段可能是数字，也可能是 { onlineStock, onlineLockStock } 对象
+ */
+function readStock(sku: Record<string, any>): number | undefined {
+  const stockField = sku.stock;
+
+  if (stockField && typeof stockField === 'object') {
+    const online = toNumber(stockField.onlineStock);
+    if (online !== undefined) {
+      const locked = toNumber(stockField.onlineLockStock) || 0;
+      return Math.max(online - locked, 0);
+    }
+    return toNumber(stockField.stock ?? stockField.available);
+  }
+
+  return toNumber(stockField ?? sku.onlineStock ?? sku.availableStock ?? sku.stockNum ?? sku.inventory);
+}
+
+/**
+ * 读取打折前的原价，没有折扣时返回 undefined
+ * 有 discountPrice/salePrice 时，price 字段即为原价
+ */
+function readOriginalPrice(sku: Record<string, any>, price: number | undefined): number | undefined {
+  let original = readPrice(sku, ORIGINAL_PRICE_KEYS);
+  if (original === undefined && readPrice(sku, ['discountPrice', 'salePrice']) !== undefined) {
+    original = readPrice(sku, ['price']);
+  }
+  return original !== undefined && price !== undefined && original > price ? original : undefined;
+}
+
+/**
+ * 按字段顺序读取价格（元）
+ * 每个字段先读以元为单位的原字段，再读以分为单位的 Cent 后缀字段（3790 = 37.90）
+ */
+function readPrice(node: Record<string, any>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const price = parsePriceValue(node[key]);
+    if (price !== undefined) {
+      return price;
+    }
+    for (const suffix of CENT_KEY_SUFFIXES) {
+      const cents = parsePriceValue(node[`${key}${suffix}`]);
+      if (cents !== undefined) {
+        return cents / 100;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 解析价格值（数字或 "S$37.90" 形式的字符串）
+ */
+function parsePriceValue(value: unknown): number | undefined {
+  if (typeof value === 'number' && isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[^\d.]/g, ''));
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function pickFirst(node: Record<string, any>, keys: string[]): any {
+  for (const key of keys) {
+    if (node[key] !== undefined && node[key] !== null) {
+      return node[key];
+    }
+  }
+  return undefined;
+}
+
+function pickString(node: Record<string, any>, keys: string[]): string | undefined {
+  const value = pickFirst(node, keys);
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 格式化价格用于展示，如 37.9 + SGD → S$37.90
+ */
+export function formatPopMartPrice(price: number, currency?: string): string {
+  const symbols: Record<string, string> = { SGD: 'S$', USD: 'US$', MYR: 'RM', HKD: 'HK$', AUD: 'A$' };
+  const prefix = currency ? (symbols[currency.toUpperCase()] || `${currency.toUpperCase()} `) : '$';
+  return `${prefix}${price.toFixed(2)}`;
+}
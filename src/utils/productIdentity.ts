@@ -0,0 +1,70 @@
+/**
+ * PopMart 产品身份工具函数
+ *
+ * 同一个产品可能以多种URL出现（不同的名称slug、编码方式、查询参数等），
+ * 状态记录统一使用从URL中解析出的 地区 + 产品ID（或 POP NOW 套装ID）作为键。
+ */
+
+import { ProductIdentity } from '../types';
+
+// /sg/products/5627/<slug>、/sg/pop-now/set/64，地区前缀可省略
+const PRODUCT_PATH_PATTERN = /^\/(?:([a-z]{2}(?:-[a-z]{2})?)\/)?(products|pop-now\/set)\/(\d+)(?:\/([^/]+))?/i;
+
+// URL中没有地区前缀时使用的地区
+const DEFAULT_REGION = 'global';
+
+/**
+ * 从产品URL中解析规范化身份
+ * @returns 非 PopMart 产品URL时返回 null
+ */
+export function parseProductIdentity(url: string): ProductIdentity | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (!parsed.hostname.endsWith('popmart.com')) {
+    return null;
+  }
+
+  const match = parsed.pathname.match(PRODUCT_PATH_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, region, type, id, rawSlug] = match;
+  const kind = type.toLowerCase() === 'products' ? 'product' : 'pop-now-set';
+  const normalizedRegion = (region || DEFAULT_REGION).toLowerCase();
+
+  return {
+    region: normalizedRegion,
+    kind,
+    id,
+    key: `${normalizedRegion}:${kind === 'product' ? 'product' : 'set'}:${id}`,
+    slug: rawSlug ? decodeSlug(rawSlug) : undefined
+  };
+}
+
+/**
+ * 获取产品的规范化键，无法解析时退回到去除首尾空白的URL
+ */
+export function getProductKey(url: string): string {
+  return parseProductIdentity(url)?.key || url.trim();
+}
+
+/**
+ * 判断两个URL是否指向同一个产品
+ */
+export function isSameProduct(a: string, b: string): boolean {
+  return getProductKey(a) === getProductKey(b);
+}
+
+function decodeSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * 补货分析报告
+ *
+ * 基于事件日志中的库存变化事件，统计每个产品/系列的补货次数、有货持续时长，
+ * 以及补货发生的时段分布（新加坡时间）。
+ */
+
+import { StockState, SgpmEvent, RestockReport, ProductRestockStats, SeriesRestockStats } from '../types';
+import { formatDuration } from './helpers';
+
+const TIMEZONE = 'Asia/Singapore';
+// 新加坡没有夏令时，固定 UTC+8
+const TIMEZONE_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+/**
+ * 报告中需要列出的已知产品（用于统计从未补货的产品）
+ */
+export interface KnownProduct {
+  productKey: string;
+  title: string;
+}
+
+/**
+ * 是否为补货事件（缺货 → 有货）
+ * 首次记录即为有货时无法确认是补货，不计入
+ */
+export function isRestockEvent(event: SgpmEvent): boolean {
+  return event.type === 'stock_change'
+    && event.newState === StockState.IN_STOCK
+    && !!event.oldState
+    && event.oldState !== StockState.IN_STOCK;
+}
+
+/**
+ * 时间戳对应的新加坡时间（小时、星期）
+ */
+export function getLocalTime(at: number): { hour: number; day: number } {
+  const local = new Date(at + TIMEZONE_OFFSET_MS);
+  return { hour: local.getUTCHours(), day: local.getUTCDay() };
+}
+
+/**
+ * 从产品标题中提取系列名称
+ * 如 "THE MONSTERS COCA COLA SERIES-Vinyl Face Blind Box" → "THE MONSTERS COCA COLA SERIES"
+ */
+export function getSeriesName(title: string): string {
+  const seriesMatch = title.match(/^(.*?\bSERIES)\b/i);
+  if (seriesMatch) {
+    return seriesMatch[1].trim();
+  }
+  return title.split(/\s+-\s+|-/)[0].trim() || title;
+}
+
+/**
+ * 生成补货分析报告
+ * @param events - 事件日志（需包含统计区间之前的事件，用于计算跨区间的有货时长）
+ * @param knownProducts - 已知产品列表
+ * @param from - 统计区间开始（含）
+ * @param to - 统计区间结束（不含）
+ */
+export function buildRestockReport(
+  events: SgpmEvent[],
+  knownProducts: KnownProduct[],
+  from: number,
+  to: number,
+  now: number = Date.now()
+): RestockReport {
+  const stockEvents = events
+    .filter(event => event.type === 'stock_change' && event.at < to)
+    .sort((a, b) => a.at - b.at);
+
+  // 标题以最近一次事件为准，其次使用已知产品中的标题
+  const titles = new Map<string, string>();
+  const productIds = new Map<string, string>();
+  knownProducts.forEach(product => titles.set(product.productKey, product.title));
+  stockEvents.forEach(event => {
+    titles.set(event.productKey, event.title);
+    if (event.productId) {
+      productIds.set(event.productKey, event.productId);
+    }
+  });
+
+  const hourOfDay = new Array(24).fill(0);
+  const dayOfWeek = new Array(7).fill(0);
+  const restocksByProduct = new Map<string, number[]>(); // 产品 → 补货时间
+  const durationsByProduct = new Map<string, number[]>(); // 产品 → 有货时长
+  const inStockSince = new Map<string, number>();
+
+  for (const event of stockEvents) {
+    const key = event.productKey;
+
+    if (event.newState === StockState.IN_STOCK) {
+      if (isRestockEvent(event) && event.at >= from) {
+        const restocks = restocksByProduct.get(key) || [];
+        restocks.push(event.at);
+        restocksByProduct.set(key, restocks);
+
+        const { hour, day } = getLocalTime(event.at);
+        hourOfDay[hour]++;
+        dayOfWeek[day]++;
+      }
+      inStockSince.set(key, event.at);
+    } else if (inStockSince.has(key)) {
+      const since = inStockSince.get(key)!;
+      inStockSince.delete(key);
+      // 跨区间开始的有货时段只计算区间内的部分
+      if (event.at >= from) {
+        const durations = durationsByProduct.get(key) || [];
+        durations.push(event.at - Math.max(since, from));
+        durationsByProduct.set(key, durations);
+      }
+    }
+  }
+
+  const products: ProductRestockStats[] = [...restocksByProduct.entries()].map(([key, restocks]) => {
+    const title = titles.get(key) || key;
+    return {
+      productKey: key,
+      productId: productIds.get(key),
+      title,
+      series: getSeriesName(title),
+      restocks: restocks.length,
+      medianInStockMs: median(durationsByProduct.get(key) || []),
+      lastRestockAt: restocks[restocks.length - 1]
+    };
+  }).sort((a, b) => b.restocks - a.restocks || a.title.localeCompare(b.title));
+
+  const seriesMap = new Map<string, { products: number; restocks: number; durations: number[] }>();
+  for (const product of products) {
+    const series = seriesMap.get(product.series) || { products: 0, restocks: 0, durations: [] };
+    series.products++;
+    series.restocks += product.restocks;
+    series.durations.push(...(durationsByProduct.get(product.productKey) || []));
+    seriesMap.set(product.series, series);
+  }
+
+  const series: SeriesRestockStats[] = [...seriesMap.entries()]
+    .map(([name, stats]) => ({
+      series: name,
+      products: stats.products,
+      restocks: stats.restocks,
+      medianInStockMs: median(stats.durations)
+    }))
+    .sort((a, b) => b.restocks - a.restocks || a.series.localeCompare(b.series));
+
+  const allKeys = new Set([...knownProducts.map(product => product.productKey), ...stockEvents.map(event => event.productKey)]);
+  const neverRestocked = [...allKeys]
+    .filter(key => !restocksByProduct.has(key))
+    .map(key => ({ productKey: key, title: titles.get(key) || key }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  return {
+    generatedAt: now,
+    from,
+    to,
+    timezone: TIMEZONE,
+    totalRestocks: products.reduce((sum, product) => sum + product.restocks, 0),
+    products,
+    series,
+    hourOfDay,
+    dayOfWeek,
+    neverRestocked
+  };
+}
+
+/**
+ * 报告文本摘要（用于 Telegram 周报）
+ */
+export function formatRestockReport(report: RestockReport): string {
+  const formatDate = (time: number) => new Date(time).toLocaleDateString('zh-CN', { timeZone: TIMEZONE });
+  const formatMedian = (ms: number | null) => ms !== null ? `有货中位数 ${formatDuration(ms)}` : '尚无售罄记录';
+
+  const lines: string[] = [
+    `📈 SGPM 补货报告 (${formatDate(report.from)} - ${formatDate(report.to - 1)})`,
+    '',
+    `🔁 补货次数: 共 ${report.totalRestocks} 次，涉及 ${report.products.length} 个产品`
+  ];
+
+  if (report.products.length > 0) {
+    lines.push('', '📦 各产品:');
+    report.products.forEach(product => {
+      lines.push(`• ${product.title} — ${product.restocks} 次, ${formatMedian(product.medianInStockMs)}`);
+    });
+
+    lines.push('', '🗂️ 各系列:');
+    report.series.forEach(series => {
+      lines.push(`• ${series.series} (${series.products} 个产品) — ${series.restocks} 次, ${formatMedian(series.medianInStockMs)}`);
+    });
+
+    const peakHours = report.hourOfDay
+      .map((count, hour) => ({ hour, count }))
+      .filter(item => item.count > 0)
+      .sort((a, b) => b.count - a.count || a.hour - b.hour)
+      .slice(0, 3)
+      .map(item => `${String(item.hour).padStart(2, '0')}:00-${String((item.hour + 1) % 24).padStart(2, '0')}:00 (${item.count} 次)`);
+    lines.push('', `🕐 补货高峰时段 (新加坡时间): ${peakHours.join(', ')}`);
+    lines.push(`📅 星期分布: ${report.dayOfWeek.map((count, day) => `${WEEKDAY_LABELS[day]} ${count}`).join(' | ')}`);
+  }
+
+  if (report.neverRestocked.length > 0) {
+    lines.push('', `🚫 统计期内从未补货 (${report.neverRestocked.length}):`);
+    report.neverRestocked.forEach(product => lines.push(`• ${product.title}`));
+  }
+
+  return lines.join('\n');
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -1,11 +1,16 @@
 import fetch, { Response } from 'node-fetch';
 import dotenv from 'dotenv';
 import { logger } from './logger';
+import { metrics } from './metrics';
+import { TelegramSendOptions } from '../types';
 
 dotenv.config();
 
-// 支持多种环境变量配置
-function getConfig(): { botToken: string; chatId: string } {
+/**
+ * 获取 Telegram 配置，支持多种环境变量配置
+ * @throws 未配置 Bot Token 或 Chat ID 时抛出错误
+ */
+export function getTelegramConfig(): { botToken: string; chatId: string } {
   // 优先使用 SGPM 专用配置
   const sgpmBotToken = process.env.SGMP_BOT_TOKEN || process.env.SGPM_BOT_TOKEN;
   const sgpmChatId = process.env.SGMP_CHAT_ID || process.env.SGPM_CHAT_ID;
@@ -26,17 +31,43 @@ function getConfig(): { botToken: string; chatId: string } {
   throw new Error('请在环境变量中配置 SGPM_BOT_TOKEN 和 SGPM_CHAT_ID (或 BOT_TOKEN 和 CHAT_ID)');
 }
 
+/**
+ * 调用 Telegram Bot API
+ * @throws 请求失败或返回 ok=false 时抛出错误，错误信息包含 Telegram 的 description
+ */
+export async function callTelegramApi<T = unknown>(method: string, params: Record<string, unknown>, timeout: number = 10000): Promise<T> {
+  const { botToken } = getTelegramConfig();
+
+  const res = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'LabubuWatcher/1.0'
+    },
+    body: JSON.stringify(params),
+    timeout
+  }) as Response;
+
+  const data = await res.json() as { ok: boolean; result: T; description?: string };
+  if (!data.ok) {
+    throw new Error(`Telegram ${method} 失败: ${res.status} ${data.description || res.statusText}`);
+  }
+  return data.result;
+}
+
 // 验证必需的环境变量
 function validateConfig(): { botToken: string; chatId: string } {
-  return getConfig();
+  return getTelegramConfig();
 }
 
 /**
  * 发送 Telegram 消息，包含重试机制和详细错误处理
  * @param text 要发送的消息文本
+ * @param options 内联键盘等可选参数
  * @param retries 重试次数，默认为 3
+ * @returns 消息ID（message_id），无法解析响应时为 undefined
  */
-export async function sendTelegramMessage(text: string, retries: number = 3): Promise<void> {
+export async function sendTelegramMessage(text: string, options: TelegramSendOptions = {}, retries: number = 3): Promise<number | undefined> {
   const { botToken, chatId } = validateConfig();
 
   // 验证消息长度（Telegram 限制为 4096 字符）
@@ -64,17 +95,22 @@ export async function sendTelegramMessage(text: string, retries: number = 3): Pr
           'User-Agent': 'LabubuWatcher/1.0'
         },
         body: JSON.stringify({
-          chat_id: chatId,
+          chat_id: options.chatId || chatId,
           text,
           parse_mode: 'HTML',
-          disable_web_page_preview: true
+          disable_web_page_preview: true,
+          disable_notification: options.disableNotification,
+          reply_markup: options.replyMarkup
         }),
         timeout: 10000 // 10秒超时
       }) as Response;
 
       if (res.ok) {
+        // 响应解析失败不应触发重试（消息已发送）
+        const data = await res.json().catch(() => null) as { result?: { message_id: number } } | null;
         logger.success('Telegram 消息发送成功');
-        return;
+        metrics.notifications.inc({ channel: 'telegram', result: 'success' });
+        return data?.result?.message_id;
       }
 
       const errorText = await res.text();
@@ -104,6 +140,7 @@ export async function sendTelegramMessage(text: string, retries: number = 3): Pr
 
       if (attempt === retries) {
         logger.error('Telegram 消息发送失败，网络或其他错误', errorData);
+        metrics.notifications.inc({ channel: 'telegram', result: 'failure' });
         throw error;
       } else {
         logger.warn('Telegram 消息发送遇到错误，将重试', errorData);
@@ -111,4 +148,7 @@ export async function sendTelegramMessage(text: string, retries: number = 3): Pr
       }
     }
   }
-}
\ No newline at end of file
+
+  // 仅在 retries < 1 时到达
+  throw new Error(`Telegram 推送失败: 重试次数无效 (${retries})`);
+}
@@ -0,0 +1,107 @@
+/**
+ * SGPM 状态文件版本与迁移
+ *
+ * 版本历史：
+ * - v0: 以产品URL为键，值为完整状态对象或更早版本留下的 true/false
+ * - v1: { schemaVersion, products }，以规范化产品键（sg:product:5627）为键
+ */
+
+import { SgpmProductStatus, SgpmStatusFile, SgpmStatusRecord } from '../types';
+import { parseProductIdentity, getProductKey } from './productIdentity';
+import { stockStateFromBoolean } from './stockState';
+
+export const SGPM_STATUS_SCHEMA_VERSION = 1;
+
+/**
+ * 空的当前版本状态文件
+ */
+export function createEmptySgpmStatus(): SgpmStatusFile {
+  return { schemaVersion: SGPM_STATUS_SCHEMA_VERSION, products: {} };
+}
+
+/**
+ * 将旧版本状态数据迁移到当前版本
+ */
+export function migrateSgpmStatus(raw: any, fromVersion: number): SgpmStatusFile {
+  let products: SgpmStatusRecord = {};
+
+  if (fromVersion < 1) {
+    products = migrateLegacyRecord(raw);
+  }
+
+  return { schemaVersion: SGPM_STATUS_SCHEMA_VERSION, products };
+}
+
+/**
+ * v0 → v1：按产品身份合并URL键，并把布尔值转换为状态对象
+ */
+function migrateLegacyRecord(raw: any): SgpmStatusRecord {
+  const products: SgpmStatusRecord = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return products;
+  }
+
+  for (const [url, value] of Object.entries(raw)) {
+    const status = toProductStatus(url, value);
+    if (!status) {
+      continue;
+    }
+
+    const key = getProductKey(url);
+    products[key] = products[key] ? mergeStatuses(products[key], status) : status;
+  }
+
+  return products;
+}
+
+function toProductStatus(url: string, value: unknown): SgpmProductStatus | null {
+  if (typeof value === 'boolean') {
+    const identity = parseProductIdentity(url);
+    return {
+      title: identity?.slug || (identity ? `#${identity.id}` : url),
+      url,
+      inStock: value,
+      stockState: stockStateFromBoolean(value),
+      lastChecked: 0
+    };
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const status = value as SgpmProductStatus;
+    return {
+      ...status,
+      url: status.url || url,
+      inStock: !!status.inStock,
+      lastChecked: typeof status.lastChecked === 'number' ? status.lastChecked : 0
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 合并同一产品的多条旧记录：以最近检查的记录为准，保留最近的提醒时间和所有款式
+ */
+function mergeStatuses(a: SgpmProductStatus, b: SgpmProductStatus): SgpmProductStatus {
+  const [older, newer] = a.lastChecked <= b.lastChecked ? [a, b] : [b, a];
+  const merged: SgpmProductStatus = { ...older };
+
+  for (const [field, value] of Object.entries(newer)) {
+    if (value !== undefined) {
+      (merged as any)[field] = value;
+    }
+  }
+
+  const notifiedTimes = [older.lastNotifiedAt, newer.lastNotifiedAt].filter((time): time is number => time !== undefined);
+  merged.lastNotifiedAt = notifiedTimes.length > 0 ? Math.max(...notifiedTimes) : undefined;
+
+  if (!merged.inStock) {
+    merged.inStockSince = undefined;
+  }
+
+  if (older.variants || newer.variants) {
+    merged.variants = { ...older.variants, ...newer.variants };
+  }
+
+  return merged;
+}
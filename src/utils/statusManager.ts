@@ -2,28 +2,54 @@ import fs from 'fs';
 import path from 'path';
 import { LoggerInstance } from './logger';
 
+/**
+ * 带版本号的状态文件配置
+ * @template T - 当前版本的状态对象类型（需包含 schemaVersion 字段）
+ */
+export interface StatusSchemaOptions<T> {
+  version: number; // 当前版本号
+  migrate: (raw: any, fromVersion: number) => T; // 将旧版本数据升级到当前版本
+}
+
 /**
  * 一个通用的状态管理器，用于处理JSON文件的读写和更新。
  * 包含完善的错误处理、备份机制和数据验证。
  * @template T - 状态对象的类型
  */
 export class StatusManager<T> {
+  // 有未写入修改（防抖中）的实例，进程退出前统一写入
+  private static pending: Set<StatusManager<any>> = new Set();
+
   private filePath: string;
   private backupPath: string;
   private logger: LoggerInstance;
   private data: T;
   private saveTimeout: NodeJS.Timeout | null = null;
   private readonly maxBackups: number = 3;
+  private schema?: StatusSchemaOptions<T>;
+  private migrated: boolean = false;
+  private fileMtime: number | null = null; // 最近一次读取或写入后主文件的修改时间
 
-  constructor(filePath: string, logger: LoggerInstance, initialData: T) {
+  /**
+   * @param schema - 状态文件版本配置；设置后旧版本文件会在加载时迁移，未知的新版本文件会拒绝加载
+   * @throws 状态文件版本高于当前支持的版本时抛出错误
+   */
+  constructor(filePath: string, logger: LoggerInstance, initialData: T, schema?: StatusSchemaOptions<T>) {
     this.filePath = filePath;
     this.backupPath = `${filePath}.backup`;
     this.logger = logger;
+    this.schema = schema;
     this.data = this.load(initialData);
+    this.fileMtime = this.getFileMtime();
 
     // 确保目录存在
     this.ensureDirectoryExists();
 
+    // 迁移后立即写回，旧文件保留在备份中
+    if (this.migrated) {
+      this.save();
+    }
+
     // 在GitHub Actions环境中设置进程退出时的强制保存
     const isGitHubActions = process.env.GITHUB_ACTIONS === 'true';
     if (isGitHubActions) {
@@ -77,7 +103,7 @@ export class StatusManager<T> {
     const mainData = this.tryLoadFile(this.filePath);
     if (mainData !== null) {
       this.logger.info(`成功加载状态文件: ${this.filePath}`);
-      return mainData;
+      return this.applySchema(mainData, this.filePath);
     }
 
     // 如果主文件失败，尝试加载备份文件
@@ -85,9 +111,10 @@ export class StatusManager<T> {
     const backupData = this.tryLoadFile(this.backupPath);
     if (backupData !== null) {
       this.logger.success(`成功从备份文件恢复数据: ${this.backupPath}`);
+      const restored = this.applySchema(backupData, this.backupPath);
       // 恢复主文件
-      this.saveToFile(this.filePath, backupData);
-      return backupData;
+      this.saveToFile(this.filePath, restored);
+      return restored;
     }
 
     // 如果都失败了，使用初始数据
@@ -95,6 +122,32 @@ export class StatusManager<T> {
     return initialData;
   }
 
+  /**
+   * 检查状态文件版本，旧版本数据迁移到当前版本
+   * @param data - 从文件读取的原始数据
+   * @param filePath - 数据来源文件（用于日志）
+   * @returns 当前版本的数据
+   */
+  private applySchema(data: any, filePath: string): T {
+    if (!this.schema) {
+      return data;
+    }
+
+    const fileVersion = typeof data?.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+    if (fileVersion > this.schema.version) {
+      throw new Error(`状态文件版本 ${fileVersion} 高于当前支持的版本 ${this.schema.version}，拒绝加载: ${filePath}`);
+    }
+
+    if (fileVersion < this.schema.version) {
+      this.logger.info(`🔄 迁移状态文件: ${filePath} (v${fileVersion} → v${this.schema.version})`);
+      this.migrated = true;
+      return this.schema.migrate(data, fileVersion);
+    }
+
+    return data;
+  }
+
   /**
    * 尝试加载单个文件
    * @param filePath - 文件路径
@@ -144,6 +197,81 @@ export class StatusManager<T> {
     this.debouncedSave();
   }
 
+  /**
+   * 主文件被其他进程（如命令行工具）修改后重新加载，常驻进程在读写前调用，避免覆盖外部修改
+   * 内存中有尚未写入的修改时不重新加载，以内存中的数据为准
+   * @returns 是否重新加载了数据
+   * @throws 状态文件版本高于当前支持的版本时抛出错误
+   */
+  public reloadIfChanged(): boolean {
+    const mtime = this.getFileMtime();
+    if (mtime === null || mtime === this.fileMtime) {
+      return false;
+    }
+
+    this.fileMtime = mtime;
+    if (StatusManager.pending.has(this)) {
+      this.logger.warn(`⚠️ 状态文件已被其他进程修改，但有未保存的修改，保留当前数据: ${this.filePath}`);
+      return false;
+    }
+
+    const data = this.tryLoadFile(this.filePath);
+    if (data === null) {
+      return false;
+    }
+    this.data = this.applySchema(data, this.filePath);
+    this.logger.info(`🔄 状态文件已被其他进程修改，重新加载: ${this.filePath}`);
+    return true;
+  }
+
+  /**
+   * 只读加载状态文件（主文件失败时读取备份），旧版本数据只在内存中迁移，不写回文件，
+   * 适用于报告等不应修改状态文件的读取场景
+   * @returns 文件都不存在或无法解析时返回初始数据
+   * @throws 状态文件版本高于当前支持的版本时抛出错误
+   */
+  public static read<T>(filePath: string, logger: LoggerInstance, initialData: T, schema?: StatusSchemaOptions<T>): T {
+    for (const candidate of [filePath, `${filePath}.backup`]) {
+      let data: any;
+      try {
+        if (!fs.existsSync(candidate)) continue;
+        const fileContent = fs.readFileSync(candidate, 'utf-8');
+        if (!fileContent.trim()) continue;
+        data = JSON.parse(fileContent);
+      } catch (error) {
+        logger.warn(`读取或解析文件失败: ${candidate}`, error);
+        continue;
+      }
+      if (data === null || data === undefined) continue;
+
+      if (!schema) {
+        return data;
+      }
+      const fileVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+      if (fileVersion > schema.version) {
+        throw new Error(`状态文件版本 ${fileVersion} 高于当前支持的版本 ${schema.version}，拒绝加载: ${candidate}`);
+      }
+      return fileVersion < schema.version ? schema.migrate(data, fileVersion) : data;
+    }
+    return initialData;
+  }
+
+  /**
+   * 立即写入所有尚未保存的状态（常驻进程退出前调用）
+   * @returns 写入的文件数
+   */
+  public static flushAll(): number {
+    const managers = [...StatusManager.pending];
+    managers.forEach(manager => {
+      try {
+        manager.save();
+      } catch {
+        // save() 已记录错误，继续写入其他文件
+      }
+    });
+    return managers.length;
+  }
+
   /**
    * 防抖保存，避免频繁写入
    */
@@ -152,6 +280,7 @@ export class StatusManager<T> {
       clearTimeout(this.saveTimeout);
     }
     this.saveTimeout = setTimeout(() => this.save(), 500);
+    StatusManager.pending.add(this);
   }
 
   /**
@@ -164,6 +293,7 @@ export class StatusManager<T> {
         clearTimeout(this.saveTimeout);
         this.saveTimeout = null;
       }
+      StatusManager.pending.delete(this);
 
       // 创建备份（如果主文件存在）
       if (fs.existsSync(this.filePath)) {
@@ -172,6 +302,7 @@ export class StatusManager<T> {
 
       // 保存到主文件
       this.saveToFile(this.filePath, this.data);
+      this.fileMtime = this.getFileMtime();
 
       // 在GitHub Actions环境中进行额外验证
       const isGitHubActions = process.env.GITHUB_ACTIONS === 'true';
@@ -269,6 +400,14 @@ export class StatusManager<T> {
     }
   }
 
+  private getFileMtime(): number | null {
+    try {
+      return fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * 获取文件统计信息
    */
@@ -0,0 +1,85 @@
+/**
+ * 库存状态工具函数
+ */
+
+import { StockState } from '../types';
+
+/**
+ * 需要单独识别的特殊状态文案（优先于普通缺货关键词）
+ */
+const SPECIAL_STATE_KEYWORDS: Array<{ state: StockState; keywords: string[] }> = [
+  { state: StockState.APP_ONLY, keywords: ['in-app purchase only', 'app purchase only', '仅限app购买'] },
+  { state: StockState.REGION_LOCKED, keywords: ['not available in your region', 'not available in your country', '所在地区不可购买'] },
+  { state: StockState.PREORDER, keywords: ['pre-order', 'preorder', '预售'] }
+];
+
+const STOCK_STATE_LABELS: Record<StockState, string> = {
+  [StockState.IN_STOCK]: '✅ 有货',
+  [StockState.OUT_OF_STOCK]: '❌ 缺货',
+  [StockState.UNKNOWN]: '❓ 未知',
+  [StockState.APP_ONLY]: '📱 仅限App购买',
+  [StockState.REGION_LOCKED]: '🌏 地区限制',
+  [StockState.PREORDER]: '⏳ 预售'
+};
+
+/**
+ * 从按钮/可用性文本中识别特殊库存状态
+ * 只传入可见文本：原始HTML的脚本和内嵌JSON中常有 isPreOrder 之类的字段名，会被误判为预售；
+ * 页面HTML先经过 extractVisibleText 处理
+ * @returns 命中的特殊状态，未命中返回 null
+ */
+export function detectSpecialStockState(text: string): StockState | null {
+  const textLower = text.toLowerCase();
+  for (const { state, keywords } of SPECIAL_STATE_KEYWORDS) {
+    if (keywords.some(keyword => textLower.includes(keyword))) {
+      return state;
+    }
+  }
+  return null;
+}
+
+/**
+ * 提取页面HTML的可见文本（去掉脚本、样式、注释和标签）
+ */
+export function extractVisibleText(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|template)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 布尔库存值转换为库存状态
+ */
+export function stockStateFromBoolean(inStock: boolean): StockState {
+  return inStock ? StockState.IN_STOCK : StockState.OUT_OF_STOCK;
+}
+
+/**
+ * 读取持久化记录的库存状态（兼容只有 inStock 字段的旧记录）
+ */
+export function resolveStockState(status: { inStock: boolean; stockState?: StockState }): StockState {
+  return status.stockState || stockStateFromBoolean(status.inStock);
+}
+
+/**
+ * 判断是否为有效的库存变化
+ * 来自或去往 UNKNOWN 的变化都不计入，首次记录视为变化
+ */
+export function isStockChange(previous: StockState | undefined, current: StockState): boolean {
+  if (current === StockState.UNKNOWN || previous === StockState.UNKNOWN) {
+    return false;
+  }
+  return previous !== current;
+}
+
+/**
+ * 库存状态展示文案
+ */
+export function getStockStateLabel(state: StockState): string {
+  return STOCK_STATE_LABELS[state] || STOCK_STATE_LABELS[StockState.UNKNOWN];
+}
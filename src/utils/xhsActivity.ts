@@ -0,0 +1,69 @@
+import { LoggerInstance } from './logger';
+import { StatusManager } from './statusManager';
+import { XhsActivity, XhsMatchedPost, XhsPostData, XhsSecurityIncident } from '../types';
+
+/**
+ * 小红书活动记录
+ *
+ * 去重列表只保存帖子URL，这里额外保存最近推送的帖子详情和安全验证记录，
+ * 供看板展示。两个列表都按时间倒序，超过 maxEntries 的旧记录会被丢弃。
+ */
+export class XhsActivityLog {
+  private statusManager: StatusManager<XhsActivity>;
+  private maxEntries: number;
+
+  constructor(filePath: string, logger: LoggerInstance, maxEntries: number) {
+    this.maxEntries = maxEntries;
+    this.statusManager = new StatusManager<XhsActivity>(filePath, logger, { recentPosts: [], securityIncidents: [] });
+  }
+
+  /**
+   * 只读读取活动记录（看板等读取场景，不注册退出保存）
+   */
+  static read(filePath: string, logger: LoggerInstance): XhsActivity {
+    return StatusManager.read<XhsActivity>(filePath, logger, { recentPosts: [], securityIncidents: [] });
+  }
+
+  /**
+   * 记录一条已推送的帖子
+   */
+  recordPost(post: XhsPostData, now: number = Date.now()): void {
+    const entry: XhsMatchedPost = {
+      url: post.url,
+      title: post.previewTitle,
+      author: post.author,
+      publishTime: post.publishTime,
+      location: post.location,
+      sentAt: now
+    };
+
+    const activity = this.statusManager.get();
+    activity.recentPosts = [entry, ...activity.recentPosts].slice(0, this.maxEntries);
+    this.statusManager.set(activity);
+  }
+
+  /**
+   * 记录安全验证
+   */
+  recordSecurityIncidents(incidents: XhsSecurityIncident[]): void {
+    if (incidents.length === 0) {
+      return;
+    }
+
+    const activity = this.statusManager.get();
+    const newest = [...incidents].sort((a, b) => b.at - a.at);
+    activity.securityIncidents = [...newest, ...activity.securityIncidents].slice(0, this.maxEntries);
+    this.statusManager.set(activity);
+  }
+
+  get(): XhsActivity {
+    return this.statusManager.get();
+  }
+
+  /**
+   * 立即保存
+   */
+  save(): void {
+    this.statusManager.save();
+  }
+}
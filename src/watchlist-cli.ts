@@ -0,0 +1,195 @@
+#!/usr/bin/env node
+
+/**
+ * SGPM 监控列表管理命令行工具
+ *
+ * 用法：
+ *   watchlist add <url> [--label 名称] [--priority high|normal|low] [--tags a,b] [--variants single,multiple] [--release "2026-10-20 10:00"]
+ *   watchlist remove <url|序号>
+ *   watchlist list [--tag 标签] [--all]
+ *   watchlist enable <url|序号>
+ *   watchlist disable <url|序号>
+ *   watchlist release <url|序号> <"2026-10-20 10:00"|clear>   （发售时间按新加坡时间解析）
+ *   watchlist alerts <url|序号> [--cooldown 分钟|default] [--reminder 分钟|default]   （单个产品的提醒参数，保存在状态记录中）
+ *   watchlist import [文件]   （不指定文件时导入 config-sgpm.ts 中的默认产品）
+ */
+
+import fs from 'fs';
+import { logger } from './utils/logger';
+import { parseArgs, splitList, parseSgDateTime } from './utils/cliArgs';
+import { sgpmConfig } from './config-sgpm';
+import { getWatchlistManager, WatchlistEntryOptions } from './services/WatchlistManager';
+import { SgpmStatusTracker } from './services/SgpmStatusTracker';
+import { SgpmProductStatus, WatchlistEntry, WatchlistPriority } from './types';
+
+const USAGE = `用法:
+  watchlist add <url> [--label 名称] [--priority high|normal|low] [--tags a,b] [--variants single,multiple] [--release "2026-10-20 10:00"]
+  watchlist remove <url|序号>
+  watchlist list [--tag 标签] [--all]
+  watchlist enable <url|序号>
+  watchlist disable <url|序号>
+  watchlist release <url|序号> <"2026-10-20 10:00"|clear>
+  watchlist alerts <url|序号> [--cooldown 分钟|default] [--reminder 分钟|default]
+  watchlist import [文件]`;
+
+function toEntryOptions(options: Record<string, string | true>): WatchlistEntryOptions {
+  return {
+    label: typeof options.label === 'string' ? options.label : undefined,
+    priority: typeof options.priority === 'string' ? options.priority as WatchlistPriority : undefined,
+    tags: splitList(options.tags),
+    variants: splitList(options.variants),
+    releaseAt: typeof options.release === 'string' ? parseSgDateTime(options.release) : undefined
+  };
+}
+
+/**
+ * 解析提醒参数（分钟），default 表示恢复默认配置
+ * @returns 未指定时返回 null
+ * @throws 不是非负整数时抛出错误
+ */
+function parseMinutesOption(value: string | true | undefined, name: string): number | undefined | null {
+  if (value === undefined) return null;
+  if (value === 'default') return undefined;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new Error(`--${name} 必须是非负整数分钟数或 default`);
+  }
+  return parseInt(value);
+}
+
+/**
+ * 设置单个产品的补货提醒冷却时间和"仍有库存"提醒间隔
+ */
+function setAlertSettings(urlOrIndex: string, options: Record<string, string | true>): void {
+  const url = getWatchlistManager(logger).find(urlOrIndex)?.url || urlOrIndex;
+  const cooldown = parseMinutesOption(options.cooldown, 'cooldown');
+  const reminder = parseMinutesOption(options.reminder, 'reminder');
+  const tracker = new SgpmStatusTracker(sgpmConfig.statusFile, logger, sgpmConfig.alerts);
+
+  if (cooldown === null && reminder === null) {
+    const status = tracker.getProductStatus(url);
+    if (!status) throw new Error(`产品尚无状态记录: ${url}`);
+    logger.info(`⚙️ ${status.title}: 冷却 ${status.cooldownMinutes ?? `${sgpmConfig.alerts.cooldownMinutes} (默认)`} 分钟, 仍有库存提醒间隔 ${status.reminderIntervalMinutes ?? `${sgpmConfig.alerts.reminderIntervalMinutes} (默认)`} 分钟`);
+    return;
+  }
+
+  const settings: Pick<SgpmProductStatus, 'cooldownMinutes' | 'reminderIntervalMinutes'> = {};
+  if (cooldown !== null) settings.cooldownMinutes = cooldown;
+  if (reminder !== null) settings.reminderIntervalMinutes = reminder;
+  if (!tracker.setProductAlertSettings(url, settings)) {
+    throw new Error(`产品尚无状态记录，请在首次检查后再设置: ${url}`);
+  }
+  tracker.save();
+  logger.success(`✅ 已更新提醒参数: ${url}`);
+}
+
+function formatEntry(entry: WatchlistEntry, index: number): string {
+  const status = entry.enabled ? '✅' : '⏸️';
+  const tags = entry.tags.length > 0 ? ` #${entry.tags.join(' #')}` : '';
+  const variants = entry.variants ? ` 🎯${entry.variants.join(',')}` : '';
+  const release = entry.releaseAt ? ` ⏰${new Date(entry.releaseAt).toLocaleString('zh-CN', { timeZone: 'Asia/Singapore', hour12: false })}` : '';
+  return `${index + 1}. ${status} [${entry.priority}] ${entry.label || '(无名称)'}${tags}${variants}${release}\n   ${entry.url}`;
+}
+
+/**
+ * 读取导入文件：JSON 数组（URL 字符串或条目对象），或每行一个URL的文本文件
+ */
+function readImportFile(filePath: string): Array<string | (WatchlistEntryOptions & { url: string })> {
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  if (filePath.endsWith('.json')) {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON 导入文件必须是数组');
+    }
+    return parsed;
+  }
+
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'));
+}
+
+function main(): void {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+  const watchlist = getWatchlistManager(logger);
+
+  switch (command) {
+    case 'add': {
+      if (!positional[0]) throw new Error('缺少产品URL');
+      watchlist.add(positional[0], toEntryOptions(options));
+      break;
+    }
+
+    case 'remove': {
+      if (!positional[0]) throw new Error('缺少产品URL或序号');
+      watchlist.remove(positional[0]);
+      break;
+    }
+
+    case 'enable':
+    case 'disable': {
+      if (!positional[0]) throw new Error('缺少产品URL或序号');
+      watchlist.setEnabled(positional[0], command === 'enable');
+      break;
+    }
+
+    case 'release': {
+      if (!positional[0]) throw new Error('缺少产品URL或序号');
+      if (!positional[1]) throw new Error('缺少发售时间（或 clear 清除）');
+      watchlist.setReleaseTime(positional[0], positional[1] === 'clear' ? undefined : parseSgDateTime(positional[1]));
+      break;
+    }
+
+    case 'alerts': {
+      if (!positional[0]) throw new Error('缺少产品URL或序号');
+      setAlertSettings(positional[0], options);
+      return;
+    }
+
+    case 'list': {
+      const tag = typeof options.tag === 'string' ? options.tag : undefined;
+      const entries = watchlist.list()
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ entry }) => options.all || entry.enabled)
+        .filter(({ entry }) => !tag || entry.tags.includes(tag));
+
+      if (watchlist.list().length === 0) {
+        logger.info(`📋 监控列表为空，当前使用 config-sgpm.ts 中的 ${sgpmConfig.productUrls.length} 个默认产品`);
+        logger.info('💡 使用 "watchlist import" 导入默认产品');
+        return;
+      }
+
+      logger.info(`📋 监控列表 (${entries.length} 项${options.all ? '' : '，已启用'}):`);
+      entries.forEach(({ entry, index }) => console.log(formatEntry(entry, index)));
+      return;
+    }
+
+    case 'import': {
+      const items = positional[0] ? readImportFile(positional[0]) : sgpmConfig.productUrls;
+      const { added, skipped } = watchlist.import(items);
+      logger.info(`📥 导入完成: 新增 ${added} 项, 跳过 ${skipped.length} 项`);
+      skipped.forEach(item => logger.warn(`   跳过: ${item}`));
+      break;
+    }
+
+    default:
+      console.log(USAGE);
+      if (command && command !== 'help') {
+        process.exitCode = 1;
+      }
+      return;
+  }
+
+  watchlist.save();
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    logger.error('❌ 监控列表操作失败:', error);
+    process.exit(1);
+  }
+}